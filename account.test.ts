@@ -0,0 +1,132 @@
+// Tests for the account export and deletion in lib/account.ts, run against the Auth and Firestore
+// emulators with the app's own Firebase instance. `npm run test:emulators` starts both, runs this
+// file and stops them. Without FIRESTORE_EMULATOR_HOST they are skipped.
+import { readFileSync } from 'node:fs';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { initializeTestEnvironment, type RulesTestContext, type RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { createUserWithEmailAndPassword, signInWithEmailAndPassword, type User } from 'firebase/auth';
+import { collection, doc, getDoc, getDocs, setDoc, terminate, Timestamp, type Firestore } from 'firebase/firestore';
+import JSZip from 'jszip';
+import { auth, db } from './firebase';
+import { deleteAccount, exportAccountArchive } from './lib/account';
+import { createCard } from './lib/cards';
+import { createDeck } from './lib/deckStore';
+import { saveProfileFields } from './lib/profile';
+import { publishDeck } from './lib/sharing';
+import type { Deck } from './lib/types';
+
+// firebase.js connects to the emulators only when this is set, and it reads it on import.
+vi.hoisted(() => {
+  if (process.env.FIRESTORE_EMULATOR_HOST) process.env.NEXT_PUBLIC_FIREBASE_EMULATORS = 'true';
+});
+
+// There is no IndexedDB in Node; the offline cache and queue are empty for these tests.
+vi.mock('./lib/localStore', async importOriginal => ({
+  ...await importOriginal<typeof import('./lib/localStore')>(),
+  getQueuedWrites: async () => [],
+  clearLocalData: async () => {},
+}));
+
+// A localStorage whose only enumerable keys are the stored items, as in the browser.
+const memoryStorage = () => Object.defineProperties({} as Record<string, string>, {
+  getItem: { value(this: Record<string, string>, key: string) { return this[key] ?? null; } },
+  setItem: { value(this: Record<string, string>, key: string, value: string) { this[key] = String(value); } },
+  removeItem: { value(this: Record<string, string>, key: string) { delete this[key]; } },
+});
+
+// The test contexts hand out compat instances; the modular functions unwrap them.
+const firestoreOf = (context: RulesTestContext) => context.firestore() as unknown as Firestore;
+
+const PASSWORD = 'correct horse battery';
+const settingsKey = (ownerId: string) => `smart-idiom-cards:settings:${ownerId}`;
+
+const makeDeck = (ownerId: string, title: string, fields: Partial<Deck> = {}): Deck => ({
+  id: crypto.randomUUID(),
+  title,
+  ownerId,
+  scheduler: 'sm2',
+  tags: [],
+  createdAt: Timestamp.now(),
+  cards: [createCard({ term: '画龙点睛', meaning: '比喻关键处的点拨', example: '', context: '', translation: '' })],
+  ...fields,
+});
+
+describe.skipIf(!process.env.FIRESTORE_EMULATOR_HOST)('account lifecycle', () => {
+  let env: RulesTestEnvironment;
+  let user: User;
+  let email: string;
+
+  // Reads and writes that bypass the rules, to set up and inspect the emulator's data.
+  const seed = (write: (db: Firestore) => Promise<unknown>) => env.withSecurityRulesDisabled(context => write(firestoreOf(context)).then(() => undefined));
+  const remaining = async <T,>(read: (db: Firestore) => Promise<T>) => {
+    let result: T | undefined;
+    await env.withSecurityRulesDisabled(async context => { result = await read(firestoreOf(context)); });
+    return result as T;
+  };
+  const ownedBy = (ownerId: string, path: string) => remaining(async db => (await getDocs(collection(db, path))).docs.filter(snapshot => snapshot.data().ownerId === ownerId).length);
+
+  // Fills the account through the app's own writes, except the review log, which normally
+  // arrives through the sync queue.
+  const seedAccount = async (ownerId: string) => {
+    const deck = makeDeck(ownerId, '成语');
+    await createDeck(deck);
+    const shareId = await publishDeck(deck);
+    await createDeck(makeDeck(ownerId, '已删除', { deletedAt: Timestamp.now() }));
+    await saveProfileFields(ownerId, { theme: 'dark', dailyGoal: 30 });
+    await seed(db => setDoc(doc(db, 'reviewLogs', crypto.randomUUID()), {
+      ownerId, cardId: deck.cards[0].id, deckId: deck.id, answer: 'good', prevInterval: 0, newInterval: 1, reviewedAt: Timestamp.now(), timeSpentMs: 4000,
+    }));
+    localStorage.setItem(settingsKey(ownerId), JSON.stringify({ leechThreshold: 5 }));
+    return { deck, shareId };
+  };
+
+  beforeAll(async () => {
+    // The app's project id, so the rules apply to the requests the app itself sends.
+    env = await initializeTestEnvironment({ projectId: db.app.options.projectId, firestore: { rules: readFileSync('firestore.rules', 'utf8') } });
+  });
+  afterAll(async () => {
+    vi.unstubAllGlobals();
+    await terminate(db);
+    await env.cleanup();
+  });
+  beforeEach(async () => {
+    await env.clearFirestore();
+    vi.stubGlobal('localStorage', memoryStorage());
+    email = `${crypto.randomUUID()}@example.com`;
+    user = (await createUserWithEmailAndPassword(auth, email, PASSWORD)).user;
+  });
+
+  it('exports every deck including the trash, the review log and the settings', async () => {
+    const { deck } = await seedAccount(user.uid);
+    const zip = await JSZip.loadAsync(await (await exportAccountArchive(user.uid)).arrayBuffer());
+
+    const backup = JSON.parse(await zip.file('decks.json')!.async('string'));
+    expect(backup.decks.map((saved: { title: string }) => saved.title).sort()).toEqual(['已删除', '成语']);
+    expect(backup.decks.find((saved: { title: string }) => saved.title === '成语').cards[0].term).toBe(deck.cards[0].term);
+    const reviewLog = JSON.parse(await zip.file('review-log.json')!.async('string'));
+    expect(reviewLog).toHaveLength(1);
+    expect(reviewLog[0].cardId).toBe(deck.cards[0].id);
+    const settings = JSON.parse(await zip.file('settings.json')!.async('string'));
+    expect(settings.profile).toMatchObject({ theme: 'dark', dailyGoal: 30 });
+    expect(settings.studySettings.leechThreshold).toBe(5);
+  });
+
+  it('deletes the decks, cards, shared decks, review log and profile, then the user', async () => {
+    const { deck, shareId } = await seedAccount(user.uid);
+    await seed(db => setDoc(doc(db, 'decks', 'bob-deck'), { title: '别人的', ownerId: 'bob', createdAt: Timestamp.now() }));
+    localStorage.setItem(settingsKey('bob'), '{}');
+
+    await deleteAccount(user);
+
+    expect(await ownedBy(user.uid, 'decks')).toBe(0);
+    expect(await ownedBy(user.uid, `decks/${deck.id}/cards`)).toBe(0);
+    expect(await ownedBy(user.uid, 'sharedDecks')).toBe(0);
+    expect(await ownedBy(user.uid, `sharedDecks/${shareId}/cards`)).toBe(0);
+    expect(await ownedBy(user.uid, 'reviewLogs')).toBe(0);
+    expect(await remaining(async db => (await getDoc(doc(db, 'profiles', user.uid))).exists())).toBe(false);
+    expect(await ownedBy('bob', 'decks')).toBe(1);
+    expect(localStorage.getItem(settingsKey(user.uid))).toBeNull();
+    expect(localStorage.getItem(settingsKey('bob'))).toBe('{}');
+    await expect(signInWithEmailAndPassword(auth, email, PASSWORD)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,106 @@
+// app/account/page.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { auth } from '../../firebase';
+import { onAuthStateChanged, reauthenticateWithCredential, reauthenticateWithPopup, EmailAuthProvider, GoogleAuthProvider, type User } from 'firebase/auth';
+import { BrainCircuit, Download, LoaderCircle, Trash2 } from 'lucide-react';
+import { accountArchiveName, authErrorKey, deleteAccount, exportAccountArchive, signInMethod } from '../../lib/account';
+import { downloadBlob } from '../../lib/exporters';
+import { isOnline } from '../../lib/sync';
+import { LanguageSwitcher, useI18n } from '../../components/LocaleProvider';
+
+// Account settings: download everything the user owns as one archive, or delete the account and all of it.
+const AccountPage = () => {
+  const { t } = useI18n();
+  const router = useRouter();
+  const [user, setUser] = useState<User | null>(null);
+  const [authLoading, setAuthLoading] = useState(true);
+  const [password, setPassword] = useState('');
+  const [busy, setBusy] = useState<'export' | 'delete' | null>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  useEffect(() => onAuthStateChanged(auth, currentUser => {
+    setUser(currentUser);
+    setAuthLoading(false);
+    if (!currentUser) router.replace('/');
+  }), [router]);
+
+  const handleExport = async () => {
+    if (!user) return;
+    if (!isOnline()) { setMessage({ text: t('account.offline'), isError: true }); return; }
+    setBusy('export');
+    setMessage(null);
+    try {
+      downloadBlob(await exportAccountArchive(user.uid), accountArchiveName());
+      setMessage({ text: t('account.exported'), isError: false });
+    } catch (err) {
+      console.error("导出账户数据失败:", err);
+      setMessage({ text: t('account.exportFailed'), isError: true });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // Firebase only deletes accounts that signed in recently, so the user confirms who they are first.
+  const handleDelete = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    if (!isOnline()) { setMessage({ text: t('account.offline'), isError: true }); return; }
+    if (!window.confirm(t('account.deleteConfirm'))) return;
+    setBusy('delete');
+    setMessage(null);
+    try {
+      if (signInMethod(user) === 'password') await reauthenticateWithCredential(user, EmailAuthProvider.credential(user.email ?? '', password));
+      else await reauthenticateWithPopup(user, new GoogleAuthProvider());
+      await deleteAccount(user);
+      router.replace('/');
+    } catch (err) {
+      console.error("删除账户失败:", err);
+      setMessage({ text: t(authErrorKey(err) === 'authError.unknown' ? 'account.deleteFailed' : authErrorKey(err)), isError: true });
+      setBusy(null);
+    }
+  };
+
+  if (authLoading || !user) {
+    return <div className="flex justify-center items-center min-h-screen bg-slate-50 dark:bg-slate-900"><LoaderCircle size={48} className="animate-spin text-blue-500" /></div>;
+  }
+
+  return (
+    <main className="min-h-screen flex flex-col items-center p-4 sm:p-8 bg-slate-50 dark:bg-slate-900 text-slate-800 dark:text-slate-200">
+      <div className="w-full max-w-2xl">
+        <header className="flex justify-between items-center mb-8 gap-4">
+          <Link href="/" className="flex items-center gap-2 text-xl font-bold"><BrainCircuit className="text-blue-500" />{t('app.title')}</Link>
+          <LanguageSwitcher />
+        </header>
+
+        <h1 className="text-3xl font-bold mb-2">{t('account.title')}</h1>
+        <p className="text-sm text-slate-500 mb-6">{t('account.signedInAs', { email: user.email ?? '' })}</p>
+        {message && <p className={`mb-6 p-3 rounded-lg text-sm ${message.isError ? 'bg-red-100 dark:bg-red-900/40 text-red-600 dark:text-red-300' : 'bg-green-100 dark:bg-green-900/40 text-green-700 dark:text-green-300'}`} role="status">{message.text}</p>}
+
+        <section className="p-6 mb-6 rounded-xl bg-white dark:bg-slate-800 shadow">
+          <h2 className="text-xl font-semibold mb-2">{t('account.exportTitle')}</h2>
+          <p className="text-sm text-slate-500 mb-4">{t('account.exportBody')}</p>
+          <button onClick={handleExport} disabled={busy !== null} className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 text-white font-semibold hover:bg-blue-700 disabled:bg-slate-400 transition-all">
+            {busy === 'export' ? <LoaderCircle size={16} className="animate-spin" /> : <Download size={16} />}{t('account.export')}
+          </button>
+        </section>
+
+        <section className="p-6 rounded-xl border-2 border-red-300 dark:border-red-800 bg-white dark:bg-slate-800">
+          <h2 className="text-xl font-semibold mb-2 text-red-600 dark:text-red-400">{t('account.deleteTitle')}</h2>
+          <p className="text-sm text-slate-500 mb-4">{t('account.deleteBody')}</p>
+          <form onSubmit={handleDelete} className="flex flex-wrap items-center gap-3">
+            {signInMethod(user) === 'password' && <input type="password" value={password} onChange={e => setPassword(e.target.value)} placeholder={t('account.passwordPlaceholder')} required className="flex-1 min-w-48 p-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-slate-50 dark:bg-slate-700"/>}
+            <button type="submit" disabled={busy !== null} className="flex items-center gap-2 px-4 py-2 rounded-lg bg-red-600 text-white font-semibold hover:bg-red-700 disabled:bg-slate-400 transition-all">
+              {busy === 'delete' ? <LoaderCircle size={16} className="animate-spin" /> : <Trash2 size={16} />}{t('account.delete')}
+            </button>
+          </form>
+        </section>
+      </div>
+    </main>
+  );
+};
+
+export default AccountPage;
@@ -0,0 +1,11 @@
+// app/api/ai/providers/route.ts
+import { NextResponse } from 'next/server';
+import { getConfiguredProviders } from '../../../../lib/server/aiProviders';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const providers = getConfiguredProviders().map(({ id, label }) => ({ id, label }));
+  return NextResponse.json({ providers });
+}
@@ -0,0 +1,68 @@
+// app/api/ai/route.ts
+// AI gateway: verifies the Firebase ID token, applies per-user limits, serves cached
+// answers per (term, prompt type) and streams provider output back as plain text.
+import { NextResponse } from 'next/server';
+import { verifyRequestUser } from '../../../lib/server/firebaseAdmin';
+import { getProvider } from '../../../lib/server/aiProviders';
+import { consumeRequest, remainingQuota, cacheKey, getCached, setCached } from '../../../lib/server/aiGateway';
+import { PROMPTS, isPromptType, parseAiRequest, payloadLength, type AiRequest } from '../../../lib/prompts';
+import type { AiErrorCode } from '../../../lib/ai';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Errors are sent as codes; the client translates them.
+const errorResponse = (status: number, error: AiErrorCode, headers?: HeadersInit, details?: { maxChars: number }) => NextResponse.json({ error, ...details }, { status, headers });
+
+export async function POST(request: Request) {
+  const uid = await verifyRequestUser(request);
+  if (!uid) return errorResponse(401, 'ai/unauthenticated');
+
+  let body: { provider?: unknown; type?: unknown; payload?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, 'ai/bad-request');
+  }
+  if (!isPromptType(body.type)) return errorResponse(400, 'ai/unknown-type');
+  const aiRequest = parseAiRequest(body.type, body.payload);
+  if (!aiRequest) return errorResponse(400, 'ai/bad-request');
+  const provider = getProvider(String(body.provider));
+  if (!provider) return errorResponse(503, 'ai/provider-unavailable');
+
+  const definition = PROMPTS[aiRequest.type];
+  if (payloadLength(aiRequest.payload) > definition.maxInputChars) return errorResponse(413, 'ai/input-too-long', undefined, { maxChars: definition.maxInputChars });
+
+  // Cache hits don't count against the user's limits.
+  const term = (definition.cacheTerm as (payload: AiRequest['payload']) => string | null)(aiRequest.payload);
+  const key = term ? cacheKey(provider.id, aiRequest.type, term) : null;
+  const cached = key ? getCached(key) : null;
+  if (cached !== null) {
+    return new Response(cached, { headers: { 'Content-Type': 'text/plain; charset=utf-8', 'X-AI-Cache': 'hit', 'X-AI-Quota-Remaining': String(remainingQuota(uid)) } });
+  }
+
+  const limit = consumeRequest(uid);
+  if (!limit.allowed) {
+    return errorResponse(429, limit.reason === 'quota' ? 'ai/quota-exceeded' : 'ai/rate-limited', { 'Retry-After': String(limit.retryAfterSeconds) });
+  }
+
+  const prompt = (definition.build as (payload: AiRequest['payload']) => string)(aiRequest.payload);
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let full = '';
+      try {
+        for await (const chunk of provider.stream(prompt, { json: definition.json })) {
+          full += chunk;
+          controller.enqueue(encoder.encode(chunk));
+        }
+        if (key && full) setCached(key, full);
+        controller.close();
+      } catch (err) {
+        console.error("AI provider error:", err);
+        controller.error(err);
+      }
+    },
+  });
+  return new Response(stream, { headers: { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-store', 'X-AI-Cache': 'miss', 'X-AI-Quota-Remaining': String(remainingQuota(uid)) } });
+}
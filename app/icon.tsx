@@ -0,0 +1,24 @@
+// app/icon.tsx
+// App icons drawn at request time, so the repo needs no binary image files: a stack of two
+// cards on the brand blue. Served at /icon/192 and /icon/512 for the manifest.
+import { ImageResponse } from 'next/og';
+
+const SIZES = [192, 512];
+
+export function generateImageMetadata() {
+  return SIZES.map(size => ({ id: String(size), size: { width: size, height: size }, contentType: 'image/png' }));
+}
+
+export default function Icon({ id }: { id: string }) {
+  const size = Number(id);
+  const card = { position: 'absolute', width: size * 0.46, height: size * 0.58, borderRadius: size * 0.06 } as const;
+  return new ImageResponse(
+    (
+      <div style={{ width: '100%', height: '100%', display: 'flex', alignItems: 'center', justifyContent: 'center', position: 'relative', background: '#3b82f6' }}>
+        <div style={{ ...card, background: '#bfdbfe', transform: 'rotate(-12deg) translateX(-12%)' }} />
+        <div style={{ ...card, background: '#ffffff', transform: 'rotate(8deg) translateX(10%)' }} />
+      </div>
+    ),
+    { width: size, height: size },
+  );
+}
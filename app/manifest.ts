@@ -0,0 +1,20 @@
+// app/manifest.ts
+// Web app manifest, served at /manifest.webmanifest; the icons come from app/icon.tsx.
+import type { MetadataRoute } from 'next';
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: '智能术语卡片',
+    short_name: '术语卡片',
+    description: 'Spaced-repetition flashcards for idioms, slang and phrasal verbs.',
+    start_url: '/',
+    display: 'standalone',
+    background_color: '#0f172a',
+    theme_color: '#3b82f6',
+    icons: [
+      { src: '/icon/192', sizes: '192x192', type: 'image/png', purpose: 'any' },
+      { src: '/icon/512', sizes: '512x512', type: 'image/png', purpose: 'any' },
+      { src: '/icon/512', sizes: '512x512', type: 'image/png', purpose: 'maskable' },
+    ],
+  };
+}
@@ -1,117 +1,133 @@
 // app/page.tsx
 'use client';
 
-import { useState, useEffect, useMemo, useCallback } from 'react';
-import { db, auth } from '../firebase'; 
-import { onAuthStateChanged, createUserWithEmailAndPassword, signInWithEmailAndPassword, signOut, User } from 'firebase/auth';
-import { collection, addDoc, getDocs, query, where, orderBy, serverTimestamp, Timestamp, doc, deleteDoc, updateDoc } from 'firebase/firestore';
-import { Sun, Moon, Save, LoaderCircle, LayoutList, Inbox, X, BrainCircuit, BotMessageSquare, Trash2, Search, Pencil, GraduationCap, BarChart2, Sparkles, LogOut } from 'lucide-react';
-import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from 'recharts';
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { auth } from '../firebase';
+import { onAuthStateChanged, signOut, User } from 'firebase/auth';
+import Link from 'next/link';
+import { Timestamp } from 'firebase/firestore';
+import { Sun, Moon, Save, LoaderCircle, LayoutList, Inbox, X, BrainCircuit, BotMessageSquare, Trash2, Search, Pencil, Share2, GraduationCap, BarChart2, Sparkles, LogOut, ArrowDownUp, AlertTriangle, Wand2, Bug, UserCog, Printer, WandSparkles } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
+import type { Card, Deck, ReviewAnswer, ReviewLogEntry, SchedulerId } from '../lib/types';
+import { DEFAULT_SCHEDULER } from '../lib/scheduler';
+import { createCard, normalizeDeck, applyReview, deckCardCount } from '../lib/cards';
+import { fetchDeckCards, fetchDeckSummaries } from '../lib/deckStore';
+import { fetchReviewLog } from '../lib/reviewLog';
+import { getCachedDecks, replaceCachedDecks, getQueuedWrites, toStoredDeck, toStoredCard, toStoredReviewLog, type PendingWrite, type StoredCardChanges } from '../lib/localStore';
+import { queueWrite, queueWrites, flushQueue, cancelRetry, applyPendingWrite, deckEditWrites, isOnline, markOffline, newDocId } from '../lib/sync';
+import { isTrashed, isTrashExpired } from '../lib/trash';
+import { buildDailyQueue, buildQueueFromCards, dueBreakdown, queueCounts, queueSize, summaryDueCount, takeNext, requeueForRelearning, type QueueItem, type ReviewQueue } from '../lib/reviewQueue';
+import { loadStudySettings, saveStudySettings, DEFAULT_STUDY_SETTINGS, type StudySettings } from '../lib/settings';
+import { publishDeck, unpublishDeck } from '../lib/sharing';
+import { EMPTY_FILTER, isFilterActive, searchCards, type CardFilter, type CardMatch } from '../lib/search';
+import SyncIndicator from '../components/SyncIndicator';
+import ShareDeckModal from '../components/ShareDeckModal';
+import PrintDeckModal from '../components/PrintDeckModal';
+import EnrichDeckModal from '../components/EnrichDeckModal';
+import { applyEnrichment, findIncompleteCards, type EnrichmentProposal } from '../lib/enrichment';
+import CardSearchPanel from '../components/CardSearchPanel';
+import DeckEditorModal from '../components/DeckEditorModal';
+import TrashModal from '../components/TrashModal';
+import ReviewOverlay from '../components/ReviewOverlay';
+import ReviewSummary from '../components/ReviewSummary';
+import DailyReviewPanel from '../components/DailyReviewPanel';
+import LearningDashboard from '../components/LearningDashboard';
+import ImportExportModal from '../components/ImportExportModal';
+import type { ImportedDeck } from '../lib/importers';
+import { NOTE_PARSERS, parseNotes, extractTitle, formatDiagnostic, type ParseDiagnostic, type ParseFormat } from '../lib/parsers';
+import ParseReport, { type ReportFormat } from '../components/ParseReport';
+import { streamAi, fetchAiProviders, aiErrorMessage, type AiProvider, type AiProviderInfo } from '../lib/ai';
+import { generateCardsFromText } from '../lib/cardGeneration';
+import { summarizeSession, reviewStreak, reviewsToday } from '../lib/analytics';
+import { formatDateTime, type Locale, type Translator } from '../lib/i18n';
+import { LOCALE_PARSER_LABELS, parserLabelsFor } from '../lib/i18n/parserLabels';
+import { LanguageSwitcher, useI18n } from '../components/LocaleProvider';
+import ParserAliasEditor from '../components/ParserAliasEditor';
+import LeechesModal from '../components/LeechesModal';
+import { LEECH_TAG, cardFlags, findLeeches, isLeech, tagIfLeech, tomorrow } from '../lib/leeches';
+import type { LeechHelpKind } from '../lib/prompts';
+import { DEFAULT_PROFILE, cacheProfile, fetchProfile, loadCachedProfile, type UserProfile } from '../lib/profile';
+import { registerServiceWorker, requestReminderPermission, showDueReminder } from '../lib/pwa';
+import GoalProgress from '../components/GoalProgress';
+import AuthForm from '../components/AuthForm';
+import VerifyEmailGate from '../components/VerifyEmailGate';
+import { needsEmailVerification } from '../lib/account';
 
 // --- Data Structures ---
-interface Card { id: string; term: string; meaning: string; example: string; context: string; translation: string; srsLevel: number; dueDate: Timestamp; }
-interface Deck { id: string; title: string; cards: Card[]; createdAt: Timestamp; ownerId: string; }
-interface Notification { message: string; type: 'success' | 'error'; }
-type AiProvider = 'gemini' | 'deepseek';
+interface Notification { message: string; type: 'success' | 'error'; action?: { label: string; onClick: () => void }; }
+interface ReviewSession { queue: ReviewQueue; current: QueueItem; reviewed: number; isFlipped: boolean; shownAt: number; log: ReviewLogEntry[]; previous?: ReviewStep; }
+// The session as it was before an answer (logId set) or a bury/suspend (logId null), so either can be undone.
+interface ReviewStep { session: ReviewSession; logId: string | null; }
+// What the end-of-session summary needs: this session's answers and the step to undo the last one.
+interface FinishedReview { log: ReviewLogEntry[]; lastStep?: ReviewStep; }
 
 // --- Helper Functions & Constants ---
-const formatTimestamp = (timestamp: Timestamp): string => {
-  if (!timestamp || !timestamp.toDate) return '未知时间';
-  return timestamp.toDate().toLocaleString('zh-CN', { year: 'numeric', month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false });
-};
-const SRS_INTERVALS_DAYS = [1, 3, 7, 14, 30, 90, 180, 365];
-const STATS_COLORS = ["#ef4444", "#f97316", "#eab308", "#84cc16", "#22c55e", "#10b981", "#06b6d4", "#3b82f6", "#8b5cf6"];
-
-// --- AI Setup ---
-const geminiApiKey = process.env.NEXT_PUBLIC_GEMINI_API_KEY || "";
-const deepseekApiKey = process.env.NEXT_PUBLIC_DEEPSEEK_API_KEY || "";
-const genAI = geminiApiKey ? new GoogleGenerativeAI(geminiApiKey) : null;
-const geminiModel = genAI ? genAI.getGenerativeModel({ model: "gemini-1.5-flash"}) : null;
-
-// --- Authentication Component ---
-const AuthForm = ({ onAuthSuccess }: { onAuthSuccess: () => void }) => {
-  const [email, setEmail] = useState('');
-  const [password, setPassword] = useState('');
-  const [isLoginView, setIsLoginView] = useState(true);
-  const [error, setError] = useState('');
-  const [loading, setLoading] = useState(false);
-
-  const handleAuthAction = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setLoading(true);
-    setError('');
-    try {
-      if (isLoginView) {
-        await signInWithEmailAndPassword(auth, email, password);
-      } else {
-        await createUserWithEmailAndPassword(auth, email, password);
-      }
-      onAuthSuccess();
-    } catch (err: unknown) { // FIX: Use 'unknown' instead of 'any'
-      if (err instanceof Error) {
-        setError(err.message.replace('Firebase: ', ''));
-      } else {
-        setError("An unknown error occurred.");
-      }
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  return (
-    <div className="flex justify-center items-center min-h-screen bg-slate-100 dark:bg-slate-900">
-      <div className="w-full max-w-md p-8 bg-white dark:bg-slate-800 rounded-2xl shadow-xl">
-        <h2 className="text-3xl font-bold mb-6 text-center text-slate-800 dark:text-white">{isLoginView ? '登录' : '注册'}</h2>
-        <form onSubmit={handleAuthAction} className="space-y-4">
-          <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} placeholder="邮箱" required className="w-full p-3 border border-slate-300 dark:border-slate-600 rounded-lg bg-slate-50 dark:bg-slate-700 focus:ring-2 focus:ring-blue-500"/>
-          <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} placeholder="密码 (至少6位)" required className="w-full p-3 border border-slate-300 dark:border-slate-600 rounded-lg bg-slate-50 dark:bg-slate-700 focus:ring-2 focus:ring-blue-500"/>
-          {error && <p className="text-red-500 text-sm text-center">{error}</p>}
-          <button type="submit" disabled={loading} className="w-full bg-blue-600 text-white font-semibold py-3 px-4 rounded-lg hover:bg-blue-700 disabled:bg-slate-400 flex justify-center items-center">
-            {loading ? <LoaderCircle className="animate-spin" /> : (isLoginView ? '登录' : '注册')}
-          </button>
-        </form>
-        <p className="text-center mt-6 text-sm text-slate-600 dark:text-slate-400">
-          {isLoginView ? "还没有账户？" : "已有账户？"}
-          <button onClick={() => setIsLoginView(!isLoginView)} className="font-semibold text-blue-500 hover:underline ml-1">
-            {isLoginView ? '立即注册' : '立即登录'}
-          </button>
-        </p>
-      </div>
-    </div>
-  );
+const formatTimestamp = (timestamp: Timestamp, locale: Locale, t: Translator): string => {
+  if (!timestamp || !timestamp.toDate) return t('app.unknownTime');
+  return formatDateTime(locale, timestamp.toDate());
 };
-
+const REVIEW_LOG_DAYS = 365;
+const NOTIFICATION_MS = 3000;
+const UNDO_NOTIFICATION_MS = 8000;
+const REMINDER_CHECK_MS = 15 * 60 * 1000;
 
 export default function HomePage() {
   // --- State Management ---
+  const { locale, setLocale, t } = useI18n();
   const [user, setUser] = useState<User | null>(null);
   const [authLoading, setAuthLoading] = useState(true);
+  const [isVerified, setIsVerified] = useState(false);
   const [inputText, setInputText] = useState('');
   const [activeCards, setActiveCards] = useState<Card[]>([]);
-  const [decks, setDecks] = useState<Deck[]>([]);
+  const [allDecks, setDecks] = useState<Deck[]>([]);
+  const [decksLoaded, setDecksLoaded] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [isParsing, setIsParsing] = useState(false);
+  const [parseFormat, setParseFormat] = useState<ParseFormat | 'auto'>('auto');
+  const [generationProgress, setGenerationProgress] = useState<{ done: number; total: number } | null>(null);
+  const [parseReport, setParseReport] = useState<{ format: ReportFormat; diagnostics: ParseDiagnostic[]; cardWarnings: {[cardId: string]: ParseDiagnostic[]} } | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [notification, setNotification] = useState<Notification | null>(null);
   const [flippedStates, setFlippedStates] = useState<{[key: string]: boolean}>({});
-  const [theme, setTheme] = useState('light');
+  const [profile, setProfile] = useState<UserProfile>(DEFAULT_PROFILE);
   const [activeDeckId, setActiveDeckId] = useState<string | null>(null);
   const [hasMounted, setHasMounted] = useState(false);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [isEditModalOpen, setIsEditModalOpen] = useState(false);
-  const [editingDeck, setEditingDeck] = useState<Deck | null>(null);
-  const [reviewSession, setReviewSession] = useState<{deck: Deck; queue: Card[]; currentIndex: number; isFlipped: boolean} | null>(null);
-  const [aiProvider, setAiProvider] = useState<AiProvider>('gemini');
+  const [cardFilter, setCardFilter] = useState<CardFilter>(EMPTY_FILTER);
+  const [editingDeckId, setEditingDeckId] = useState<string | null>(null);
+  const [reviewSession, setReviewSession] = useState<ReviewSession | null>(null);
+  const [finishedReview, setFinishedReview] = useState<FinishedReview | null>(null);
+  const [studySettings, setStudySettings] = useState<StudySettings>(DEFAULT_STUDY_SETTINGS);
+  const [reviewLog, setReviewLog] = useState<ReviewLogEntry[]>([]);
+  const [isImportExportOpen, setIsImportExportOpen] = useState(false);
+  const [sharingDeckId, setSharingDeckId] = useState<string | null>(null);
+  const [isSharing, setIsSharing] = useState(false);
+  const [printingDeckId, setPrintingDeckId] = useState<string | null>(null);
+  const [enrichingDeckId, setEnrichingDeckId] = useState<string | null>(null);
+  const [isApplyingEnrichment, setIsApplyingEnrichment] = useState(false);
+  const [aiProvider, setAiProvider] = useState<AiProvider>('');
+  const [aiProviders, setAiProviders] = useState<AiProviderInfo[]>([]);
   const [aiResponses, setAiResponses] = useState<{[key: string]: {loading: boolean; response: string}}>({});
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [isLeechesOpen, setIsLeechesOpen] = useState(false);
+  const [leechHelp, setLeechHelp] = useState<{[key: string]: {loading: boolean; response: string}}>({});
+  // Card reads in flight, so a deck asked for twice while loading is read once.
+  const cardRequests = useRef(new Map<string, Promise<Card[]>>());
+
+  // Trashed decks stay in allDecks (and the offline cache) but are hidden everywhere else.
+  const decks = useMemo(() => allDecks.filter(deck => !isTrashed(deck)), [allDecks]);
+  const trashedDecks = useMemo(() => allDecks.filter(isTrashed), [allDecks]);
+  const leeches = useMemo(() => findLeeches(decks), [decks]);
+  const theme = profile.theme;
+  // Note labels come from the UI language plus the user's own aliases.
+  const parserLabels = useMemo(() => parserLabelsFor(locale, studySettings.parserAliases), [locale, studySettings.parserAliases]);
 
   // --- Effects ---
   useEffect(() => {
     setHasMounted(true);
     const unsubscribe = onAuthStateChanged(auth, (currentUser) => {
       setUser(currentUser);
+      setIsVerified(!!currentUser && !needsEmailVerification(currentUser));
       setAuthLoading(false);
     });
     return () => unsubscribe();
@@ -119,247 +135,645 @@ export default function HomePage() {
 
   useEffect(() => {
     const fetchDecks = async () => {
+      setDecksLoaded(false);
       if (!user) { setDecks([]); return; }
       setIsLoading(true);
+      // Show the local cache first so the app works offline, then refresh from Firestore.
+      const cachedDecks = await getCachedDecks(user.uid).catch(err => { console.error("读取本地缓存失败:", err); return [] as Deck[]; });
+      if (cachedDecks.length > 0) { setDecks(cachedDecks.map(normalizeDeck)); setIsLoading(false); }
       try {
-        const q = query(collection(db, "decks"), where("ownerId", "==", user.uid), orderBy("createdAt", "desc"));
-        const querySnapshot = await getDocs(q);
-        const fetchedDecks = querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Deck));
-        setDecks(fetchedDecks);
+        if (!isOnline()) { markOffline(); return; }
+        await flushQueue(user.uid);
+        // Only the deck list is read here; each deck keeps its cached cards until they are needed.
+        const cachedCards = new Map(cachedDecks.map(deck => [deck.id, deck.cards]));
+        const fetchedDecks = (await fetchDeckSummaries(user.uid)).map(deck => normalizeDeck({ ...deck, cards: cachedCards.get(deck.id) ?? [] }));
+        // Writes that could not be flushed yet are laid over the server copy.
+        const pending = await getQueuedWrites(user.uid);
+        const merged = pending.reduce(applyPendingWrite, fetchedDecks);
+        // Decks that outlived the trash retention period are purged on load.
+        const expired = merged.filter(deck => isTrashExpired(deck));
+        for (const deck of expired) await queueWrite(user.uid, { kind: 'deleteDeck', deckId: deck.id });
+        setDecks(merged.filter(deck => !isTrashExpired(deck)));
       } catch (err) {
         console.error("获取卡组失败:", err);
-        setNotification({ message: "无法从云端加载您的卡组", type: 'error' });
+        if (cachedDecks.length === 0) setNotification({ message: t('notify.loadFailed'), type: 'error' });
       } finally {
         setIsLoading(false);
+        setDecksLoaded(true);
       }
     };
     if (!authLoading) { fetchDecks(); }
+  // eslint-disable-next-line react-hooks/exhaustive-deps -- only the error toast uses t; a language switch must not refetch
+  }, [user, authLoading]);
+
+  useEffect(() => {
+    if (!user || !decksLoaded) return;
+    replaceCachedDecks(user.uid, allDecks).catch(err => console.error("写入本地缓存失败:", err));
+  }, [user, allDecks, decksLoaded]);
+
+  useEffect(() => {
+    if (!user) return;
+    const handleOnline = () => { flushQueue(user.uid).catch(err => console.error("同步失败:", err)); };
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', markOffline);
+    return () => { window.removeEventListener('online', handleOnline); window.removeEventListener('offline', markOffline); cancelRetry(); };
+  }, [user]);
+
+  useEffect(() => {
+    const loadReviewLog = async () => {
+      if (!user) { setReviewLog([]); return; }
+      try {
+        const since = new Date();
+        since.setDate(since.getDate() - REVIEW_LOG_DAYS);
+        setReviewLog(await fetchReviewLog(user.uid, since));
+      } catch (err) {
+        console.error("获取复习记录失败:", err);
+      }
+    };
+    if (!authLoading) { loadReviewLog(); }
   }, [user, authLoading]);
 
+  useEffect(() => {
+    setStudySettings(user ? loadStudySettings(user.uid) : DEFAULT_STUDY_SETTINGS);
+  }, [user]);
+
+  // The cached profile applies at once; the Firestore copy, with unsynced changes laid over it, replaces it once loaded.
+  useEffect(() => {
+    const loadProfile = async () => {
+      if (!user) { setProfile(DEFAULT_PROFILE); return; }
+      setProfile(loadCachedProfile(user.uid));
+      if (!isOnline()) return;
+      try {
+        const remote = await fetchProfile(user.uid);
+        if (!remote) return;
+        const pending = await getQueuedWrites(user.uid);
+        const merged = pending.reduce<UserProfile>((current, write) => write.kind === 'updateProfile' ? { ...current, ...write.changes } : current, remote);
+        setProfile(merged);
+        cacheProfile(user.uid, merged);
+      } catch (err) {
+        console.error("获取个人设置失败:", err);
+      }
+    };
+    if (!authLoading) { loadProfile(); }
+  }, [user, authLoading]);
+
+  useEffect(() => {
+    registerServiceWorker().catch(err => console.error("注册 Service Worker 失败:", err));
+  }, []);
+
+  // A language saved for the user wins over the device's choice.
+  useEffect(() => {
+    if (studySettings.locale) setLocale(studySettings.locale);
+  }, [studySettings.locale, setLocale]);
+
+  useEffect(() => {
+    if (!user) return;
+    fetchAiProviders()
+      .then(providers => {
+        setAiProviders(providers);
+        setAiProvider(prev => providers.some(p => p.id === prev) ? prev : (providers[0]?.id ?? ''));
+      })
+      .catch(err => console.error("获取 AI 引擎失败:", err));
+  }, [user]);
+
+  // The provider saved in the profile wins once the server confirms it is configured.
+  useEffect(() => {
+    if (profile.aiProvider && aiProviders.some(p => p.id === profile.aiProvider)) setAiProvider(profile.aiProvider);
+  }, [profile.aiProvider, aiProviders]);
+
+  // With reminders on, a local notification says when cards are due while the app is in the background, at most once a day.
+  useEffect(() => {
+    if (!user || !profile.reminders) return;
+    const check = () => {
+      const due = queueSize(buildDailyQueue(decks, { limits: studySettings.limits, reviewLog })) + summaryDueCount(decks);
+      if (due > 0) showDueReminder(user.uid, t('reminder.title'), t('reminder.body', { count: due })).catch(err => console.error("发送复习提醒失败:", err));
+    };
+    check();
+    const timer = setInterval(check, REMINDER_CHECK_MS);
+    return () => clearInterval(timer);
+  }, [user, profile.reminders, decks, studySettings.limits, reviewLog, t]);
+
   useEffect(() => {
     if (notification) {
-      const timer = setTimeout(() => setNotification(null), 3000);
+      const timer = setTimeout(() => setNotification(null), notification.action ? UNDO_NOTIFICATION_MS : NOTIFICATION_MS);
       return () => clearTimeout(timer);
     }
   }, [notification]);
 
+  // The loaded deck's cards follow saves, undos and reviews made elsewhere in the app.
+  useEffect(() => {
+    const deck = decks.find(d => d.id === activeDeckId);
+    if (deck) setActiveCards(deck.cards);
+  }, [decks, activeDeckId]);
+
   // --- Memoized Calculations ---
+  const cardMatches = useMemo(() => isFilterActive(cardFilter) ? searchCards(decks, cardFilter) : [], [decks, cardFilter]);
+
+  // Decks with a matching card, plus decks whose title matches the search text.
   const filteredDecks = useMemo(() => {
-    if (!searchTerm) return decks;
-    const lowercasedTerm = searchTerm.toLowerCase();
-    return decks.filter(deck => 
-      deck.title.toLowerCase().includes(lowercasedTerm) || 
-      (deck.cards && deck.cards.some(card => card.term.toLowerCase().includes(lowercasedTerm)))
-    );
-  }, [decks, searchTerm]);
+    if (!isFilterActive(cardFilter)) return decks;
+    const matchedDeckIds = new Set(cardMatches.map(match => match.deck.id));
+    const lowercasedTerm = cardFilter.text.trim().toLowerCase();
+    return decks.filter(deck => matchedDeckIds.has(deck.id) || (lowercasedTerm && deck.title.toLowerCase().includes(lowercasedTerm)));
+  }, [decks, cardFilter, cardMatches]);
   
-  const learningStats = useMemo(() => {
-    const stats = Array(SRS_INTERVALS_DAYS.length + 1).fill(0);
-    decks.forEach(deck => {
-      if(deck.cards){
-        deck.cards.forEach(card => {
-          const level = card.srsLevel || 0;
-          stats[level] = (stats[level] || 0) + 1;
-        });
-      }
-    });
-    return stats.map((count, index) => ({ name: `等级 ${index}`, count }));
-  }, [decks]);
-
   // --- Core & Helper Functions ---
   const handleSignOut = async () => { await signOut(auth); };
   
+  const collectCardWarnings = (cards: Card[], diagnostics: ParseDiagnostic[]) => {
+    const cardWarnings: {[cardId: string]: ParseDiagnostic[]} = {};
+    diagnostics.forEach(d => {
+      if (d.cardIndex === undefined || !cards[d.cardIndex]) return;
+      const id = cards[d.cardIndex].id;
+      cardWarnings[id] = [...(cardWarnings[id] || []), d];
+    });
+    return cardWarnings;
+  };
+
   const handleParseText = () => {
     setIsParsing(true);
     setActiveCards([]);
     setFlippedStates({});
     setAiResponses({});
+    setParseReport(null);
     try {
-      const tempActiveCards: Omit<Card, 'id' | 'srsLevel' | 'dueDate'>[] = [];
-      const complexSectionIndex = inputText.indexOf('重要俚语/习惯用语/短语');
-      if (complexSectionIndex > -1) {
-        let complexText = inputText.substring(complexSectionIndex);
-        const simpleSectionMarkerIndex = complexText.indexOf('简单常见表达');
-        if (simpleSectionMarkerIndex > -1) complexText = complexText.substring(0, simpleSectionMarkerIndex);
-        const blocks = complexText.split(/\n(?=[^\n]+?\s+意思解释：)/).slice(1);
-        const complexCards = blocks.map(block => {
-          const term = block.match(/^(.+?)\n/)?.[1].trim() || '未找到术语';
-          const meaning = block.match(/意思解释：\s*([\s\S]*?)(?=\n在文中的句子：|\n简要文化背景或用法说明：)/)?.[1].trim() || '';
-          const example = block.match(/在文中的句子：\s*([\s\S]*?)(?=\n简要文化背景或用法说明：|\n翻译这句话的意思：)/)?.[1].trim() || '';
-          const context = block.match(/简要文化背景或用法说明：\s*([\s\S]*?)(?=\n翻译这句话的意思：)/)?.[1].trim() || '';
-          const translation = block.match(/翻译这句话的意思：\s*([\s\S]*)/)?.[1]?.trim() || '';
-          return { term, meaning, example, context, translation };
-        }).filter(card => card.term !== '未找到术语' && card.meaning);
-        tempActiveCards.push(...complexCards);
-      }
-      const simpleSectionIndex = inputText.indexOf('简单常见表达');
-      if (simpleSectionIndex > -1) {
-        const simpleText = inputText.substring(simpleSectionIndex);
-        const lines = simpleText.split('\n').slice(1).filter(line => line.trim() !== '' && line.includes(' - '));
-        const simpleCards = lines.map(line => {
-          const parts = line.split(/ - (.+)/);
-          if (parts.length < 2) return null;
-          return { term: parts[0].trim(), meaning: parts[1].trim(), example: '', context: '', translation: '' };
-        }).filter(Boolean);
-        tempActiveCards.push(...simpleCards as Omit<Card, 'id'|'srsLevel'|'dueDate'>[]);
-      }
-      const allCards = tempActiveCards.map(c => ({...c, id: crypto.randomUUID(), srsLevel: 0, dueDate: Timestamp.now()}))
+      const { format, cards, diagnostics } = parseNotes(inputText, parseFormat, parserLabels);
+      const allCards = cards.map(createCard);
+      setParseReport({ format, diagnostics, cardWarnings: collectCardWarnings(allCards, diagnostics) });
       if (allCards.length > 0) {
-        setNotification({ message: `成功生成 ${allCards.length} 张预览卡片！`, type: 'success' });
+        setNotification({ message: t('notify.parsed', { count: allCards.length }), type: 'success' });
         setActiveCards(allCards);
         setActiveDeckId(null);
       } else {
-        setNotification({ message: '解析失败，未提取到卡片。', type: 'error' });
+        setNotification({ message: t('notify.parseEmpty'), type: 'error' });
       }
     } catch (e) {
-      setNotification({ message: '解析时发生错误。', type: 'error' });
+      setNotification({ message: t('notify.parseError'), type: 'error' });
       console.error(e);
     } finally {
       setIsParsing(false);
     }
   };
 
+  const persistNewDeck = async (ownerId: string, title: string, cards: Card[], scheduler: SchedulerId = DEFAULT_SCHEDULER, tags: string[] = []): Promise<Deck> => {
+    const newDeck: Deck = { id: newDocId("decks"), title, cards, createdAt: Timestamp.now(), ownerId, scheduler, tags };
+    await queueWrite(ownerId, { kind: 'createDeck', deck: toStoredDeck(newDeck) });
+    setDecks(prevDecks => [newDeck, ...prevDecks]);
+    return newDeck;
+  };
+
+  const handleGenerateFromText = async () => {
+    if (!inputText.trim()) { setNotification({ message: t('notify.pasteFirst'), type: 'error' }); return; }
+    if (!aiProvider) { setNotification({ message: t('notify.noAiProvider'), type: 'error' }); return; }
+    setGenerationProgress({ done: 0, total: 1 });
+    setActiveCards([]);
+    setFlippedStates({});
+    setAiResponses({});
+    setParseReport(null);
+    try {
+      // Generated terms are checked against every saved card.
+      const current = await ensureCards(allDeckIds());
+      if (!current) return;
+      const { cards, diagnostics } = await generateCardsFromText(aiProvider, inputText, current, locale, (done, total) => setGenerationProgress({ done, total }));
+      const allCards = cards.map(createCard);
+      setParseReport({ format: 'ai', diagnostics, cardWarnings: collectCardWarnings(allCards, diagnostics) });
+      if (allCards.length > 0) {
+        setNotification({ message: t('notify.generated', { count: allCards.length }), type: 'success' });
+        setActiveCards(allCards);
+        setActiveDeckId(null);
+      } else {
+        setNotification({ message: t('notify.generateEmpty'), type: 'error' });
+      }
+    } catch (err: unknown) {
+      console.error("AI 生成卡片失败:", err);
+      setNotification({ message: t('notify.generateFailed', { error: aiErrorMessage(err, t) }), type: 'error' });
+    } finally {
+      setGenerationProgress(null);
+    }
+  };
+
   const handleSaveDeck = async () => {
-    if (!user) { setNotification({ message: "请先登录后再保存！", type: 'error' }); return; }
-    if (activeCards.length === 0) { setNotification({ message: "没有可以保存的卡片！", type: 'error' }); return; }
+    if (!user) { setNotification({ message: t('notify.loginFirst'), type: 'error' }); return; }
+    if (activeCards.length === 0) { setNotification({ message: t('notify.nothingToSave'), type: 'error' }); return; }
     setIsSaving(true);
-    const title = inputText.match(/^标题：\s*(.*)/m)?.[1] || `卡组 - ${new Date().toLocaleString('zh-CN')}`;
+    const title = extractTitle(inputText, parserLabels) || t('app.defaultDeckTitle', { date: formatDateTime(locale, new Date()) });
     try {
-      const newDeckData = { title, cards: activeCards, createdAt: serverTimestamp(), ownerId: user.uid };
-      const docRef = await addDoc(collection(db, "decks"), newDeckData);
-      const newDeck = { id: docRef.id, ...newDeckData, createdAt: Timestamp.now() } as Deck;
-      setDecks(prevDecks => [newDeck, ...prevDecks]);
-      setNotification({ message: `卡组 "${title}" 保存成功！`, type: 'success' });
+      const newDeck = await persistNewDeck(user.uid, title, activeCards);
+      setNotification({ message: t('notify.deckSaved', { title }), type: 'success' });
       loadDeck(newDeck);
     } catch (err) {
       console.error("保存失败: ", err);
-      setNotification({ message: "保存失败，请检查控制台错误。", type: 'error' });
+      setNotification({ message: t('notify.saveFailed'), type: 'error' });
     } finally {
       setIsSaving(false);
     }
   };
 
-  const loadDeck = (deck: Deck) => {
+  const handleImportDecks = async (imported: ImportedDeck[]) => {
+    if (!user) return;
+    const nonEmpty = imported.filter(d => d.cards.length > 0);
+    // Queued together, so a failed import saves no deck and retrying it cannot save one twice.
+    await commitWrites(nonEmpty.map(deck => ({ kind: 'createDeck', deck: toStoredDeck({ id: newDocId("decks"), title: deck.title, cards: deck.cards, createdAt: Timestamp.now(), ownerId: user.uid, scheduler: deck.scheduler ?? DEFAULT_SCHEDULER, tags: deck.tags ?? [] }) })));
+    setNotification({ message: t('notify.imported', { decks: nonEmpty.length, cards: nonEmpty.reduce((sum, d) => sum + d.cards.length, 0) }), type: 'success' });
+  };
+
+  const requestCards = (deckId: string) => {
+    const pending = cardRequests.current.get(deckId);
+    if (pending) return pending;
+    const request = fetchDeckCards(deckId).finally(() => cardRequests.current.delete(deckId));
+    cardRequests.current.set(deckId, request);
+    return request;
+  };
+
+  // Reads the cards of the given decks that are still listed from their summary, lays unsynced writes
+  // over them and drops the summary. Offline the cached cards are used as they are. Resolves to the
+  // deck list with those cards in place, or null when they could not be loaded.
+  const ensureCards = async (deckIds: string[]): Promise<Deck[] | null> => {
+    const targets = decks.filter(deck => deck.summary && deckIds.includes(deck.id));
+    if (!user || targets.length === 0) return decks;
+    let loaded: Deck[];
+    if (isOnline()) {
+      try {
+        const pending = await getQueuedWrites(user.uid);
+        loaded = await Promise.all(targets.map(async deck => {
+          const fresh: Deck = { ...deck, summary: undefined, cards: await requestCards(deck.id) };
+          return pending.filter(write => 'deckId' in write && write.deckId === deck.id).reduce(applyPendingWrite, [fresh])[0] ?? fresh;
+        }));
+      } catch (err) {
+        console.error("加载卡片失败:", err);
+        setNotification({ message: t('notify.cardsLoadFailed'), type: 'error' });
+        return null;
+      }
+    } else {
+      if (targets.some(deck => deck.cards.length === 0 && deckCardCount(deck) > 0)) {
+        setNotification({ message: t('notify.cardsOffline'), type: 'error' });
+        return null;
+      }
+      loaded = targets.map(deck => ({ ...deck, summary: undefined }));
+    }
+    const byId = new Map(loaded.map(deck => [deck.id, deck]));
+    setDecks(prevDecks => prevDecks.map(d => byId.get(d.id) ?? d));
+    return decks.map(d => byId.get(d.id) ?? d);
+  };
+
+  const allDeckIds = () => decks.map(deck => deck.id);
+
+  // Views that work on cards open once those cards are loaded.
+  const openWithCards = async (deckIds: string[], open: () => void) => { if (await ensureCards(deckIds)) open(); };
+
+  // Card search looks through every deck, so the first search loads every deck's cards.
+  const changeCardFilter = (filter: CardFilter) => {
+    setCardFilter(filter);
+    if (isFilterActive(filter)) ensureCards(allDeckIds());
+  };
+
+  const loadDeck = async (target: Deck) => {
+    const deck = target.summary ? (await ensureCards([target.id]))?.find(d => d.id === target.id) : target;
+    if (!deck) return;
     setActiveCards(deck.cards || []);
     setActiveDeckId(deck.id);
+    setParseReport(null);
     setFlippedStates({});
     setAiResponses({});
     const inputSection = document.getElementById('input-section');
     if (inputSection) inputSection.scrollIntoView({ behavior: 'smooth', block: 'start' });
   };
   
-  const clearActiveDeck = () => { setActiveCards([]); setActiveDeckId(null); setInputText(''); setAiResponses({}); };
+  const clearActiveDeck = () => { setActiveCards([]); setActiveDeckId(null); setInputText(''); setAiResponses({}); setParseReport(null); };
   
+  // Queues writes all together and applies them locally the same way unsynced writes are overlaid after a fetch.
+  const commitWrites = async (writes: PendingWrite[]) => {
+    if (!user) return;
+    await queueWrites(user.uid, writes);
+    setDecks(prevDecks => writes.reduce(applyPendingWrite, prevDecks));
+  };
+
+  const restoreDeck = async (deck: Deck) => {
+    try {
+      await commitWrites([{ kind: 'updateDeck', deckId: deck.id, changes: { deletedAt: null } }]);
+      setNotification({ message: t('notify.restored', { title: deck.title }), type: 'success' });
+    } catch (err) {
+      console.error("恢复失败:", err);
+      setNotification({ message: t('notify.restoreFailed'), type: 'error' });
+    }
+  };
+
+  // Deleting moves the deck to the trash, so there is no confirmation; the toast offers an undo instead.
+  // A shared deck is unpublished first and stays put if that fails, so a trashed deck never has a live link.
+  // The toast says the link is gone: restoring the deck does not bring it back.
   const handleDeleteDeck = async (deckId: string, deckTitle: string, e: React.MouseEvent) => {
     e.stopPropagation(); 
-    if (window.confirm(`您确定要永久删除卡组 "${deckTitle}" 吗？此操作无法撤销。`)) {
+    const deck = decks.find(d => d.id === deckId);
+    if (!user || !deck) return;
+    if (deck.shareId) {
+      if (!isOnline()) { setNotification({ message: t('notify.trashSharedOffline'), type: 'error' }); return; }
       try {
-        await deleteDoc(doc(db, "decks", deckId));
-        setDecks(prevDecks => prevDecks.filter(deck => deck.id !== deckId));
-        if (activeDeckId === deckId) clearActiveDeck();
-        setNotification({ message: '卡组已删除', type: 'success' });
+        await unpublishDeck(deck);
       } catch (err) {
-        console.error("删除失败: ", err);
-        setNotification({ message: "删除失败，请重试。", type: 'error' });
+        console.error("取消分享失败:", err);
+        setNotification({ message: t('notify.trashUnpublishFailed'), type: 'error' });
+        return;
       }
+      setDecks(prevDecks => prevDecks.map(d => d.id === deckId ? { ...d, shareId: undefined } : d));
+    }
+    try {
+      await commitWrites([{ kind: 'updateDeck', deckId, changes: { deletedAt: Date.now() } }]);
+      if (activeDeckId === deckId) clearActiveDeck();
+      setNotification({ message: t(deck.shareId ? 'notify.trashedShared' : 'notify.trashed', { title: deckTitle }), type: 'success', action: { label: t('common.undo'), onClick: () => restoreDeck(deck) } });
+    } catch (err) {
+      console.error("删除失败: ", err);
+      setNotification({ message: t('notify.deleteFailed'), type: 'error' });
     }
   };
 
-  const openEditModal = (deck: Deck, e: React.MouseEvent) => { e.stopPropagation(); setEditingDeck(JSON.parse(JSON.stringify(deck))); setIsEditModalOpen(true); };
-  const closeEditModal = () => { setIsEditModalOpen(false); setEditingDeck(null); };
-  const handleEditingDeckChange = (field: string, value: string, cardIndex?: number) => {
-    if (!editingDeck) return;
-    if (cardIndex !== undefined) {
-        const updatedCards = [...editingDeck.cards];
-        updatedCards[cardIndex] = { ...updatedCards[cardIndex], [field]: value };
-        setEditingDeck({ ...editingDeck, cards: updatedCards });
-    } else {
-        setEditingDeck({ ...editingDeck, [field]: value });
+  const handlePurgeDecks = async (targets: Deck[]) => {
+    try {
+      await commitWrites(targets.map(deck => ({ kind: 'deleteDeck', deckId: deck.id })));
+      setNotification({ message: t('notify.purged', { count: targets.length }), type: 'success' });
+    } catch (err) {
+      console.error("永久删除失败:", err);
+      setNotification({ message: t('notify.deleteFailed'), type: 'error' });
+    }
+  };
+
+  // Publishing writes straight to Firestore, so pending edits are flushed first to share the latest cards.
+  const handlePublishDeck = async (deck: Deck) => {
+    if (!user) return;
+    if (!isOnline()) { setNotification({ message: t('notify.shareOffline'), type: 'error' }); return; }
+    setIsSharing(true);
+    try {
+      await flushQueue(user.uid);
+      const shareId = await publishDeck(deck);
+      setDecks(prevDecks => prevDecks.map(d => d.id === deck.id ? { ...d, shareId } : d));
+      setNotification({ message: deck.shareId ? t('notify.shareUpdated') : t('notify.sharePublished'), type: 'success' });
+    } catch (err) {
+      console.error("发布分享失败:", err);
+      setNotification({ message: t('notify.publishFailed'), type: 'error' });
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  const handleUnpublishDeck = async (deck: Deck) => {
+    setIsSharing(true);
+    try {
+      await unpublishDeck(deck);
+      setDecks(prevDecks => prevDecks.map(d => d.id === deck.id ? { ...d, shareId: undefined } : d));
+      setNotification({ message: t('notify.unpublished'), type: 'success' });
+    } catch (err) {
+      console.error("取消分享失败:", err);
+      setNotification({ message: t('notify.unpublishFailed'), type: 'error' });
+    } finally {
+      setIsSharing(false);
     }
   };
-  const handleSaveChanges = async () => {
-    if (!editingDeck) return;
-    const deckRef = doc(db, "decks", editingDeck.id);
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const { id: _, ...dataToSave } = editingDeck; 
+
+  const sharingDeck = decks.find(d => d.id === sharingDeckId);
+  const printingDeck = decks.find(d => d.id === printingDeckId);
+
+  const enrichingDeck = decks.find(d => d.id === enrichingDeckId);
+
+  // Writes the accepted AI values as an ordinary deck edit, so it syncs offline and can be undone the same way.
+  const handleApplyEnrichment = async (deck: Deck, accepted: EnrichmentProposal[]) => {
+    setIsApplyingEnrichment(true);
+    const enriched = applyEnrichment(deck, accepted);
     try {
-        await updateDoc(deckRef, dataToSave);
-        setDecks(prevDecks => prevDecks.map(d => d.id === editingDeck.id ? editingDeck : d));
-        if(activeDeckId === editingDeck.id) setActiveCards(editingDeck.cards);
-        setNotification({ message: "卡组已成功更新！", type: 'success' });
+      await commitWrites(deckEditWrites(deck, enriched));
+      setNotification({ message: t('notify.enriched', { count: accepted.length }), type: 'success', action: { label: t('common.undo'), onClick: () => undoDeckEdit([enriched], [deck]) } });
+      setEnrichingDeckId(null);
+    } catch (err) {
+      console.error("保存补全内容失败:", err);
+      setNotification({ message: t('notify.updateFailed'), type: 'error' });
+    } finally {
+      setIsApplyingEnrichment(false);
+    }
+  };
+
+  const editingDeck = decks.find(d => d.id === editingDeckId);
+  const openEditModal = (deck: Deck, e: React.MouseEvent) => { e.stopPropagation(); openWithCards([deck.id], () => setEditingDeckId(deck.id)); };
+  const closeEditModal = () => setEditingDeckId(null);
+  // changed holds the edited deck first, then any deck that received moved cards or lost a merged duplicate.
+  const handleSaveChanges = async (changed: Deck[]) => {
+    const originals = changed.map(deck => decks.find(d => d.id === deck.id));
+    try {
+        await commitWrites(changed.flatMap((deck, i) => deckEditWrites(originals[i], deck)));
+        setNotification({ message: changed.length > 1 ? t('notify.decksUpdated', { count: changed.length }) : t('notify.deckUpdated'), type: 'success', action: { label: t('common.undo'), onClick: () => undoDeckEdit(changed, originals) } });
         closeEditModal();
     } catch (err) {
         console.error("更新失败:", err);
-        setNotification({ message: "更新失败，请重试。", type: 'error' });
+        setNotification({ message: t('notify.updateFailed'), type: 'error' });
     }
   };
 
-  const getDueCards = useCallback((deck: Deck) => {
-    const now = new Date();
-    if(!deck.cards) return [];
-    return deck.cards.filter(card => card.dueDate && card.dueDate.toDate() <= now);
-  }, []);
+  // Writes the pre-edit version back; reviews made since then are kept because only the edited fields are rewritten.
+  const undoDeckEdit = async (changed: Deck[], originals: (Deck | undefined)[]) => {
+    try {
+      await commitWrites(changed.flatMap((deck, i) => originals[i] ? deckEditWrites(deck, originals[i]) : []));
+      setNotification({ message: t('notify.editUndone'), type: 'success' });
+    } catch (err) {
+      console.error("撤销失败:", err);
+      setNotification({ message: t('notify.undoFailed'), type: 'error' });
+    }
+  };
 
-  const startReviewSession = (deck: Deck, e: React.MouseEvent) => {
-    e.stopPropagation();
-    const dueCards = getDueCards(deck);
-    if (dueCards.length === 0) { setNotification({ message: "太棒了！这个卡组今天没有需要复习的卡片。", type: 'success' }); return; }
-    const shuffledQueue = dueCards.sort(() => Math.random() - 0.5);
-    setReviewSession({ deck, queue: shuffledQueue, currentIndex: 0, isFlipped: false });
+  const updateStudySettings = (settings: StudySettings) => {
+    setStudySettings(settings);
+    if (user) saveStudySettings(user.uid, settings);
   };
 
-  const handleReviewAnswer = async (answer: 'again' | 'good' | 'easy') => {
-    if (!reviewSession) return;
-    const { deck, queue, currentIndex } = reviewSession;
-    const cardToUpdate = queue[currentIndex];
-    let newSrsLevel = cardToUpdate.srsLevel || 0;
-    switch (answer) {
-      case 'again': newSrsLevel = 0; break;
-      case 'good': newSrsLevel++; break;
-      case 'easy': newSrsLevel += 2; break;
+  const updateProfile = async (changes: Partial<UserProfile>) => {
+    if (!user) return;
+    const next = { ...profile, ...changes };
+    setProfile(next);
+    try {
+      cacheProfile(user.uid, next);
+      await queueWrite(user.uid, { kind: 'updateProfile', changes });
+    } catch (err) {
+      console.error("保存个人设置失败:", err);
+      setNotification({ message: t('notify.profileSaveFailed'), type: 'error' });
     }
-    const intervalDays = SRS_INTERVALS_DAYS[Math.min(newSrsLevel, SRS_INTERVALS_DAYS.length - 1)];
-    const newDueDate = new Date();
-    if (answer === 'again') newDueDate.setMinutes(newDueDate.getMinutes() + 10);
-    else newDueDate.setDate(newDueDate.getDate() + intervalDays);
-    const updatedCard = { ...cardToUpdate, srsLevel: newSrsLevel, dueDate: Timestamp.fromDate(newDueDate) };
-    const updatedCards = deck.cards.map(c => c.id === updatedCard.id ? updatedCard : c);
-    const updatedDeck = { ...deck, cards: updatedCards };
-    await updateDoc(doc(db, "decks", deck.id), { cards: updatedCards });
-    setDecks(prevDecks => prevDecks.map(d => d.id === updatedDeck.id ? updatedDeck : d));
-    if (currentIndex + 1 < queue.length) {
-      setReviewSession(prev => prev ? { ...prev, currentIndex: prev.currentIndex + 1, isFlipped: false } : null);
+  };
+
+  const changeReminders = async (enabled: boolean) => {
+    if (enabled && !(await requestReminderPermission())) { setNotification({ message: t('notify.remindersBlocked'), type: 'error' }); return; }
+    updateProfile({ reminders: enabled });
+  };
+
+  const selectAiProvider = (provider: AiProvider) => {
+    setAiProvider(provider);
+    updateProfile({ aiProvider: provider });
+  };
+
+  // Today's reviews and the streak, both from the review log.
+  const goalStats = useMemo(() => ({ reviewed: reviewsToday(reviewLog, new Date()), streak: reviewStreak(reviewLog, new Date()) }), [reviewLog]);
+
+  const dailyCounts = useMemo(() => {
+    const deckIds = studySettings.reviewDeckIds ?? undefined;
+    const counts = queueCounts(buildDailyQueue(decks, { deckIds, limits: studySettings.limits, reviewLog }));
+    // Decks whose cards are not loaded yet only know how many cards are due, not in which state.
+    return { ...counts, review: counts.review + summaryDueCount(decks, deckIds) };
+  }, [decks, studySettings, reviewLog]);
+
+  // Distractors for multiple-choice reviews come from every card the user owns.
+  const meaningPool = useMemo(() => decks.flatMap(deck => deck.cards.map(card => card.meaning)), [decks]);
+
+  // Without deckIds the session covers the decks chosen for 今日复习.
+  const beginReview = (queue: ReviewQueue) => {
+    const { item, queue: rest } = takeNext(queue);
+    if (!item) { setNotification({ message: t('notify.nothingDue'), type: 'success' }); return; }
+    setFinishedReview(null);
+    setReviewSession({ queue: rest, current: item, reviewed: 0, isFlipped: false, shownAt: Date.now(), log: [] });
+  };
+
+  // Quitting early still shows the summary for the cards answered so far.
+  const endReviewSession = () => {
+    if (reviewSession && reviewSession.log.length > 0) setFinishedReview({ log: reviewSession.log, lastStep: reviewSession.previous });
+    setReviewSession(null);
+  };
+
+  const sessionSummary = useMemo(() => finishedReview ? summarizeSession(finishedReview.log, decks, new Date()) : null, [finishedReview, decks]);
+  const deckTitles = useMemo(() => Object.fromEntries(decks.map(deck => [deck.id, deck.title])), [decks]);
+
+  const redrillForgotten = () => {
+    if (!sessionSummary) return;
+    beginReview(buildQueueFromCards(sessionSummary.againCards));
+  };
+
+  // Only decks with cards due need their cards loaded.
+  const startReviewSession = async (deckIds?: string[]) => {
+    const ids = deckIds ?? studySettings.reviewDeckIds ?? undefined;
+    const current = await ensureCards(decks.filter(deck => (deck.summary?.dueCount ?? 0) > 0 && (!ids || ids.includes(deck.id))).map(deck => deck.id));
+    if (current) beginReview(buildDailyQueue(current, { deckIds: ids, limits: studySettings.limits, reviewLog }));
+  };
+
+  const reviewMatches = (matches: CardMatch[]) => beginReview(buildQueueFromCards(matches.map(({ deck, card }) => ({ deckId: deck.id, card }))));
+
+  const saveFilteredDeck = (name: string) => {
+    updateStudySettings({ ...studySettings, filteredDecks: [...studySettings.filteredDecks, { id: crypto.randomUUID(), name, filter: cardFilter }] });
+    setNotification({ message: t('notify.filterSaved', { name }), type: 'success' });
+  };
+
+  const deleteFilteredDeck = (id: string) => updateStudySettings({ ...studySettings, filteredDecks: studySettings.filteredDecks.filter(deck => deck.id !== id) });
+
+  const handleReviewAnswer = async (answer: ReviewAnswer) => {
+    if (!reviewSession || !user) return;
+    const { current, shownAt } = reviewSession;
+    const deck = decks.find(d => d.id === current.deckId);
+    const now = new Date();
+    const previousCard = current.card;
+    const reviewedCard = applyReview(previousCard, answer, deck?.scheduler, now);
+    const updatedCard = answer === 'again' ? tagIfLeech(reviewedCard, studySettings.leechThreshold) : reviewedCard;
+    const logId = newDocId("reviewLogs");
+    const step: ReviewStep = { session: reviewSession, logId };
+    const entry: ReviewLogEntry = { id: logId, ownerId: user.uid, cardId: updatedCard.id, deckId: current.deckId, answer, prevInterval: previousCard.srs.interval, newInterval: updatedCard.srs.interval, reviewedAt: Timestamp.fromDate(now), timeSpentMs: now.getTime() - shownAt, cardState: current.state };
+    const log = [...reviewSession.log, entry];
+    setDecks(prevDecks => prevDecks.map(d => d.id === current.deckId ? { ...d, cards: d.cards.map(c => c.id === updatedCard.id ? updatedCard : c) } : d));
+    // Cards answered 忘记了 come back once their relearning step is due.
+    let queue = reviewSession.queue;
+    if (answer === 'again') queue = requeueForRelearning(queue, { deckId: current.deckId, card: updatedCard, state: 'learning' }, updatedCard.dueDate.toMillis());
+    const { item: next, queue: rest } = takeNext(queue, now);
+    if (next) {
+      setReviewSession({ queue: rest, current: next, reviewed: reviewSession.reviewed + 1, isFlipped: false, shownAt: Date.now(), log, previous: step });
     } else {
       setReviewSession(null);
-      setNotification({ message: "恭喜！已完成本次复习！", type: 'success' });
+      setFinishedReview({ log, lastStep: step });
+    }
+    setReviewLog(prev => [...prev, entry]);
+    try {
+      await queueWrite(user.uid, { kind: 'reviewCard', deckId: current.deckId, card: toStoredCard(updatedCard) });
+      // A review write only carries scheduling, so a new leech tag goes out separately.
+      if (updatedCard !== reviewedCard) await queueWrite(user.uid, { kind: 'updateCard', deckId: current.deckId, cardId: updatedCard.id, changes: { tags: updatedCard.tags } });
+      await queueWrite(user.uid, { kind: 'reviewLog', entry: toStoredReviewLog(entry) });
+    } catch (err) {
+      console.error("保存复习结果失败:", err);
+      setNotification({ message: t('notify.reviewSaveFailed'), type: 'error' });
     }
   };
-  
+
+  // Burying or suspending skips the current card without grading it; like an answer, it can be undone with U.
+  const setAsideCard = async (changes: StoredCardChanges) => {
+    if (!reviewSession) return;
+    const { current } = reviewSession;
+    const step: ReviewStep = { session: reviewSession, logId: null };
+    const { item: next, queue: rest } = takeNext(reviewSession.queue);
+    if (next) {
+      setReviewSession({ ...reviewSession, queue: rest, current: next, isFlipped: false, shownAt: Date.now(), previous: step });
+    } else {
+      setReviewSession(null);
+      if (reviewSession.log.length > 0) setFinishedReview({ log: reviewSession.log, lastStep: step });
+    }
+    try {
+      await commitWrites([{ kind: 'updateCard', deckId: current.deckId, cardId: current.card.id, changes }]);
+    } catch (err) {
+      console.error("更新卡片失败:", err);
+      setNotification({ message: t('notify.cardUpdateFailed'), type: 'error' });
+    }
+  };
+
+  // Puts the card's previous state back and shows it again. An answer also loses its log entry and any
+  // leech tag it added; a bury or suspend only has its flag cleared.
+  const undoReviewAnswer = async (step: ReviewStep) => {
+    const { session, logId } = step;
+    const { deckId, card } = session.current;
+    const latest = decks.find(d => d.id === deckId)?.cards.find(c => c.id === card.id);
+    setFinishedReview(null);
+    setReviewSession({ ...session, isFlipped: false, shownAt: Date.now() });
+    if (logId) setReviewLog(prev => prev.filter(entry => entry.id !== logId));
+    const writes: PendingWrite[] = logId ? [{ kind: 'undoReview', deckId, card: toStoredCard(card), logId }] : [];
+    if (latest && (!!latest.suspended !== !!card.suspended || latest.buriedUntil !== card.buriedUntil || isLeech(latest) !== isLeech(card))) {
+      writes.push({ kind: 'updateCard', deckId, cardId: card.id, changes: cardFlags(card) });
+    }
+    try {
+      await commitWrites(writes);
+    } catch (err) {
+      console.error("撤销复习失败:", err);
+      setNotification({ message: t('notify.reviewUndoFailed'), type: 'error' });
+    }
+  };
+
+  // Suspending and untagging from the leeches view; the toast's undo writes the card's earlier flags back.
+  const changeCardFlags = async (deckId: string, card: Card, changes: StoredCardChanges, message: string) => {
+    const restore = () => commitWrites([{ kind: 'updateCard', deckId, cardId: card.id, changes: cardFlags(card) }]).catch(err => {
+      console.error("撤销失败:", err);
+      setNotification({ message: t('notify.undoFailed'), type: 'error' });
+    });
+    try {
+      await commitWrites([{ kind: 'updateCard', deckId, cardId: card.id, changes }]);
+      setNotification({ message, type: 'success', action: { label: t('common.undo'), onClick: restore } });
+    } catch (err) {
+      console.error("更新卡片失败:", err);
+      setNotification({ message: t('notify.cardUpdateFailed'), type: 'error' });
+    }
+  };
+
+  const toggleSuspended = (deckId: string, card: Card) =>
+    changeCardFlags(deckId, card, { suspended: !card.suspended }, t(card.suspended ? 'notify.unsuspended' : 'notify.suspended', { term: card.term }));
+
+  const untagLeech = (deckId: string, card: Card) =>
+    changeCardFlags(deckId, card, { tags: (card.tags ?? []).filter(tag => tag.toLowerCase() !== LEECH_TAG) }, t('notify.untagged', { term: card.term }));
+
+  const getLeechHelp = async (card: Card, kind: LeechHelpKind) => {
+    setLeechHelp(prev => ({...prev, [card.id]: { loading: true, response: '' }}));
+    try {
+      const text = await streamAi(aiProvider, { type: 'leech-help', payload: { term: card.term, meaning: card.meaning, example: card.example, kind, locale } },
+        partial => setLeechHelp(prev => ({...prev, [card.id]: { loading: true, response: partial }})));
+      setLeechHelp(prev => ({...prev, [card.id]: { loading: false, response: text }}));
+    } catch (err: unknown) {
+      console.error("AI 难记卡片辅助失败:", err);
+      setLeechHelp(prev => ({...prev, [card.id]: { loading: false, response: t('notify.aiHelpFailed', { error: aiErrorMessage(err, t) }) }}));
+    }
+  };
+
   const getAiHelp = async (card: Card) => {
+    if (!aiProvider) { setAiResponses(prev => ({...prev, [card.id]: { loading: false, response: t('notify.aiHelpFailed', { error: t('notify.noAiProvider') }) }})); return; }
     setAiResponses(prev => ({...prev, [card.id]: { loading: true, response: ''}}));
     try {
-      const prompt = `For the English term "${card.term}" which means "${card.meaning}", provide 3 diverse and natural example sentences.`;
-      let text = '';
-      if (aiProvider === 'gemini' && geminiModel) {
-        const result = await geminiModel.generateContent(prompt);
-        text = await result.response.text();
-      } else if (aiProvider === 'deepseek' && deepseekApiKey) {
-        const response = await fetch('https://api.deepseek.com/chat/completions', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${deepseekApiKey}` },
-          body: JSON.stringify({ model: "deepseek-chat", messages: [{ role: "user", content: prompt }], stream: false })
-        });
-        if (!response.ok) throw new Error(`DeepSeek API error: ${response.statusText}`);
-        const data = await response.json();
-        text = data.choices[0].message.content;
-      } else {
-        throw new Error("Selected AI provider is not configured. Please check your .env.local file.");
-      }
+      const text = await streamAi(aiProvider, { type: 'examples', payload: { term: card.term, meaning: card.meaning, locale } },
+        partial => setAiResponses(prev => ({...prev, [card.id]: { loading: true, response: partial }})));
       setAiResponses(prev => ({...prev, [card.id]: { loading: false, response: text }}));
     } catch(err: unknown) { // FIX: Use 'unknown' instead of 'any'
-      const errorMessage = err instanceof Error ? err.message : "An unknown error occurred.";
       console.error("AI Assistant Error:", err);
-      setAiResponses(prev => ({...prev, [card.id]: { loading: false, response: `AI 助教暂时无法连接: ${errorMessage}` }}));
+      setAiResponses(prev => ({...prev, [card.id]: { loading: false, response: t('notify.aiHelpFailed', { error: aiErrorMessage(err, t) }) }}));
     }
   };
 
@@ -368,106 +782,109 @@ export default function HomePage() {
   }
   
   if (!user) {
-    return <AuthForm onAuthSuccess={() => {}} />;
+    return <AuthForm />;
   }
 
+  if (!isVerified) {
+    return <VerifyEmailGate user={user} onVerified={() => setIsVerified(true)} onSignOut={handleSignOut} />;
+  }
+
+  const reviewDeck = reviewSession ? decks.find(d => d.id === reviewSession.current.deckId) : undefined;
+
   const AiProviderToggle = () => (
     <div className="flex items-center gap-2 rounded-full bg-slate-200 dark:bg-slate-700 p-1">
-      <button onClick={() => setAiProvider('gemini')} disabled={!geminiApiKey} className={`px-3 py-1 text-sm rounded-full transition-colors ${aiProvider === 'gemini' ? 'bg-white dark:bg-slate-900 shadow' : 'opacity-70'} disabled:opacity-30 disabled:cursor-not-allowed`}>Gemini</button>
-      <button onClick={() => setAiProvider('deepseek')} disabled={!deepseekApiKey} className={`px-3 py-1 text-sm rounded-full transition-colors ${aiProvider === 'deepseek' ? 'bg-white dark:bg-slate-900 shadow' : 'opacity-70'} disabled:opacity-30 disabled:cursor-not-allowed`}>DeepSeek</button>
+      {aiProviders.length === 0 ? <span className="px-3 py-1 text-sm opacity-50">{t('app.aiNotConfigured')}</span> : aiProviders.map(provider => (
+        <button key={provider.id} onClick={() => selectAiProvider(provider.id)} className={`px-3 py-1 text-sm rounded-full transition-colors ${aiProvider === provider.id ? 'bg-white dark:bg-slate-900 shadow' : 'opacity-70'}`}>{provider.label}</button>
+      ))}
     </div>
   );
 
   return (
     <div className={theme}>
       {reviewSession && (
-        <div className="fixed inset-0 bg-slate-900 z-50 flex flex-col items-center justify-center p-4">
-          <div className="text-white absolute top-5 left-5 text-sm">复习中: {reviewSession.deck.title}</div>
-          <div className="text-white absolute top-5 right-5 text-sm">进度: {reviewSession.currentIndex + 1} / {reviewSession.queue.length}</div>
-          <div className="w-full max-w-2xl h-96 perspective-1000" onClick={() => setReviewSession(prev => prev ? {...prev, isFlipped: true} : null)}>
-            <div className={`w-full h-full relative transform-style-3d transition-transform duration-700 ${reviewSession.isFlipped ? 'rotate-y-180' : ''}`}>
-              <div className="absolute w-full h-full backface-hidden bg-white dark:bg-slate-800 rounded-2xl flex justify-center items-center p-8"><h3 className="text-4xl font-bold text-center">{reviewSession.queue[reviewSession.currentIndex].term}</h3></div>
-              <div className="absolute w-full h-full backface-hidden bg-slate-100 dark:bg-slate-700 rounded-2xl p-6 overflow-y-auto transform rotate-y-180 text-sm">
-                <div className="space-y-3">
-                  <p><strong className="font-semibold">释义:</strong> {reviewSession.queue[reviewSession.currentIndex].meaning}</p>
-                  {reviewSession.queue[reviewSession.currentIndex].example && <p className="bg-slate-200 dark:bg-slate-600 p-2 rounded"><strong className="font-semibold">例句:</strong> <em className="italic">{reviewSession.queue[reviewSession.currentIndex].example}</em></p>}
-                  {reviewSession.queue[reviewSession.currentIndex].context && <p><strong className="font-semibold">用法:</strong> {reviewSession.queue[reviewSession.currentIndex].context}</p>}
-                  {reviewSession.queue[reviewSession.currentIndex].translation && <p><strong className="font-semibold">翻译:</strong> {reviewSession.queue[reviewSession.currentIndex].translation}</p>}
-                </div>
-              </div>
-            </div>
-          </div>
-          {reviewSession.isFlipped && (
-            <div className="mt-8 grid grid-cols-3 gap-4 w-full max-w-2xl animate-fade-in">
-              <button onClick={() => handleReviewAnswer('again')} className="p-4 rounded-lg bg-red-500 text-white font-semibold hover:bg-red-600 transition-colors">忘记了<br/><span className="text-xs font-normal">(10分钟后)</span></button>
-              <button onClick={() => handleReviewAnswer('good')} className="p-4 rounded-lg bg-blue-500 text-white font-semibold hover:bg-blue-600 transition-colors">还行<br/><span className="text-xs font-normal">(下次: {SRS_INTERVALS_DAYS[Math.min((reviewSession.queue[reviewSession.currentIndex].srsLevel || 0) + 1, SRS_INTERVALS_DAYS.length - 1)]}天后)</span></button>
-              <button onClick={() => handleReviewAnswer('easy')} className="p-4 rounded-lg bg-green-500 text-white font-semibold hover:bg-green-600 transition-colors">太简单<br/><span className="text-xs font-normal">(下次: {SRS_INTERVALS_DAYS[Math.min((reviewSession.queue[reviewSession.currentIndex].srsLevel || 0) + 2, SRS_INTERVALS_DAYS.length - 1)]}天后)</span></button>
-            </div>
-          )}
-          <button onClick={() => setReviewSession(null)} className="absolute bottom-5 text-slate-400 hover:text-white transition-colors">结束复习</button>
-        </div>
+        <ReviewOverlay
+          key={`${reviewSession.current.card.id}-${reviewSession.reviewed}`}
+          card={reviewSession.current.card}
+          deckTitle={reviewDeck?.title ?? ''}
+          scheduler={reviewDeck?.scheduler}
+          mode={studySettings.studyMode}
+          meaningPool={meaningPool}
+          position={reviewSession.reviewed + 1}
+          total={reviewSession.reviewed + 1 + queueSize(reviewSession.queue)}
+          isFlipped={reviewSession.isFlipped}
+          onFlip={() => setReviewSession(prev => prev ? {...prev, isFlipped: true} : null)}
+          onAnswer={handleReviewAnswer}
+          onUndo={reviewSession.previous ? () => undoReviewAnswer(reviewSession.previous!) : undefined}
+          onBury={() => setAsideCard({ buriedUntil: tomorrow() })}
+          onSuspend={() => setAsideCard({ suspended: true })}
+          onClose={endReviewSession}
+        />
       )}
-
-      <main className={`min-h-screen flex flex-col items-center p-4 sm:p-8 bg-slate-50 dark:bg-slate-900 text-slate-800 dark:text-slate-200 transition-colors duration-300 ${reviewSession ? 'blur-sm' : ''}`}>
-        {notification && ( <div className={`fixed top-5 right-5 z-50 p-4 rounded-lg shadow-lg text-white ${notification.type === 'success' ? 'bg-green-500' : 'bg-red-500'} animate-fade-in-down`}>{notification.message}</div> )}
+      {sessionSummary && finishedReview && (
+        <ReviewSummary
+          summary={sessionSummary}
+          deckTitles={deckTitles}
+          onRedrill={redrillForgotten}
+          onUndo={finishedReview.lastStep ? () => undoReviewAnswer(finishedReview.lastStep!) : undefined}
+          onClose={() => setFinishedReview(null)}
+        />
+      )}
+      <main className={`min-h-screen flex flex-col items-center p-4 sm:p-8 bg-slate-50 dark:bg-slate-900 text-slate-800 dark:text-slate-200 transition-colors duration-300 ${reviewSession || finishedReview ? 'blur-sm' : ''}`}>
+        {notification && ( <div className={`fixed top-5 right-5 z-50 p-4 rounded-lg shadow-lg text-white ${notification.type === 'success' ? 'bg-green-500' : 'bg-red-500'} animate-fade-in-down flex items-center gap-4`}>{notification.message}{notification.action && <button onClick={() => { notification.action?.onClick(); setNotification(null); }} className="px-2 py-0.5 rounded bg-white/20 hover:bg-white/30 font-semibold text-sm">{notification.action.label}</button>}</div> )}
         <div id="app-container" className="w-full max-w-5xl">
           <header className="flex flex-wrap justify-between items-center mb-8 gap-4">
-            <h1 className="text-3xl sm:text-4xl font-bold text-slate-900 dark:text-white flex items-center gap-3"><BrainCircuit size={36} className="text-blue-500"/>智能术语卡片</h1>
+            <h1 className="text-3xl sm:text-4xl font-bold text-slate-900 dark:text-white flex items-center gap-3"><BrainCircuit size={36} className="text-blue-500"/>{t('app.title')}</h1>
             <div className="flex items-center gap-4">
-              <span className="text-sm text-slate-600 dark:text-slate-400 hidden sm:inline">欢迎, {user.email}</span>
+              <span className="text-sm text-slate-600 dark:text-slate-400 hidden sm:inline">{t('app.welcome', { email: user.email ?? '' })}</span>
+              <SyncIndicator />
+              <GoalProgress reviewed={goalStats.reviewed} goal={profile.dailyGoal} streak={goalStats.streak} reminders={profile.reminders} onGoalChange={dailyGoal => updateProfile({ dailyGoal })} onRemindersChange={changeReminders} />
+              <LanguageSwitcher onChange={next => updateStudySettings({ ...studySettings, locale: next })} />
               <AiProviderToggle />
-              <button onClick={() => setTheme(prev => (prev === 'light' ? 'dark' : 'light'))} className="p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors" title="切换主题">{theme === 'light' ? <Moon size={24} /> : <Sun size={24} />}</button>
-              <button onClick={handleSignOut} className="p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 text-red-500" title="退出登录"><LogOut size={24} /></button>
+              <button onClick={() => updateProfile({ theme: theme === 'light' ? 'dark' : 'light' })} className="p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors" title={t('app.toggleTheme')}>{theme === 'light' ? <Moon size={24} /> : <Sun size={24} />}</button>
+              <Link href="/account" className="p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors" title={t('app.account')} aria-label={t('app.account')}><UserCog size={24} /></Link>
+              <button onClick={handleSignOut} className="p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 text-red-500" title={t('app.signOut')}><LogOut size={24} /></button>
             </div>
           </header>
 
           <section className="mb-12">
-             <h2 className="text-3xl font-bold mb-6 flex items-center gap-2"><BarChart2/> 学习总览</h2>
-             <div className="bg-white dark:bg-slate-800 p-6 rounded-2xl shadow-lg h-80">
-                <ResponsiveContainer width="100%" height="100%">
-                    <BarChart data={learningStats} margin={{ top: 5, right: 20, left: -10, bottom: 5 }}>
-                        <XAxis dataKey="name" stroke={theme === 'dark' ? '#94a3b8' : '#64748b'} fontSize={12} />
-                        <YAxis stroke={theme === 'dark' ? '#94a3b8' : '#64748b'} fontSize={12} allowDecimals={false} />
-                        <Tooltip cursor={{fill: 'rgba(100, 116, 139, 0.1)'}} contentStyle={{backgroundColor: theme === 'dark' ? '#1e293b' : 'white', borderRadius: '0.5rem', border: '1px solid #334155'}}/>
-                        <Bar dataKey="count">
-                            {learningStats.map((entry, index) => (
-                            <Cell key={`cell-${index}`} fill={STATS_COLORS[index % STATS_COLORS.length]} />
-                            ))}
-                        </Bar>
-                    </BarChart>
-                </ResponsiveContainer>
-             </div>
+             <h2 className="text-3xl font-bold mb-6 flex items-center gap-2"><BarChart2/> {t('app.dashboard')}</h2>
+             <LearningDashboard decks={decks} reviewLog={reviewLog} theme={theme} />
           </section>
           
           <section id="input-section" className="bg-white dark:bg-slate-800 p-6 rounded-2xl shadow-lg mb-12">
-            <textarea value={inputText} onChange={(e) => setInputText(e.target.value)} placeholder="在此粘贴您的学习笔记全文，包括“标题：”和“重要俚语/习惯用语/短语”..." className="w-full h-60 p-4 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 bg-slate-50 dark:bg-slate-700 transition-all"/>
+            <textarea value={inputText} onChange={(e) => setInputText(e.target.value)} placeholder={t('input.placeholder')} className="w-full h-60 p-4 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 bg-slate-50 dark:bg-slate-700 transition-all"/>
             <div className="flex flex-col sm:flex-row gap-2 mt-4">
-              <button onClick={handleParseText} disabled={isParsing} className="flex-1 bg-blue-600 text-white font-semibold py-3 px-4 rounded-lg hover:bg-blue-700 disabled:bg-slate-400 transition-colors flex justify-center items-center">{isParsing ? <LoaderCircle className="animate-spin" /> : '1. 生成预览卡片'}</button>
-              <button onClick={handleSaveDeck} disabled={isSaving || activeCards.length === 0} className="flex-1 bg-green-600 text-white font-semibold py-3 px-4 rounded-lg hover:bg-green-700 disabled:bg-slate-400 transition-colors flex justify-center items-center gap-2">{isSaving ? <LoaderCircle className="animate-spin" /> : <Save />}2. 保存到云端</button>
+              <select value={parseFormat} onChange={(e) => setParseFormat(e.target.value as ParseFormat | 'auto')} className="sm:w-56 p-3 border border-slate-300 dark:border-slate-600 rounded-lg bg-slate-50 dark:bg-slate-700 text-sm" title={t('input.format')}><option value="auto">{t('parser.auto')}</option>{NOTE_PARSERS.map(p => <option key={p.id} value={p.id}>{t(`parser.${p.id}`)}</option>)}</select>
+              <button onClick={handleParseText} disabled={isParsing} className="flex-1 bg-blue-600 text-white font-semibold py-3 px-4 rounded-lg hover:bg-blue-700 disabled:bg-slate-400 transition-colors flex justify-center items-center">{isParsing ? <LoaderCircle className="animate-spin" /> : t('input.parse')}</button>
+              <button onClick={handleGenerateFromText} disabled={!!generationProgress} className="flex-1 bg-purple-600 text-white font-semibold py-3 px-4 rounded-lg hover:bg-purple-700 disabled:bg-slate-400 transition-colors flex justify-center items-center gap-2" title={t('input.generateHint')}>{generationProgress ? <><LoaderCircle className="animate-spin" />{generationProgress.total > 1 ? `${generationProgress.done}/${generationProgress.total}` : ''}</> : <Wand2 />}{t('input.generate')}</button>
+              <button onClick={handleSaveDeck} disabled={isSaving || activeCards.length === 0} className="flex-1 bg-green-600 text-white font-semibold py-3 px-4 rounded-lg hover:bg-green-700 disabled:bg-slate-400 transition-colors flex justify-center items-center gap-2">{isSaving ? <LoaderCircle className="animate-spin" /> : <Save />}{t('input.save')}</button>
             </div>
+            <ParserAliasEditor aliases={studySettings.parserAliases} builtIn={LOCALE_PARSER_LABELS[locale]} onChange={parserAliases => updateStudySettings({ ...studySettings, parserAliases })} />
+            {parseReport && activeCards.length === 0 && <div className="mt-4"><ParseReport format={parseReport.format} cardCount={0} diagnostics={parseReport.diagnostics} /></div>}
           </section>
 
           {activeCards.length > 0 && (
             <section>
-                <div className="flex justify-between items-center mb-6"><h2 className="text-3xl font-bold flex items-center gap-2"><BotMessageSquare/> 当前卡组</h2><button onClick={clearActiveDeck} className="text-sm text-slate-500 hover:text-red-500 flex items-center gap-1 transition-colors"><X size={16}/> 清除预览</button></div>
+                <div className="flex justify-between items-center mb-6"><h2 className="text-3xl font-bold flex items-center gap-2"><BotMessageSquare/> {t('preview.title')}</h2><button onClick={clearActiveDeck} className="text-sm text-slate-500 hover:text-red-500 flex items-center gap-1 transition-colors"><X size={16}/> {t('preview.clear')}</button></div>
+                {parseReport && <ParseReport format={parseReport.format} cardCount={activeCards.length} diagnostics={parseReport.diagnostics} />}
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
                 {activeCards.map((card) => (
                     <div key={card.id} className="perspective-1000 min-h-[20rem]" onClick={() => setFlippedStates(prev => ({ ...prev, [card.id]: !prev[card.id] }))}>
                         <div className={`w-full h-full relative rounded-xl shadow-lg transform-style-3d transition-transform duration-700 cursor-pointer ${flippedStates[card.id] ? 'rotate-y-180' : ''}`}>
-                            <div className="absolute w-full h-full backface-hidden bg-white dark:bg-slate-800 border-l-4 border-blue-500 rounded-xl flex flex-col justify-center items-center p-6 text-center"><h3 className="text-2xl font-bold">{card.term}</h3><p className="text-slate-500 dark:text-slate-400 mt-4 text-sm">（点击查看详情）</p></div>
+                            <div className="absolute w-full h-full backface-hidden bg-white dark:bg-slate-800 border-l-4 border-blue-500 rounded-xl flex flex-col justify-center items-center p-6 text-center">{parseReport?.cardWarnings[card.id] && <span className="absolute top-3 right-3 flex items-center gap-1 text-xs text-amber-500" title={parseReport.cardWarnings[card.id].map(d => formatDiagnostic(d, t)).join('\n')}><AlertTriangle size={14} />{parseReport.cardWarnings[card.id].map(d => formatDiagnostic(d, t)).join(t('common.listSeparator'))}</span>}<h3 className="text-2xl font-bold">{card.term}</h3><p className="text-slate-500 dark:text-slate-400 mt-4 text-sm">{t('preview.flipHint')}</p></div>
                             <div className="absolute w-full h-full backface-hidden bg-slate-100 dark:bg-slate-700 rounded-xl p-4 flex flex-col transform rotate-y-180 text-sm">
                                <div className="space-y-2 overflow-y-auto pr-2 flex-grow">
-                                  {card.meaning && <p><strong className="font-semibold">释义:</strong> {card.meaning}</p>}
-                                  {card.example && <p className="bg-slate-200 dark:bg-slate-600 p-2 rounded"><strong className="font-semibold">例句:</strong> <em className="italic">{card.example}</em></p>}
-                                  {card.context && <p><strong className="font-semibold">用法:</strong> {card.context}</p>}
-                                  {card.translation && <p><strong className="font-semibold">翻译:</strong> {card.translation}</p>}
+                                  {card.meaning && <p><strong className="font-semibold">{t('field.meaning')}:</strong> {card.meaning}</p>}
+                                  {card.example && <p className="bg-slate-200 dark:bg-slate-600 p-2 rounded"><strong className="font-semibold">{t('field.example')}:</strong> <em className="italic">{card.example}</em></p>}
+                                  {card.context && <p><strong className="font-semibold">{t('field.context')}:</strong> {card.context}</p>}
+                                  {card.translation && <p><strong className="font-semibold">{t('field.translation')}:</strong> {card.translation}</p>}
                                </div>
                                <div className="mt-4 pt-3 border-t border-slate-200 dark:border-slate-600 flex-shrink-0">
                                   <button onClick={(e) => { e.stopPropagation(); getAiHelp(card); }} disabled={aiResponses[card.id]?.loading} className="w-full flex items-center justify-center gap-2 text-sm text-blue-500 hover:text-blue-400 font-semibold disabled:cursor-not-allowed disabled:opacity-50">
                                   {aiResponses[card.id]?.loading ? <LoaderCircle size={16} className="animate-spin" /> : <Sparkles size={16} />}
-                                  AI 提供更多例句
+                                  {t('preview.aiExamples')}
                                   </button>
-                                  {aiResponses[card.id] && !aiResponses[card.id]?.loading && (
+                                  {aiResponses[card.id]?.response && (
                                      <div className="mt-2 text-xs text-slate-600 dark:text-slate-300 bg-slate-200 dark:bg-slate-600/50 p-2 rounded max-h-48 overflow-y-auto">
                                         <article className="prose prose-sm dark:prose-invert max-w-none">
                                             <ReactMarkdown remarkPlugins={[remarkGfm]}>
@@ -486,13 +903,21 @@ export default function HomePage() {
           )}
 
           <section className="w-full mt-16">
-            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4"><h2 className="text-3xl font-bold border-b-2 sm:border-b-0 border-blue-500 pb-2 sm:pb-0 flex items-center gap-2 flex-shrink-0"><LayoutList /> 我的云端卡组</h2><div className="relative w-full sm:w-72"><Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={20} /><input type="text" placeholder="搜索标题或术语..." value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} className="w-full pl-10 pr-4 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 focus:ring-2 focus:ring-blue-500"/></div></div>
-            {isLoading ? (<div className="flex justify-center items-center p-8"><LoaderCircle size={32} className="animate-spin text-blue-500" /></div>) : decks.length > 0 ? (filteredDecks.length > 0 ? (<div className="space-y-3">{filteredDecks.map(deck => {const dueCardsCount = getDueCards(deck).length; return (<div key={deck.id} onClick={() => loadDeck(deck)} className={`bg-white dark:bg-slate-800 p-4 rounded-lg shadow-md hover:shadow-xl hover:scale-[1.02] cursor-pointer transition-all flex flex-col sm:flex-row justify-between sm:items-center gap-4 group ${activeDeckId === deck.id ? 'ring-2 ring-blue-500' : ''}`}><div><p className="font-semibold text-lg text-blue-600 dark:text-blue-400">{deck.title}</p><p className="text-sm text-slate-500">{deck.cards.length} 张卡片</p></div><div className="flex items-center gap-2 self-end sm:self-center"><span className="text-sm text-slate-400 hidden lg:block">{formatTimestamp(deck.createdAt)}</span><button onClick={(e) => startReviewSession(deck, e)} disabled={dueCardsCount === 0} className="flex items-center gap-2 px-3 py-2 rounded-lg bg-blue-600 text-white font-semibold hover:bg-blue-700 disabled:bg-slate-400 disabled:cursor-not-allowed transition-all text-sm"><GraduationCap size={16} />复习 ({dueCardsCount})</button><button onClick={(e) => openEditModal(deck, e)} className="p-2 rounded-full bg-slate-100 dark:bg-slate-700 text-slate-500 hover:bg-blue-500 hover:text-white transition-all opacity-0 group-hover:opacity-100" title="编辑"><Pencil size={16} /></button><button onClick={(e) => handleDeleteDeck(deck.id, deck.title, e)} className="p-2 rounded-full bg-slate-100 dark:bg-slate-700 text-slate-500 hover:bg-red-500 hover:text-white transition-all opacity-0 group-hover:opacity-100" title="删除"><Trash2 size={16} /></button></div></div>)})}</div>) : (<div className="text-center p-8 bg-slate-100 dark:bg-slate-800 rounded-lg"><p className="text-slate-500">找不到匹配的卡组。</p><p className="text-slate-400 text-sm mt-1">请尝试更换搜索关键词。</p></div>)) : (<div className="text-center p-8 bg-slate-100 dark:bg-slate-800 rounded-lg"><Inbox size={48} className="mx-auto text-slate-400 mb-4" /><p className="text-slate-500">您的云端仓库是空的。</p><p className="text-slate-400 text-sm mt-1">请先生成卡片，然后点击“保存到云端”。</p></div>)}
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4"><h2 className="text-3xl font-bold border-b-2 sm:border-b-0 border-blue-500 pb-2 sm:pb-0 flex items-center gap-2 flex-shrink-0"><LayoutList /> {t('deckList.title')}</h2><div className="flex items-center gap-2 w-full sm:w-auto"><button onClick={() => openWithCards(allDeckIds(), () => setIsImportExportOpen(true))} className="flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 text-sm font-semibold flex-shrink-0" title={t('deckList.importExport')}><ArrowDownUp size={16} />{t('deckList.importExport')}</button><button onClick={() => setIsTrashOpen(true)} className="flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 text-sm font-semibold flex-shrink-0" title={t('deckList.trash')}><Trash2 size={16} />{trashedDecks.length > 0 && trashedDecks.length}</button><button onClick={() => openWithCards(allDeckIds(), () => setIsLeechesOpen(true))} className="flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 text-sm font-semibold flex-shrink-0" title={t('deckList.leeches')}><Bug size={16} />{leeches.length > 0 && leeches.reduce((sum, group) => sum + group.cards.length, 0)}</button><div className="relative w-full sm:w-72"><Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={20} /><input type="text" placeholder={t('deckList.search')} value={cardFilter.text} onChange={(e) => changeCardFilter({ ...cardFilter, text: e.target.value })} className="w-full pl-10 pr-4 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 focus:ring-2 focus:ring-blue-500"/></div></div></div>
+            {!isLoading && decks.length > 0 && <CardSearchPanel filter={cardFilter} matches={cardMatches} filteredDecks={studySettings.filteredDecks} onFilterChange={changeCardFilter} onSaveFilter={saveFilteredDeck} onDeleteFilteredDeck={deleteFilteredDeck} onReview={reviewMatches} onReviewFilteredDeck={async deck => { const current = await ensureCards(allDeckIds()); if (current) reviewMatches(searchCards(current, deck.filter)); }} />}
+            {!isLoading && decks.length > 0 && <DailyReviewPanel decks={decks} settings={studySettings} counts={dailyCounts} onSettingsChange={updateStudySettings} onStart={() => startReviewSession()} />}
+            {isLoading ? (<div className="flex justify-center items-center p-8"><LoaderCircle size={32} className="animate-spin text-blue-500" /></div>) : decks.length > 0 ? (filteredDecks.length > 0 ? (<div className="space-y-3">{filteredDecks.map(deck => {const due = dueBreakdown(deck); const dueCardsCount = deck.summary ? deck.summary.dueCount : due.new + due.learning + due.review; return (<div key={deck.id} onClick={() => loadDeck(deck)} className={`bg-white dark:bg-slate-800 p-4 rounded-lg shadow-md hover:shadow-xl hover:scale-[1.02] cursor-pointer transition-all flex flex-col sm:flex-row justify-between sm:items-center gap-4 group ${activeDeckId === deck.id ? 'ring-2 ring-blue-500' : ''}`}><div><p className="font-semibold text-lg text-blue-600 dark:text-blue-400">{deck.title}</p><p className="text-sm text-slate-500">{deck.summary ? t('deckList.summaryCounts', { count: deck.summary.cardCount, due: deck.summary.dueCount }) : t('deckList.summary', { count: deck.cards.length, new: due.new, learning: due.learning, review: due.review })}</p>{deck.tags && deck.tags.length > 0 && <div className="flex flex-wrap gap-1 mt-1">{deck.tags.map(tag => <span key={tag} className="text-xs px-2 rounded-full bg-slate-200 dark:bg-slate-700">#{tag}</span>)}</div>}</div><div className="flex items-center gap-2 self-end sm:self-center"><span className="text-sm text-slate-400 hidden lg:block">{formatTimestamp(deck.createdAt, locale, t)}</span><button onClick={(e) => { e.stopPropagation(); startReviewSession([deck.id]); }} disabled={dueCardsCount === 0} className="flex items-center gap-2 px-3 py-2 rounded-lg bg-blue-600 text-white font-semibold hover:bg-blue-700 disabled:bg-slate-400 disabled:cursor-not-allowed transition-all text-sm"><GraduationCap size={16} />{t('deckList.review', { count: dueCardsCount })}</button><button onClick={(e) => openEditModal(deck, e)} className="p-2 rounded-full bg-slate-100 dark:bg-slate-700 text-slate-500 hover:bg-blue-500 hover:text-white transition-all opacity-0 group-hover:opacity-100" title={t('deckList.edit')}><Pencil size={16} /></button><button onClick={(e) => { e.stopPropagation(); openWithCards([deck.id], () => setSharingDeckId(deck.id)); }} className={`p-2 rounded-full bg-slate-100 dark:bg-slate-700 hover:bg-blue-500 hover:text-white transition-all ${deck.shareId ? 'text-blue-500' : 'text-slate-500 opacity-0 group-hover:opacity-100'}`} title={deck.shareId ? t('deckList.shared') : t('deckList.share')}><Share2 size={16} /></button><button onClick={(e) => { e.stopPropagation(); openWithCards([deck.id], () => setPrintingDeckId(deck.id)); }} className="p-2 rounded-full bg-slate-100 dark:bg-slate-700 text-slate-500 hover:bg-blue-500 hover:text-white transition-all opacity-0 group-hover:opacity-100" title={t('deckList.print')}><Printer size={16} /></button>{(deck.summary || findIncompleteCards(deck).length > 0) && <button onClick={(e) => { e.stopPropagation(); openWithCards([deck.id], () => setEnrichingDeckId(deck.id)); }} className="p-2 rounded-full bg-slate-100 dark:bg-slate-700 text-slate-500 hover:bg-purple-500 hover:text-white transition-all opacity-0 group-hover:opacity-100" title={t('deckList.enrich')}><WandSparkles size={16} /></button>}<button onClick={(e) => handleDeleteDeck(deck.id, deck.title, e)} className="p-2 rounded-full bg-slate-100 dark:bg-slate-700 text-slate-500 hover:bg-red-500 hover:text-white transition-all opacity-0 group-hover:opacity-100" title={t('common.delete')}><Trash2 size={16} /></button></div></div>)})}</div>) : (<div className="text-center p-8 bg-slate-100 dark:bg-slate-800 rounded-lg"><p className="text-slate-500">{t('deckList.noMatch')}</p><p className="text-slate-400 text-sm mt-1">{t('deckList.noMatchHint')}</p></div>)) : (<div className="text-center p-8 bg-slate-100 dark:bg-slate-800 rounded-lg"><Inbox size={48} className="mx-auto text-slate-400 mb-4" /><p className="text-slate-500">{t('deckList.empty')}</p><p className="text-slate-400 text-sm mt-1">{t('deckList.emptyHint')}</p></div>)}
           </section>
 
-          {isEditModalOpen && editingDeck && (
-            <div className="fixed inset-0 bg-black bg-opacity-60 z-40 flex justify-center items-center p-4" onClick={closeEditModal}><div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}><header className="p-4 border-b border-slate-200 dark:border-slate-700 flex justify-between items-center flex-shrink-0"><h2 className="text-xl font-bold">编辑卡组</h2><button onClick={closeEditModal} className="p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-600"><X /></button></header><main className="p-6 overflow-y-auto flex-grow"><div className="mb-6"><label className="block text-sm font-bold mb-2" htmlFor="deckTitle">卡组标题</label><input id="deckTitle" type="text" value={editingDeck.title} onChange={e => handleEditingDeckChange('title', e.target.value)} className="w-full p-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-slate-50 dark:bg-slate-700"/></div><h3 className="text-lg font-semibold mb-4 border-b border-slate-200 dark:border-slate-700 pb-2">卡片内容</h3><div className="space-y-6">{editingDeck.cards.map((card, index) => (<div key={card.id} className="p-4 rounded-lg bg-slate-50 dark:bg-slate-700/50 border border-slate-200 dark:border-slate-700"><div className="grid grid-cols-1 md:grid-cols-2 gap-4"><div><label className="block text-xs font-semibold mb-1">术语</label><textarea value={card.term} onChange={e => handleEditingDeckChange('term', e.target.value, index)} className="w-full p-2 text-sm border rounded bg-white dark:bg-slate-600 border-slate-300 dark:border-slate-500"/></div><div><label className="block text-xs font-semibold mb-1">释义</label><textarea value={card.meaning} onChange={e => handleEditingDeckChange('meaning', e.target.value, index)} rows={3} className="w-full p-2 text-sm border rounded bg-white dark:bg-slate-600 border-slate-300 dark:border-slate-500"/></div><div className="md:col-span-2"><label className="block text-xs font-semibold mb-1">例句</label><textarea value={card.example} onChange={e => handleEditingDeckChange('example', e.target.value, index)} rows={2} className="w-full p-2 text-sm border rounded bg-white dark:bg-slate-600 border-slate-300 dark:border-slate-500"/></div><div><label className="block text-xs font-semibold mb-1">用法</label><textarea value={card.context} onChange={e => handleEditingDeckChange('context', e.target.value, index)} rows={4} className="w-full p-2 text-sm border rounded bg-white dark:bg-slate-600 border-slate-300 dark:border-slate-500"/></div><div><label className="block text-xs font-semibold mb-1">翻译</label><textarea value={card.translation} onChange={e => handleEditingDeckChange('translation', e.target.value, index)} rows={4} className="w-full p-2 text-sm border rounded bg-white dark:bg-slate-600 border-slate-300 dark:border-slate-500"/></div></div></div>))}</div></main><footer className="p-4 border-t border-slate-200 dark:border-slate-700 flex justify-end gap-2 flex-shrink-0"><button onClick={closeEditModal} className="px-4 py-2 rounded-lg bg-slate-200 dark:bg-slate-600 hover:bg-slate-300 dark:hover:bg-slate-500">取消</button><button onClick={handleSaveChanges} className="px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700">保存更改</button></footer></div></div>
-          )}
+          {sharingDeck && <ShareDeckModal deck={sharingDeck} isBusy={isSharing} onPublish={() => handlePublishDeck(sharingDeck)} onUnpublish={() => handleUnpublishDeck(sharingDeck)} onClose={() => setSharingDeckId(null)} />}
+          {printingDeck && <PrintDeckModal deck={printingDeck} onClose={() => setPrintingDeckId(null)} />}
+          {enrichingDeck && <EnrichDeckModal deck={enrichingDeck} aiProvider={aiProvider} isSaving={isApplyingEnrichment} onApply={accepted => handleApplyEnrichment(enrichingDeck, accepted)} onClose={() => setEnrichingDeckId(null)} />}
+
+          {isImportExportOpen && <ImportExportModal decks={decks} onImport={handleImportDecks} onClose={() => setIsImportExportOpen(false)} />}
+
+          {isTrashOpen && <TrashModal decks={trashedDecks} onRestore={restoreDeck} onPurge={handlePurgeDecks} onClose={() => setIsTrashOpen(false)} />}
+          {isLeechesOpen && <LeechesModal groups={leeches} threshold={studySettings.leechThreshold} help={leechHelp} canAskAi={!!aiProvider} onToggleSuspend={toggleSuspended} onUntag={untagLeech} onAskAi={getLeechHelp} onClose={() => setIsLeechesOpen(false)} />}
+          {editingDeck && <DeckEditorModal deck={editingDeck} decks={decks} onSave={handleSaveChanges} onClose={closeEditModal} />}
         </div>
       </main>
     </div>
@@ -0,0 +1,100 @@
+// app/share/[shareId]/page.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { auth } from '../../../firebase';
+import { onAuthStateChanged, type User } from 'firebase/auth';
+import { BrainCircuit, Copy, LoaderCircle, Inbox } from 'lucide-react';
+import { fetchSharedDeck, cloneSharedDeck, type SharedDeck } from '../../../lib/sharing';
+import { toStoredDeck } from '../../../lib/localStore';
+import { queueWrite } from '../../../lib/sync';
+import { LanguageSwitcher, useI18n } from '../../../components/LocaleProvider';
+
+// Read-only view of a published deck. Works without signing in; cloning needs an account.
+const SharedDeckPage = () => {
+  const { t } = useI18n();
+  const { shareId } = useParams<{ shareId: string }>();
+  const router = useRouter();
+  const [user, setUser] = useState<User | null>(null);
+  const [deck, setDeck] = useState<SharedDeck | null>(null);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'missing' | 'error'>('loading');
+  const [isCloning, setIsCloning] = useState(false);
+  const [cloneError, setCloneError] = useState('');
+  const [flippedStates, setFlippedStates] = useState<{[key: number]: boolean}>({});
+
+  useEffect(() => onAuthStateChanged(auth, setUser), []);
+
+  useEffect(() => {
+    fetchSharedDeck(shareId)
+      .then(shared => { setDeck(shared); setStatus(shared ? 'ready' : 'missing'); })
+      .catch(err => { console.error("加载分享卡组失败:", err); setStatus('error'); });
+  }, [shareId]);
+
+  const handleClone = async () => {
+    if (!user || !deck) return;
+    setIsCloning(true);
+    setCloneError('');
+    try {
+      await queueWrite(user.uid, { kind: 'createDeck', deck: toStoredDeck(cloneSharedDeck(deck, user.uid)) });
+      router.push('/');
+    } catch (err) {
+      console.error("复制卡组失败:", err);
+      setCloneError(t('shared.cloneFailed'));
+      setIsCloning(false);
+    }
+  };
+
+  return (
+    <main className="min-h-screen flex flex-col items-center p-4 sm:p-8 bg-slate-50 dark:bg-slate-900 text-slate-800 dark:text-slate-200">
+      <div className="w-full max-w-6xl">
+        <header className="flex justify-between items-center mb-8 gap-4">
+          <Link href="/" className="flex items-center gap-2 text-xl font-bold"><BrainCircuit className="text-blue-500" />{t('app.title')}</Link>
+          <div className="flex items-center gap-4">
+            <LanguageSwitcher />
+            {deck && (user ? (
+              <button onClick={handleClone} disabled={isCloning} className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 text-white font-semibold hover:bg-blue-700 disabled:bg-slate-400 transition-all">
+                {isCloning ? <LoaderCircle size={16} className="animate-spin" /> : <Copy size={16} />}{t('shared.clone')}
+              </button>
+            ) : (
+              <Link href="/" className="text-sm text-blue-500 hover:underline">{t('shared.loginToClone')}</Link>
+            ))}
+          </div>
+        </header>
+
+        {cloneError && <p className="text-red-500 text-sm text-right mb-4" role="alert">{cloneError}</p>}
+        {status === 'loading' && <div className="flex justify-center p-8"><LoaderCircle size={32} className="animate-spin text-blue-500" /></div>}
+        {(status === 'missing' || status === 'error') && (
+          <div className="text-center p-8 bg-slate-100 dark:bg-slate-800 rounded-lg">
+            <Inbox size={48} className="mx-auto text-slate-400 mb-4" />
+            <p className="text-slate-500">{status === 'missing' ? t('shared.missing') : t('shared.error')}</p>
+          </div>
+        )}
+        {deck && (
+          <section>
+            <h1 className="text-3xl font-bold mb-2">{deck.title}</h1>
+            <p className="text-sm text-slate-500 mb-6">{t('shared.info', { count: deck.cards.length })}</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {deck.cards.map((card, index) => (
+                <div key={index} className="perspective-1000 min-h-[16rem]" onClick={() => setFlippedStates(prev => ({ ...prev, [index]: !prev[index] }))}>
+                  <div className={`w-full h-full relative rounded-xl shadow-lg transform-style-3d transition-transform duration-700 cursor-pointer ${flippedStates[index] ? 'rotate-y-180' : ''}`}>
+                    <div className="absolute w-full h-full backface-hidden bg-white dark:bg-slate-800 border-l-4 border-blue-500 rounded-xl flex flex-col justify-center items-center p-6 text-center"><h3 className="text-2xl font-bold">{card.term}</h3><p className="text-slate-500 dark:text-slate-400 mt-4 text-sm">{t('preview.flipHint')}</p></div>
+                    <div className="absolute w-full h-full backface-hidden bg-slate-100 dark:bg-slate-700 rounded-xl p-4 transform rotate-y-180 text-sm overflow-y-auto space-y-2">
+                      {card.meaning && <p><strong className="font-semibold">{t('field.meaning')}:</strong> {card.meaning}</p>}
+                      {card.example && <p className="bg-slate-200 dark:bg-slate-600 p-2 rounded"><strong className="font-semibold">{t('field.example')}:</strong> <em className="italic">{card.example}</em></p>}
+                      {card.context && <p><strong className="font-semibold">{t('field.context')}:</strong> {card.context}</p>}
+                      {card.translation && <p><strong className="font-semibold">{t('field.translation')}:</strong> {card.translation}</p>}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+      </div>
+    </main>
+  );
+};
+
+export default SharedDeckPage;
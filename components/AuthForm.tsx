@@ -0,0 +1,92 @@
+// components/AuthForm.tsx
+'use client';
+
+import { useState } from 'react';
+import { auth } from '../firebase';
+import { createUserWithEmailAndPassword, signInWithEmailAndPassword, signInWithPopup, sendPasswordResetEmail, sendEmailVerification, GoogleAuthProvider } from 'firebase/auth';
+import { LoaderCircle } from 'lucide-react';
+import { authErrorKey } from '../lib/account';
+import { LanguageSwitcher, useI18n } from './LocaleProvider';
+
+type AuthMode = 'login' | 'register' | 'reset';
+
+// Sign-in screen: email/password login and registration, password reset and Google sign-in.
+const AuthForm = () => {
+  const { t } = useI18n();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [mode, setMode] = useState<AuthMode>('login');
+  const [error, setError] = useState('');
+  const [info, setInfo] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const switchMode = (next: AuthMode) => { setMode(next); setError(''); setInfo(''); };
+
+  const runAuth = async (action: () => Promise<unknown>) => {
+    setLoading(true);
+    setError('');
+    setInfo('');
+    try {
+      await action();
+    } catch (err: unknown) {
+      console.error("认证失败:", err);
+      setError(t(authErrorKey(err)));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    runAuth(async () => {
+      if (mode === 'reset') {
+        await sendPasswordResetEmail(auth, email);
+        setInfo(t('auth.resetSent', { email }));
+      } else if (mode === 'login') {
+        await signInWithEmailAndPassword(auth, email, password);
+      } else {
+        const { user } = await createUserWithEmailAndPassword(auth, email, password);
+        await sendEmailVerification(user);
+      }
+    });
+  };
+
+  const handleGoogle = () => runAuth(() => signInWithPopup(auth, new GoogleAuthProvider()));
+
+  const title = mode === 'reset' ? t('auth.resetTitle') : mode === 'login' ? t('auth.login') : t('auth.register');
+
+  return (
+    <div className="flex justify-center items-center min-h-screen bg-slate-100 dark:bg-slate-900">
+      <div className="w-full max-w-md p-8 bg-white dark:bg-slate-800 rounded-2xl shadow-xl">
+        <div className="flex justify-end mb-2"><LanguageSwitcher /></div>
+        <h2 className="text-3xl font-bold mb-6 text-center text-slate-800 dark:text-white">{title}</h2>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} placeholder={t('auth.email')} required className="w-full p-3 border border-slate-300 dark:border-slate-600 rounded-lg bg-slate-50 dark:bg-slate-700 focus:ring-2 focus:ring-blue-500"/>
+          {mode !== 'reset' && <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} placeholder={t('auth.password')} required className="w-full p-3 border border-slate-300 dark:border-slate-600 rounded-lg bg-slate-50 dark:bg-slate-700 focus:ring-2 focus:ring-blue-500"/>}
+          {mode === 'login' && <div className="text-right -mt-2"><button type="button" onClick={() => switchMode('reset')} className="text-sm text-blue-500 hover:underline">{t('auth.forgotPassword')}</button></div>}
+          {error && <p className="text-red-500 text-sm text-center" role="alert">{error}</p>}
+          {info && <p className="text-green-600 dark:text-green-400 text-sm text-center" role="status">{info}</p>}
+          <button type="submit" disabled={loading} className="w-full bg-blue-600 text-white font-semibold py-3 px-4 rounded-lg hover:bg-blue-700 disabled:bg-slate-400 flex justify-center items-center">
+            {loading ? <LoaderCircle className="animate-spin" /> : (mode === 'reset' ? t('auth.resetSend') : title)}
+          </button>
+        </form>
+        {mode === 'reset' ? (
+          <p className="text-center mt-6 text-sm"><button onClick={() => switchMode('login')} className="font-semibold text-blue-500 hover:underline">{t('auth.backToLogin')}</button></p>
+        ) : (
+          <>
+            <div className="flex items-center gap-3 my-6 text-xs text-slate-400"><span className="flex-1 border-t border-slate-200 dark:border-slate-700" />{t('auth.or')}<span className="flex-1 border-t border-slate-200 dark:border-slate-700" /></div>
+            <button onClick={handleGoogle} disabled={loading} className="w-full py-3 px-4 rounded-lg border border-slate-300 dark:border-slate-600 font-semibold hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-50">{t('auth.google')}</button>
+            <p className="text-center mt-6 text-sm text-slate-600 dark:text-slate-400">
+              {mode === 'login' ? t('auth.noAccount') : t('auth.hasAccount')}
+              <button onClick={() => switchMode(mode === 'login' ? 'register' : 'login')} className="font-semibold text-blue-500 hover:underline ml-1">
+                {mode === 'login' ? t('auth.registerNow') : t('auth.loginNow')}
+              </button>
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuthForm;
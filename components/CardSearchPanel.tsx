@@ -0,0 +1,93 @@
+// components/CardSearchPanel.tsx
+'use client';
+
+import { Filter, GraduationCap, Save, X } from 'lucide-react';
+import { SEARCH_FIELDS, highlightMatches, isFilterActive, type CardFilter, type CardMatch } from '../lib/search';
+import type { FilteredDeck } from '../lib/settings';
+import TagInput from './TagInput';
+import { useI18n } from './LocaleProvider';
+
+const MAX_RESULTS = 100;
+const MAX_SRS_LEVEL_OPTION = 8;
+
+interface CardSearchPanelProps {
+  filter: CardFilter;
+  matches: CardMatch[];
+  filteredDecks: FilteredDeck[];
+  onFilterChange: (filter: CardFilter) => void;
+  onSaveFilter: (name: string) => void;
+  onDeleteFilteredDeck: (id: string) => void;
+  onReview: (matches: CardMatch[]) => void;
+  onReviewFilteredDeck: (deck: FilteredDeck) => void;
+}
+
+const Highlighted = ({ text, query }: { text: string; query: string }) => (
+  <>{highlightMatches(text, query).map((segment, i) => segment.match ? <mark key={i} className="bg-yellow-200 dark:bg-yellow-600 rounded-sm">{segment.text}</mark> : <span key={i}>{segment.text}</span>)}</>
+);
+
+const CardSearchPanel = ({ filter, matches, filteredDecks, onFilterChange, onSaveFilter, onDeleteFilteredDeck, onReview, onReviewFilteredDeck }: CardSearchPanelProps) => {
+  const { t } = useI18n();
+  const active = isFilterActive(filter);
+
+  const saveFilter = () => {
+    const name = window.prompt(t('search.namePrompt'), filter.text.trim() || filter.tags.join(', '));
+    if (name && name.trim()) onSaveFilter(name.trim());
+  };
+
+  return (
+    <div className="mb-6 space-y-4">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <Filter size={16} className="text-slate-400" />
+        <TagInput tags={filter.tags} onChange={tags => onFilterChange({ ...filter, tags })} placeholder={t('search.byTag')} className="w-48" />
+        <label className="flex items-center gap-1"><input type="checkbox" checked={filter.dueOnly} onChange={e => onFilterChange({ ...filter, dueOnly: e.target.checked })} />{t('search.dueOnly')}</label>
+        <label className="flex items-center gap-1">{t('search.maxLevel')}
+          <select value={filter.maxSrsLevel ?? ''} onChange={e => onFilterChange({ ...filter, maxSrsLevel: e.target.value === '' ? null : Number(e.target.value) })} className="p-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700">
+            <option value="">{t('search.anyLevel')}</option>
+            {Array.from({ length: MAX_SRS_LEVEL_OPTION + 1 }, (_, level) => <option key={level} value={level}>{level}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1"><input type="checkbox" checked={filter.missingExample} onChange={e => onFilterChange({ ...filter, missingExample: e.target.checked })} />{t('search.missingExample')}</label>
+      </div>
+
+      {filteredDecks.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {filteredDecks.map(deck => (
+            <span key={deck.id} className="flex items-center gap-1 pl-3 pr-1 py-1 rounded-full bg-blue-100 dark:bg-blue-900/50 text-sm">
+              <button onClick={() => onFilterChange(deck.filter)} className="hover:underline" title={t('search.apply')}>{deck.name}</button>
+              <button onClick={() => onReviewFilteredDeck(deck)} className="p-1 rounded-full hover:bg-blue-500 hover:text-white" title={t('search.reviewFiltered')}><GraduationCap size={14} /></button>
+              <button onClick={() => onDeleteFilteredDeck(deck.id)} className="p-1 rounded-full hover:bg-red-500 hover:text-white" title={t('common.delete')}><X size={14} /></button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {active && (
+        <div className="p-4 rounded-lg bg-white dark:bg-slate-800 shadow-md">
+          <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-2 mb-3">
+            <p className="font-semibold">{t('search.found', { count: matches.length })}{matches.length > MAX_RESULTS && t('search.truncated', { max: MAX_RESULTS })}</p>
+            <div className="flex gap-2">
+              <button onClick={saveFilter} className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 text-sm"><Save size={14} />{t('search.save')}</button>
+              <button onClick={() => onReview(matches)} disabled={matches.length === 0} className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:bg-slate-400 text-sm"><GraduationCap size={14} />{t('search.review')}</button>
+            </div>
+          </div>
+          <ul className="divide-y divide-slate-200 dark:divide-slate-700 max-h-96 overflow-y-auto">
+            {matches.slice(0, MAX_RESULTS).map(({ deck, card, fields, tags }) => (
+              <li key={`${deck.id}-${card.id}`} className="py-2 text-sm">
+                <div className="flex flex-wrap items-baseline gap-2">
+                  <span className="font-semibold text-base"><Highlighted text={card.term} query={filter.text} /></span>
+                  <span className="text-xs text-slate-400">{t('common.deckName', { title: deck.title })}</span>
+                  {tags.map(tag => <span key={tag} className="text-xs px-2 rounded-full bg-slate-200 dark:bg-slate-700">#{tag}</span>)}
+                </div>
+                {SEARCH_FIELDS.filter(field => field !== 'term' && (fields.includes(field) || (field === 'meaning' && fields.length <= 1))).map(field => (
+                  card[field] && <p key={field} className="text-slate-600 dark:text-slate-300"><span className="text-slate-400">{t(`field.${field}`)}: </span><Highlighted text={card[field]} query={filter.text} /></p>
+                ))}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CardSearchPanel;
@@ -0,0 +1,72 @@
+// components/DailyReviewPanel.tsx
+'use client';
+
+import { useState } from 'react';
+import { GraduationCap, Settings2 } from 'lucide-react';
+import type { Deck } from '../lib/types';
+import type { StudySettings } from '../lib/settings';
+import { STUDY_MODES, type StudyMode } from '../lib/studyModes';
+import { useI18n } from './LocaleProvider';
+
+interface DailyReviewPanelProps {
+  decks: Deck[];
+  settings: StudySettings;
+  counts: { new: number; learning: number; review: number };
+  onSettingsChange: (settings: StudySettings) => void;
+  onStart: () => void;
+}
+
+const DailyReviewPanel = ({ decks, settings, counts, onSettingsChange, onStart }: DailyReviewPanelProps) => {
+  const { t } = useI18n();
+  const [showSettings, setShowSettings] = useState(false);
+  const total = counts.new + counts.learning + counts.review;
+  const selected = settings.reviewDeckIds;
+
+  const setLimit = (field: keyof StudySettings['limits'], value: string) => {
+    const parsed = Math.max(0, Math.floor(Number(value) || 0));
+    onSettingsChange({ ...settings, limits: { ...settings.limits, [field]: parsed } });
+  };
+
+  const toggleDeck = (deckId: string) => {
+    const current = selected ?? decks.map(d => d.id);
+    const next = current.includes(deckId) ? current.filter(id => id !== deckId) : [...current, deckId];
+    onSettingsChange({ ...settings, reviewDeckIds: next.length === decks.length ? null : next });
+  };
+
+  return (
+    <div className="mb-6 p-4 rounded-lg bg-white dark:bg-slate-800 shadow-md">
+      <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-4">
+        <div>
+          <p className="font-semibold text-lg">{t('daily.total', { count: total })}</p>
+          <p className="text-sm text-slate-500">{t('daily.breakdown', { new: counts.new, learning: counts.learning, review: counts.review })}{selected && t('daily.selectedDecks', { count: selected.length })}</p>
+        </div>
+        <div className="flex items-center gap-2 self-end sm:self-center">
+          <button onClick={() => setShowSettings(!showSettings)} className="p-2 rounded-full bg-slate-100 dark:bg-slate-700 text-slate-500 hover:bg-blue-500 hover:text-white transition-all" title={t('daily.settings')}><Settings2 size={16} /></button>
+          <select value={settings.studyMode} onChange={e => onSettingsChange({ ...settings, studyMode: e.target.value as StudyMode })} className="p-2 text-sm border border-slate-300 dark:border-slate-600 rounded-lg bg-slate-50 dark:bg-slate-700" title={t('daily.mode')}>
+            {STUDY_MODES.map(mode => <option key={mode} value={mode}>{t(`studyMode.${mode}`)}</option>)}
+          </select>
+          <button onClick={onStart} disabled={total === 0} className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 text-white font-semibold hover:bg-blue-700 disabled:bg-slate-400 disabled:cursor-not-allowed transition-all text-sm"><GraduationCap size={16} />{t('daily.start')}</button>
+        </div>
+      </div>
+      {showSettings && (
+        <div className="mt-4 pt-4 border-t border-slate-200 dark:border-slate-700 grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+          <div className="space-y-3">
+            <label className="flex items-center justify-between gap-2">{t('daily.newLimit')}<input type="number" min={0} value={settings.limits.newCardsPerDay} onChange={e => setLimit('newCardsPerDay', e.target.value)} className="w-24 p-1 border border-slate-300 dark:border-slate-600 rounded bg-slate-50 dark:bg-slate-700"/></label>
+            <label className="flex items-center justify-between gap-2">{t('daily.reviewLimit')}<input type="number" min={0} value={settings.limits.reviewsPerDay} onChange={e => setLimit('reviewsPerDay', e.target.value)} className="w-24 p-1 border border-slate-300 dark:border-slate-600 rounded bg-slate-50 dark:bg-slate-700"/></label>
+            <label className="flex items-center justify-between gap-2">{t('daily.leechThreshold')}<input type="number" min={0} value={settings.leechThreshold} onChange={e => onSettingsChange({ ...settings, leechThreshold: Math.max(0, Math.floor(Number(e.target.value) || 0)) })} className="w-24 p-1 border border-slate-300 dark:border-slate-600 rounded bg-slate-50 dark:bg-slate-700"/></label>
+          </div>
+          <div>
+            <p className="font-semibold mb-2">{t('daily.decks')}</p>
+            <div className="max-h-40 overflow-y-auto space-y-1">
+              {decks.map(deck => (
+                <label key={deck.id} className="flex items-center gap-2"><input type="checkbox" checked={!selected || selected.includes(deck.id)} onChange={() => toggleDeck(deck.id)} />{deck.title}</label>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DailyReviewPanel;
@@ -0,0 +1,197 @@
+// components/DeckEditorModal.tsx
+'use client';
+
+import { useMemo, useState } from 'react';
+import { X, Plus, Trash2, ArrowUp, ArrowDown, RotateCcw, Merge, FolderInput } from 'lucide-react';
+import type { Card, Deck, SchedulerId } from '../lib/types';
+import { SCHEDULERS, DEFAULT_SCHEDULER } from '../lib/scheduler';
+import { createCard, findDuplicates, mergeDuplicateCards, resetCardProgress } from '../lib/cards';
+import TagInput from './TagInput';
+import { useI18n } from './LocaleProvider';
+
+interface DeckEditorModalProps {
+  deck: Deck;
+  decks: Deck[];
+  // Every deck the edit touched, the edited deck first; cards moved or merged away change other decks too.
+  onSave: (changed: Deck[]) => void;
+  onClose: () => void;
+}
+
+type CardField = 'term' | 'meaning' | 'example' | 'context' | 'translation';
+
+const TEXT_FIELDS: { field: CardField; rows: number; wide?: boolean }[] = [
+  { field: 'term', rows: 1 },
+  { field: 'meaning', rows: 3 },
+  { field: 'example', rows: 2, wide: true },
+  { field: 'context', rows: 4 },
+  { field: 'translation', rows: 4 },
+];
+
+const emptyCard = () => createCard({ term: '', meaning: '', example: '', context: '', translation: '' });
+
+const DeckEditorModal = ({ deck, decks, onSave, onClose }: DeckEditorModalProps) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<Deck>(() => ({ ...deck, cards: deck.cards.map(card => ({ ...card })) }));
+  // Other decks as they will be after saving: cards moved into them, duplicates merged out of them.
+  const [others, setOthers] = useState<Deck[]>(() => decks.filter(d => d.id !== deck.id));
+  const [touchedIds, setTouchedIds] = useState<Set<string>>(new Set());
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isDirty, setIsDirty] = useState(false);
+
+  const duplicates = useMemo(() => findDuplicates(draft, others), [draft, others]);
+  const duplicateCount = duplicates.size;
+
+  const updateDraft = (update: (draft: Deck) => Deck) => { setDraft(update); setIsDirty(true); };
+  const updateCards = (update: (cards: Card[]) => Card[]) => updateDraft(d => ({ ...d, cards: update(d.cards) }));
+  const updateCard = (cardId: string, update: (card: Card) => Card) => updateCards(cards => cards.map(card => card.id === cardId ? update(card) : card));
+  const updateOther = (deckId: string, update: (cards: Card[]) => Card[]) => {
+    setOthers(prev => prev.map(d => d.id === deckId ? { ...d, cards: update(d.cards) } : d));
+    setTouchedIds(prev => new Set(prev).add(deckId));
+    setIsDirty(true);
+  };
+
+  const toggleSelected = (cardId: string) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(cardId)) next.delete(cardId); else next.add(cardId);
+    return next;
+  });
+  const allSelected = draft.cards.length > 0 && draft.cards.every(card => selected.has(card.id));
+  const toggleAll = () => setSelected(allSelected ? new Set() : new Set(draft.cards.map(card => card.id)));
+
+  const addCard = () => {
+    const card = emptyCard();
+    updateCards(cards => [...cards, card]);
+    setTimeout(() => document.getElementById(`edit-card-${card.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' }), 0);
+  };
+
+  const deleteCards = (ids: Set<string>) => {
+    updateCards(cards => cards.filter(card => !ids.has(card.id)));
+    setSelected(prev => new Set([...prev].filter(id => !ids.has(id))));
+  };
+
+  const moveCard = (index: number, offset: number) => updateCards(cards => {
+    const target = index + offset;
+    if (target < 0 || target >= cards.length) return cards;
+    const next = [...cards];
+    [next[index], next[target]] = [next[target], next[index]];
+    return next;
+  });
+
+  // Moved cards keep their id and scheduling state; they are appended to the target deck.
+  const moveToDeck = (ids: Set<string>, targetId: string) => {
+    const moving = draft.cards.filter(card => ids.has(card.id));
+    if (!targetId || moving.length === 0) return;
+    updateOther(targetId, cards => [...cards.filter(card => !ids.has(card.id)), ...moving]);
+    deleteCards(ids);
+  };
+
+  const resetCards = (ids: Set<string>) => {
+    const now = new Date();
+    updateCards(cards => cards.map(card => ids.has(card.id) ? resetCardProgress(card, now) : card));
+  };
+
+  // The card being edited absorbs its duplicate, which is then removed from wherever it lives.
+  const mergeDuplicate = (cardId: string) => {
+    const duplicate = duplicates.get(cardId)?.[0];
+    if (!duplicate) return;
+    if (duplicate.deckId === draft.id) {
+      updateCards(cards => cards.filter(card => card.id !== duplicate.card.id).map(card => card.id === cardId ? mergeDuplicateCards(card, duplicate.card) : card));
+      setSelected(prev => { const next = new Set(prev); next.delete(duplicate.card.id); return next; });
+    } else {
+      updateCard(cardId, card => mergeDuplicateCards(card, duplicate.card));
+      updateOther(duplicate.deckId, cards => cards.filter(card => card.id !== duplicate.card.id));
+    }
+  };
+
+  const handleClose = () => {
+    if (isDirty && !window.confirm(t('editor.confirmDiscard'))) return;
+    onClose();
+  };
+
+  const handleSave = () => {
+    const emptyCards = draft.cards.filter(card => !card.term.trim()).length;
+    if (emptyCards > 0 && !window.confirm(t('editor.confirmEmptyTerms', { count: emptyCards }))) return;
+    onSave([draft, ...others.filter(d => touchedIds.has(d.id))]);
+  };
+
+  const selectedIds = new Set(draft.cards.filter(card => selected.has(card.id)).map(card => card.id));
+  const deckSelect = (onPick: (deckId: string) => void, disabled = false) => (
+    <select value="" disabled={disabled || others.length === 0} onChange={e => onPick(e.target.value)} className="p-1 text-xs border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 disabled:opacity-50">
+      <option value="">{t('editor.moveTo')}</option>
+      {others.map(d => <option key={d.id} value={d.id}>{d.title}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 z-40 flex justify-center items-center p-4" onClick={handleClose}>
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <header className="p-4 border-b border-slate-200 dark:border-slate-700 flex justify-between items-center flex-shrink-0">
+          <h2 className="text-xl font-bold">{t('editor.title')}</h2>
+          <button onClick={handleClose} className="p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-600"><X /></button>
+        </header>
+        <main className="p-6 overflow-y-auto flex-grow">
+          <div className="mb-6"><label className="block text-sm font-bold mb-2" htmlFor="deckTitle">{t('editor.deckTitle')}</label><input id="deckTitle" type="text" value={draft.title} onChange={e => updateDraft(d => ({ ...d, title: e.target.value }))} className="w-full p-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-slate-50 dark:bg-slate-700"/></div>
+          <div className="mb-6"><label className="block text-sm font-bold mb-2">{t('editor.deckTags')}</label><TagInput tags={draft.tags ?? []} onChange={tags => updateDraft(d => ({ ...d, tags }))} className="w-full bg-slate-50"/></div>
+          <div className="mb-6"><label className="block text-sm font-bold mb-2" htmlFor="deckScheduler">{t('editor.scheduler')}</label><select id="deckScheduler" value={draft.scheduler ?? DEFAULT_SCHEDULER} onChange={e => updateDraft(d => ({ ...d, scheduler: e.target.value as SchedulerId }))} className="w-full p-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-slate-50 dark:bg-slate-700">{Object.values(SCHEDULERS).map(s => <option key={s.id} value={s.id}>{s.name}</option>)}</select></div>
+
+          <div className="flex flex-wrap justify-between items-center gap-2 mb-4 border-b border-slate-200 dark:border-slate-700 pb-2">
+            <h3 className="text-lg font-semibold">{t('editor.cards')} <span className="text-sm font-normal text-slate-500">{duplicateCount > 0 ? t('editor.cardCountWithDuplicates', { count: draft.cards.length, duplicates: duplicateCount }) : t('editor.cardCount', { count: draft.cards.length })}</span></h3>
+            <button onClick={addCard} className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-blue-600 text-white hover:bg-blue-700 text-sm"><Plus size={14} />{t('editor.addCard')}</button>
+          </div>
+
+          {draft.cards.length > 0 && (
+            <div className="sticky -top-6 z-10 flex flex-wrap items-center gap-2 mb-4 p-2 rounded-lg bg-slate-100 dark:bg-slate-700 text-sm">
+              <label className="flex items-center gap-1"><input type="checkbox" checked={allSelected} onChange={toggleAll} />{t('common.selectAll')}</label>
+              <span className="text-slate-500">{t('editor.selected', { count: selectedIds.size })}</span>
+              <button onClick={() => deleteCards(selectedIds)} disabled={selectedIds.size === 0} className="flex items-center gap-1 px-2 py-1 rounded hover:bg-red-500 hover:text-white disabled:opacity-50 disabled:pointer-events-none"><Trash2 size={14} />{t('common.delete')}</button>
+              <button onClick={() => resetCards(selectedIds)} disabled={selectedIds.size === 0} className="flex items-center gap-1 px-2 py-1 rounded hover:bg-slate-300 dark:hover:bg-slate-600 disabled:opacity-50 disabled:pointer-events-none"><RotateCcw size={14} />{t('editor.resetProgress')}</button>
+              <span className="flex items-center gap-1"><FolderInput size={14} />{deckSelect(deckId => moveToDeck(selectedIds, deckId), selectedIds.size === 0)}</span>
+            </div>
+          )}
+
+          <div className="space-y-6">
+            {draft.cards.map((card, index) => {
+              const cardDuplicates = duplicates.get(card.id);
+              return (
+                <div key={card.id} id={`edit-card-${card.id}`} className={`p-4 rounded-lg bg-slate-50 dark:bg-slate-700/50 border ${cardDuplicates ? 'border-amber-400' : 'border-slate-200 dark:border-slate-700'}`}>
+                  <div className="flex flex-wrap items-center gap-2 mb-3 text-xs">
+                    <input type="checkbox" checked={selected.has(card.id)} onChange={() => toggleSelected(card.id)} />
+                    <span className="text-slate-400">{t('editor.cardInfo', { index: index + 1, level: card.srsLevel || 0 })}</span>
+                    <div className="flex items-center gap-1 ml-auto">
+                      <button onClick={() => moveCard(index, -1)} disabled={index === 0} className="p-1 rounded hover:bg-slate-200 dark:hover:bg-slate-600 disabled:opacity-30" title={t('editor.moveUp')}><ArrowUp size={14} /></button>
+                      <button onClick={() => moveCard(index, 1)} disabled={index === draft.cards.length - 1} className="p-1 rounded hover:bg-slate-200 dark:hover:bg-slate-600 disabled:opacity-30" title={t('editor.moveDown')}><ArrowDown size={14} /></button>
+                      <button onClick={() => resetCards(new Set([card.id]))} className="p-1 rounded hover:bg-slate-200 dark:hover:bg-slate-600" title={t('editor.resetCard')}><RotateCcw size={14} /></button>
+                      {deckSelect(deckId => moveToDeck(new Set([card.id]), deckId))}
+                      <button onClick={() => deleteCards(new Set([card.id]))} className="p-1 rounded hover:bg-red-500 hover:text-white" title={t('common.delete')}><Trash2 size={14} /></button>
+                    </div>
+                  </div>
+                  {cardDuplicates && (
+                    <div className="flex flex-wrap items-center gap-2 mb-3 p-2 rounded bg-amber-50 dark:bg-amber-900/30 text-xs text-amber-700 dark:text-amber-300">
+                      <span>{t('editor.duplicateOf', { places: cardDuplicates.map(dup => dup.deckId === draft.id ? t('editor.thisDeck') : t('common.deckName', { title: dup.deckTitle })).join(t('common.listSeparator')), term: cardDuplicates[0].card.term })}</span>
+                      <button onClick={() => mergeDuplicate(card.id)} className="flex items-center gap-1 px-2 py-0.5 rounded bg-amber-500 text-white hover:bg-amber-600" title={t('editor.mergeHint')}><Merge size={12} />{t('editor.merge')}</button>
+                    </div>
+                  )}
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {TEXT_FIELDS.map(({ field, rows, wide }) => (
+                      <div key={field} className={wide ? 'md:col-span-2' : ''}><label className="block text-xs font-semibold mb-1">{t(`field.${field}`)}</label><textarea value={card[field]} rows={rows} onChange={e => updateCard(card.id, c => ({ ...c, [field]: e.target.value }))} className="w-full p-2 text-sm border rounded bg-white dark:bg-slate-600 border-slate-300 dark:border-slate-500"/></div>
+                    ))}
+                    <div className="md:col-span-2"><label className="block text-xs font-semibold mb-1">{t('field.tags')}</label><TagInput tags={card.tags ?? []} onChange={tags => updateCard(card.id, c => ({ ...c, tags }))} className="w-full"/></div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </main>
+        <footer className="p-4 border-t border-slate-200 dark:border-slate-700 flex justify-between items-center gap-2 flex-shrink-0">
+          <span className="text-xs text-amber-600">{isDirty && t('editor.unsaved')}</span>
+          <div className="flex gap-2">
+            <button onClick={handleClose} className="px-4 py-2 rounded-lg bg-slate-200 dark:bg-slate-600 hover:bg-slate-300 dark:hover:bg-slate-500">{t('common.cancel')}</button>
+            <button onClick={handleSave} className="px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700">{t('editor.save')}</button>
+          </div>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default DeckEditorModal;
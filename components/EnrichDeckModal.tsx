@@ -0,0 +1,130 @@
+// components/EnrichDeckModal.tsx
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { X, WandSparkles, LoaderCircle, Check } from 'lucide-react';
+import type { Deck } from '../lib/types';
+import { aiErrorMessage, type AiProvider } from '../lib/ai';
+import { ENRICH_FIELDS, enrichCards, findIncompleteCards, type EnrichmentProposal, type EnrichmentResult } from '../lib/enrichment';
+import { useI18n } from './LocaleProvider';
+
+interface EnrichDeckModalProps {
+  deck: Deck;
+  aiProvider: AiProvider;
+  isSaving: boolean;
+  onApply: (accepted: EnrichmentProposal[]) => void;
+  onClose: () => void;
+}
+
+// Asks the AI to fill every empty field in the deck, then shows each card's proposed additions so
+// the user can accept or reject them before anything is saved.
+const EnrichDeckModal = ({ deck, aiProvider, isSaving, onApply, onClose }: EnrichDeckModalProps) => {
+  const { locale, t } = useI18n();
+  const incomplete = useMemo(() => findIncompleteCards(deck), [deck]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [result, setResult] = useState<EnrichmentResult | null>(null);
+  const [rejected, setRejected] = useState<Set<string>>(new Set());
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Closing the modal stops queuing new batches.
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const start = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ done: 0, total: incomplete.length });
+    setRejected(new Set());
+    const enriched = await enrichCards(aiProvider, incomplete, locale, (done, total) => setProgress({ done, total }), controller.signal);
+    if (controller.signal.aborted) return;
+    setResult(enriched);
+    setProgress(null);
+  };
+
+  const toggle = (cardId: string) => setRejected(prev => {
+    const next = new Set(prev);
+    if (next.has(cardId)) next.delete(cardId); else next.add(cardId);
+    return next;
+  });
+
+  const accepted = result ? result.proposals.filter(proposal => !rejected.has(proposal.cardId)) : [];
+  const cardsById = useMemo(() => new Map(deck.cards.map(card => [card.id, card])), [deck]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 z-40 flex justify-center items-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <header className="p-4 border-b border-slate-200 dark:border-slate-700 flex justify-between items-center">
+          <h2 className="text-xl font-bold flex items-center gap-2"><WandSparkles />{t('enrich.title', { title: deck.title })}</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-600"><X /></button>
+        </header>
+        <main className="p-6 overflow-y-auto space-y-4 text-sm">
+          {!result && !progress && (
+            incomplete.length === 0
+              ? <p className="text-slate-500">{t('enrich.nothingMissing')}</p>
+              : <p className="text-slate-500">{t('enrich.intro', { count: incomplete.length })}</p>
+          )}
+          {progress && (
+            <div className="space-y-2">
+              <p>{t('enrich.progress', { done: progress.done, total: progress.total })}</p>
+              <div className="h-2 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden"><div className="h-full bg-purple-500 transition-all" style={{ width: `${progress.total ? progress.done / progress.total * 100 : 0}%` }} /></div>
+            </div>
+          )}
+          {result && (
+            <>
+              <div className="flex flex-wrap justify-between items-center gap-2">
+                <p className="text-slate-500">{t('enrich.summary', { count: result.proposals.length, failed: result.failures.length })}</p>
+                {result.proposals.length > 0 && (
+                  <div className="flex gap-3">
+                    <button onClick={() => setRejected(new Set())} className="text-blue-500 hover:underline">{t('enrich.acceptAll')}</button>
+                    <button onClick={() => setRejected(new Set(result.proposals.map(proposal => proposal.cardId)))} className="text-blue-500 hover:underline">{t('enrich.rejectAll')}</button>
+                  </div>
+                )}
+              </div>
+              <ul className="space-y-3">
+                {result.proposals.map(proposal => {
+                  const isAccepted = !rejected.has(proposal.cardId);
+                  const card = cardsById.get(proposal.cardId);
+                  return (
+                    <li key={proposal.cardId} className={`p-3 rounded-lg border ${isAccepted ? 'border-green-300 dark:border-green-800' : 'border-slate-200 dark:border-slate-700 opacity-60'}`}>
+                      <label className="flex items-center gap-2 font-semibold text-base mb-2"><input type="checkbox" checked={isAccepted} onChange={() => toggle(proposal.cardId)} />{proposal.term}</label>
+                      <dl className="space-y-1 pl-6">
+                        {ENRICH_FIELDS.filter(field => proposal.values[field] || card?.[field]).map(field => (
+                          <div key={field} className="grid grid-cols-[5rem_1fr] gap-2">
+                            <dt className="text-slate-500">{t(`field.${field}`)}</dt>
+                            {proposal.values[field]
+                              ? <dd className="bg-green-50 dark:bg-green-900/30 text-green-800 dark:text-green-200 rounded px-1"><span className="select-none mr-1">+</span>{proposal.values[field]}</dd>
+                              : <dd className="text-slate-600 dark:text-slate-300">{card?.[field]}</dd>}
+                          </div>
+                        ))}
+                      </dl>
+                    </li>
+                  );
+                })}
+              </ul>
+              {result.failures.length > 0 && (
+                <details className="text-slate-500">
+                  <summary className="cursor-pointer">{t('enrich.failures', { count: result.failures.length })}</summary>
+                  <ul className="mt-2 space-y-1 pl-4 list-disc">
+                    {result.failures.map(failure => <li key={failure.cardId}><strong>{failure.term}</strong>: {aiErrorMessage(failure.error, t)}</li>)}
+                  </ul>
+                </details>
+              )}
+            </>
+          )}
+        </main>
+        <footer className="p-4 border-t border-slate-200 dark:border-slate-700 flex justify-end gap-2">
+          {!result ? (
+            <button onClick={start} disabled={!!progress || incomplete.length === 0 || !aiProvider} className="flex items-center gap-2 px-4 py-2 rounded-lg bg-purple-600 text-white hover:bg-purple-700 disabled:bg-slate-400">
+              {progress ? <LoaderCircle size={16} className="animate-spin" /> : <WandSparkles size={16} />}{aiProvider ? t('enrich.start') : t('app.aiNotConfigured')}
+            </button>
+          ) : (
+            <button onClick={() => onApply(accepted)} disabled={isSaving || accepted.length === 0} className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:bg-slate-400">
+              {isSaving ? <LoaderCircle size={16} className="animate-spin" /> : <Check size={16} />}{t('enrich.apply', { count: accepted.length })}
+            </button>
+          )}
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default EnrichDeckModal;
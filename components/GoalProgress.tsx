@@ -0,0 +1,59 @@
+// components/GoalProgress.tsx
+'use client';
+
+import { useState } from 'react';
+import { Flame } from 'lucide-react';
+import { useI18n } from './LocaleProvider';
+
+interface GoalProgressProps {
+  reviewed: number;          // reviews completed today
+  goal: number;              // 0 = no goal
+  streak: number;
+  reminders: boolean;
+  onGoalChange: (goal: number) => void;
+  onRemindersChange: (enabled: boolean) => void;
+}
+
+// A radius whose circumference is 100, so the dash length is the percentage.
+const RING_RADIUS = 15.9155;
+
+// Header badge: today's progress towards the goal as a ring, the streak next to it, and a popover for the settings.
+const GoalProgress = ({ reviewed, goal, streak, reminders, onGoalChange, onRemindersChange }: GoalProgressProps) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  // The goal being typed; it is saved on blur or Enter rather than on every keystroke.
+  const [goalDraft, setGoalDraft] = useState<string | null>(null);
+  const percent = goal > 0 ? Math.min(100, Math.round(reviewed / goal * 100)) : 0;
+  const label = goal > 0 ? t('goal.progress', { done: reviewed, goal }) : t('goal.none');
+
+  const commitGoal = () => {
+    if (goalDraft === null) return;
+    const next = Math.max(0, Math.floor(Number(goalDraft) || 0));
+    setGoalDraft(null);
+    if (next !== goal) onGoalChange(next);
+  };
+
+  return (
+    <div className="relative">
+      <button onClick={() => setIsOpen(!isOpen)} className="flex items-center gap-2 p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-700" title={`${label} · ${t('goal.streak', { count: streak })}`} aria-label={`${label} · ${t('goal.streak', { count: streak })}`} aria-expanded={isOpen}>
+        {goal > 0 && (
+          <svg viewBox="0 0 36 36" className="w-8 h-8 -rotate-90" aria-hidden="true">
+            <circle cx="18" cy="18" r={RING_RADIUS} fill="none" strokeWidth="4" className="stroke-slate-200 dark:stroke-slate-700" />
+            <circle cx="18" cy="18" r={RING_RADIUS} fill="none" strokeWidth="4" strokeLinecap="round" strokeDasharray={`${percent} 100`} className={percent >= 100 ? 'stroke-green-500' : 'stroke-blue-500'} />
+          </svg>
+        )}
+        <span className={`flex items-center gap-0.5 text-sm font-semibold ${streak > 0 ? 'text-orange-500' : 'text-slate-400'}`}><Flame size={18} />{streak}</span>
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-30 w-64 p-4 rounded-lg shadow-xl bg-white dark:bg-slate-800 text-sm space-y-3">
+          <p className="font-semibold">{label}</p>
+          <p className="text-slate-500">{t('goal.streak', { count: streak })}</p>
+          <label className="flex items-center justify-between gap-2">{t('goal.dailyGoal')}<input type="number" min={0} value={goalDraft ?? goal} onChange={e => setGoalDraft(e.target.value)} onBlur={commitGoal} onKeyDown={e => { if (e.key === 'Enter') commitGoal(); else if (e.key === 'Escape') setGoalDraft(null); }} className="w-20 p-1 border border-slate-300 dark:border-slate-600 rounded bg-slate-50 dark:bg-slate-700"/></label>
+          <label className="flex items-center gap-2"><input type="checkbox" checked={reminders} onChange={e => onRemindersChange(e.target.checked)} />{t('goal.reminders')}</label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GoalProgress;
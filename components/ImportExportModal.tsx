@@ -0,0 +1,177 @@
+// components/ImportExportModal.tsx
+'use client';
+
+import { useState, useMemo } from 'react';
+import { X, Download, Upload, LoaderCircle } from 'lucide-react';
+import type { Deck } from '../lib/types';
+import { createCard } from '../lib/cards';
+import { EXPORT_FORMATS, exportDecks, exportFileName, downloadBlob, type ExportFormat } from '../lib/exporters';
+import { CARD_FIELDS, detectImportKind, importErrorKey, tableFromDelimited, looksLikeHeader, parseDelimited, guessDelimiter, guessMapping, mapTableToCards, parseBackup, type FieldMapping, type ImportKind, type ImportTable, type ImportedDeck } from '../lib/importers';
+import { parseApkg } from '../lib/anki';
+import { useI18n } from './LocaleProvider';
+
+const PREVIEW_ROWS = 5;
+
+const ImportExportModal = ({ decks, onImport, onClose }: { decks: Deck[]; onImport: (decks: ImportedDeck[]) => Promise<void>; onClose: () => void }) => {
+  const { t } = useI18n();
+  const [tab, setTab] = useState<'export' | 'import'>('export');
+  const [selectedIds, setSelectedIds] = useState<string[]>(decks.map(d => d.id));
+  const [format, setFormat] = useState<ExportFormat>('json');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  // Import state
+  const [kind, setKind] = useState<ImportKind | null>(null);
+  const [rawText, setRawText] = useState('');
+  const [hasHeader, setHasHeader] = useState(true);
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<FieldMapping | null>(null);
+  const [backupDecks, setBackupDecks] = useState<ImportedDeck[]>([]);
+  const [title, setTitle] = useState('');
+
+  const previewCards = useMemo(() => table && mapping ? mapTableToCards(table, mapping) : [], [table, mapping]);
+
+  const handleExport = async () => {
+    const chosen = decks.filter(d => selectedIds.includes(d.id));
+    if (chosen.length === 0) { setError(t('io.pickDeck')); return; }
+    setBusy(true);
+    setError('');
+    try {
+      downloadBlob(await exportDecks(chosen, format), exportFileName(chosen, format, t));
+    } catch (err) {
+      console.error("导出失败:", err);
+      setError(t('io.exportFailed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const applyTable = (next: ImportTable) => { setTable(next); setMapping(guessMapping(next.columns)); };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const detected = detectImportKind(file.name);
+    setKind(detected);
+    setTable(null); setMapping(null); setBackupDecks([]); setError('');
+    setTitle(file.name.replace(/\.[^.]+$/, ''));
+    if (!detected) { setError(t('io.unsupported')); return; }
+    setBusy(true);
+    try {
+      if (detected === 'apkg') {
+        applyTable(await parseApkg(file));
+      } else {
+        const text = await file.text();
+        if (detected === 'json') {
+          setBackupDecks(parseBackup(text));
+        } else {
+          const header = looksLikeHeader(parseDelimited(text, guessDelimiter(text))[0] || []);
+          setRawText(text);
+          setHasHeader(header);
+          applyTable(tableFromDelimited(text, header));
+        }
+      }
+    } catch (err) {
+      console.error("读取导入文件失败:", err);
+      setError(t(importErrorKey(err)));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleHeader = (checked: boolean) => { setHasHeader(checked); applyTable(tableFromDelimited(rawText, checked)); };
+
+  const handleImport = async () => {
+    const imported = kind === 'json' ? backupDecks : [{ title: title.trim() || t('io.defaultTitle'), cards: previewCards.map(createCard) }];
+    if (imported.every(d => d.cards.length === 0)) { setError(t('io.nothingToImport')); return; }
+    setBusy(true);
+    setError('');
+    try {
+      await onImport(imported);
+      onClose();
+    } catch (err) {
+      console.error("导入失败:", err);
+      setError(t('io.importFailed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const tabClass = (active: boolean) => `px-4 py-2 text-sm font-semibold rounded-lg transition-colors ${active ? 'bg-blue-600 text-white' : 'bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600'}`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 z-40 flex justify-center items-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <header className="p-4 border-b border-slate-200 dark:border-slate-700 flex justify-between items-center flex-shrink-0">
+          <div className="flex gap-2"><button onClick={() => setTab('export')} className={tabClass(tab === 'export')}>{t('io.export')}</button><button onClick={() => setTab('import')} className={tabClass(tab === 'import')}>{t('io.import')}</button></div>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-600"><X /></button>
+        </header>
+        <main className="p-6 overflow-y-auto flex-grow space-y-4 text-sm">
+          {tab === 'export' ? (
+            <>
+              <div>
+                <div className="flex justify-between items-center mb-2"><label className="font-bold">{t('io.selectDecks')}</label><button onClick={() => setSelectedIds(selectedIds.length === decks.length ? [] : decks.map(d => d.id))} className="text-blue-500 hover:underline">{selectedIds.length === decks.length ? t('io.selectNone') : t('common.selectAll')}</button></div>
+                <div className="max-h-60 overflow-y-auto space-y-1 border border-slate-200 dark:border-slate-700 rounded-lg p-2">
+                  {decks.map(deck => (
+                    <label key={deck.id} className="flex items-center gap-2 p-1 rounded hover:bg-slate-50 dark:hover:bg-slate-700/50 cursor-pointer">
+                      <input type="checkbox" checked={selectedIds.includes(deck.id)} onChange={e => setSelectedIds(prev => e.target.checked ? [...prev, deck.id] : prev.filter(id => id !== deck.id))} />
+                      <span className="flex-grow">{deck.title}</span><span className="text-slate-400">{t('io.cardCount', { count: deck.cards.length })}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div><label className="block font-bold mb-2" htmlFor="exportFormat">{t('io.format')}</label><select id="exportFormat" value={format} onChange={e => setFormat(e.target.value as ExportFormat)} className="w-full p-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-slate-50 dark:bg-slate-700">{EXPORT_FORMATS.map(f => <option key={f} value={f}>{t(`io.format.${f}`)}</option>)}</select></div>
+            </>
+          ) : (
+            <>
+              <input type="file" accept=".json,.csv,.tsv,.txt,.apkg" onChange={handleFileChange} className="block w-full text-sm file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-blue-600 file:text-white hover:file:bg-blue-700" />
+              {kind === 'json' && backupDecks.length > 0 && (
+                <div className="space-y-1">
+                  <p className="font-bold">{t('io.backupDecks')}</p>
+                  {backupDecks.map((deck, i) => <p key={i} className="flex justify-between p-2 rounded bg-slate-50 dark:bg-slate-700/50"><span>{deck.title}</span><span className="text-slate-400">{t('io.cardCount', { count: deck.cards.length })}</span></p>)}
+                </div>
+              )}
+              {table && mapping && (
+                <>
+                  <div><label className="block font-bold mb-2" htmlFor="importTitle">{t('io.deckTitle')}</label><input id="importTitle" type="text" value={title} onChange={e => setTitle(e.target.value)} className="w-full p-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-slate-50 dark:bg-slate-700"/></div>
+                  {kind !== 'apkg' && <label className="flex items-center gap-2"><input type="checkbox" checked={hasHeader} onChange={e => toggleHeader(e.target.checked)} />{t('io.hasHeader')}</label>}
+                  <div>
+                    <p className="font-bold mb-2">{t('io.mapping')}</p>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                      {CARD_FIELDS.map(field => (
+                        <label key={field} className="flex items-center gap-2">
+                          <span className="w-12 flex-shrink-0">{t(`field.${field}`)}</span>
+                          <select value={mapping[field]} onChange={e => setMapping({ ...mapping, [field]: Number(e.target.value) })} className="flex-grow p-1 border border-slate-300 dark:border-slate-600 rounded bg-slate-50 dark:bg-slate-700">
+                            <option value={-1}>{t('io.unmapped')}</option>
+                            {table.columns.map((column, i) => <option key={i} value={i}>{column || t('io.column', { index: i + 1 })}</option>)}
+                          </select>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                  <div>
+                    <p className="font-bold mb-2">{t('io.preview', { total: previewCards.length, shown: Math.min(PREVIEW_ROWS, previewCards.length) })}</p>
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-xs">
+                        <thead><tr className="text-left text-slate-500 border-b border-slate-200 dark:border-slate-700">{CARD_FIELDS.map(field => <th key={field} className="py-1 pr-2">{t(`field.${field}`)}</th>)}</tr></thead>
+                        <tbody>{previewCards.slice(0, PREVIEW_ROWS).map((card, i) => <tr key={i} className="border-b border-slate-100 dark:border-slate-700/50 align-top">{CARD_FIELDS.map(field => <td key={field} className="py-1 pr-2 max-w-[12rem] truncate" title={card[field]}>{card[field]}</td>)}</tr>)}</tbody>
+                      </table>
+                    </div>
+                  </div>
+                </>
+              )}
+            </>
+          )}
+          {error && <p className="text-red-500">{error}</p>}
+        </main>
+        <footer className="p-4 border-t border-slate-200 dark:border-slate-700 flex justify-end gap-2 flex-shrink-0">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg bg-slate-200 dark:bg-slate-600 hover:bg-slate-300 dark:hover:bg-slate-500">{t('common.cancel')}</button>
+          {tab === 'export'
+            ? <button onClick={handleExport} disabled={busy} className="px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:bg-slate-400 flex items-center gap-2">{busy ? <LoaderCircle size={16} className="animate-spin" /> : <Download size={16} />}{t('io.export')}</button>
+            : <button onClick={handleImport} disabled={busy || (!table && backupDecks.length === 0)} className="px-4 py-2 rounded-lg bg-green-600 text-white hover:bg-green-700 disabled:bg-slate-400 flex items-center gap-2">{busy ? <LoaderCircle size={16} className="animate-spin" /> : <Upload size={16} />}{t('io.importAndSave')}</button>}
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default ImportExportModal;
@@ -0,0 +1,131 @@
+// components/LearningDashboard.tsx
+'use client';
+
+import { useMemo } from 'react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import type { Deck, ReviewLogEntry } from '../lib/types';
+import { dailyReviewCounts, dueForecast, retentionByDeck, averageAnswerTimeMs } from '../lib/analytics';
+import { useI18n } from './LocaleProvider';
+
+const STATS_MAX_LEVEL = 8;
+const STATS_COLORS = ["#ef4444", "#f97316", "#eab308", "#84cc16", "#22c55e", "#10b981", "#06b6d4", "#3b82f6", "#8b5cf6"];
+const HEATMAP_WEEKS = 18;
+const FORECAST_DAYS = 30;
+const HEATMAP_COLORS = ['bg-slate-200 dark:bg-slate-700', 'bg-green-200 dark:bg-green-900', 'bg-green-400 dark:bg-green-700', 'bg-green-600 dark:bg-green-500', 'bg-green-800 dark:bg-green-300'];
+
+const heatLevel = (count: number, max: number) => count === 0 ? 0 : Math.min(4, Math.ceil((count / Math.max(max, 1)) * 4));
+const formatPercent = (value: number | null) => value === null ? '—' : `${Math.round(value * 100)}%`;
+
+const LearningDashboard = ({ decks, reviewLog, theme }: { decks: Deck[]; reviewLog: ReviewLogEntry[]; theme: string }) => {
+  const { t } = useI18n();
+  const axisColor = theme === 'dark' ? '#94a3b8' : '#64748b';
+  const tooltipStyle = { backgroundColor: theme === 'dark' ? '#1e293b' : 'white', borderRadius: '0.5rem', border: '1px solid #334155' };
+
+  const learningStats = useMemo(() => {
+    const stats = Array(STATS_MAX_LEVEL + 1).fill(0);
+    decks.forEach(deck => {
+      if(deck.cards){
+        deck.cards.forEach(card => {
+          const level = Math.min(card.srsLevel || 0, STATS_MAX_LEVEL);
+          stats[level] += 1;
+        });
+      }
+    });
+    return stats.map((count, index) => ({ name: t(index === STATS_MAX_LEVEL ? 'dashboard.levelMax' : 'dashboard.level', { level: index }), count }));
+  }, [decks, t]);
+
+  const { heatmap, heatmapMax, forecast, retention, avgTimeMs, reviewsToday, overallRetention } = useMemo(() => {
+    const now = new Date();
+    const days = dailyReviewCounts(reviewLog, HEATMAP_WEEKS * 7, now);
+    // Pad the first column so every row of the grid is the same weekday.
+    const padding = new Date(`${days[0].date}T00:00:00`).getDay();
+    const retention = retentionByDeck(reviewLog, decks);
+    const checks = reviewLog.filter(log => log.prevInterval > 0);
+    return {
+      heatmap: [...Array(padding).fill(null), ...days],
+      heatmapMax: Math.max(...days.map(d => d.count)),
+      forecast: dueForecast(decks, FORECAST_DAYS, now).map(({ day, count }) => ({ name: day === 0 ? t('dashboard.today') : t('dashboard.dayOffset', { days: day }), count })),
+      retention,
+      avgTimeMs: averageAnswerTimeMs(reviewLog),
+      reviewsToday: days[days.length - 1].count,
+      overallRetention: checks.length > 0 ? checks.filter(log => log.answer !== 'again').length / checks.length : null,
+    };
+  }, [decks, reviewLog, t]);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: t('dashboard.reviewsToday'), value: String(reviewsToday) },
+          { label: t('dashboard.totalReviews'), value: String(reviewLog.length) },
+          { label: t('dashboard.retention'), value: formatPercent(overallRetention) },
+          { label: t('dashboard.averageTime'), value: avgTimeMs === null ? '—' : t('dashboard.seconds', { seconds: (avgTimeMs / 1000).toFixed(1) }) },
+        ].map(tile => (
+          <div key={tile.label} className="bg-white dark:bg-slate-800 p-4 rounded-2xl shadow-lg"><p className="text-sm text-slate-500">{tile.label}</p><p className="text-2xl font-bold mt-1">{tile.value}</p></div>
+        ))}
+      </div>
+
+      <div className="bg-white dark:bg-slate-800 p-6 rounded-2xl shadow-lg">
+        <h3 className="font-semibold mb-4">{t('dashboard.heatmap')}</h3>
+        <div className="grid grid-rows-7 grid-flow-col gap-1 w-max max-w-full overflow-x-auto">
+          {heatmap.map((day, index) => day
+            ? <div key={day.date} title={t('dashboard.heatmapDay', { date: day.date, count: day.count })} className={`w-3 h-3 rounded-sm ${HEATMAP_COLORS[heatLevel(day.count, heatmapMax)]}`} />
+            : <div key={`pad-${index}`} className="w-3 h-3" />)}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white dark:bg-slate-800 p-6 rounded-2xl shadow-lg h-80 flex flex-col">
+          <h3 className="font-semibold mb-4">{t('dashboard.levels')}</h3>
+          <div className="flex-grow">
+            <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={learningStats} margin={{ top: 5, right: 20, left: -10, bottom: 5 }}>
+                    <XAxis dataKey="name" stroke={axisColor} fontSize={12} />
+                    <YAxis stroke={axisColor} fontSize={12} allowDecimals={false} />
+                    <Tooltip cursor={{fill: 'rgba(100, 116, 139, 0.1)'}} contentStyle={tooltipStyle}/>
+                    <Bar dataKey="count">
+                        {learningStats.map((entry, index) => (
+                        <Cell key={`cell-${index}`} fill={STATS_COLORS[index % STATS_COLORS.length]} />
+                        ))}
+                    </Bar>
+                </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+        <div className="bg-white dark:bg-slate-800 p-6 rounded-2xl shadow-lg h-80 flex flex-col">
+          <h3 className="font-semibold mb-4">{t('dashboard.forecast', { days: FORECAST_DAYS })}</h3>
+          <div className="flex-grow">
+            <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={forecast} margin={{ top: 5, right: 20, left: -10, bottom: 5 }}>
+                    <XAxis dataKey="name" stroke={axisColor} fontSize={12} interval={4} />
+                    <YAxis stroke={axisColor} fontSize={12} allowDecimals={false} />
+                    <Tooltip cursor={{fill: 'rgba(100, 116, 139, 0.1)'}} contentStyle={tooltipStyle}/>
+                    <Bar dataKey="count" name={t('dashboard.forecastSeries')} fill="#3b82f6" />
+                </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-slate-800 p-6 rounded-2xl shadow-lg">
+        <h3 className="font-semibold mb-4">{t('dashboard.deckRetention')}</h3>
+        {retention.length === 0 ? <p className="text-sm text-slate-500">{t('dashboard.noDecks')}</p> : (
+          <table className="w-full text-sm">
+            <thead><tr className="text-left text-slate-500 border-b border-slate-200 dark:border-slate-700"><th className="py-2">{t('dashboard.deck')}</th><th className="py-2 text-right">{t('dashboard.reviews')}</th><th className="py-2 text-right">{t('dashboard.deckRetentionColumn')}</th></tr></thead>
+            <tbody>
+              {retention.map(row => (
+                <tr key={row.deckId} className="border-b border-slate-100 dark:border-slate-700/50 last:border-0">
+                  <td className="py-2">{row.title}</td>
+                  <td className="py-2 text-right">{row.reviews}</td>
+                  <td className={`py-2 text-right font-semibold ${row.retention !== null && row.retention < 0.8 ? 'text-red-500' : ''}`}>{formatPercent(row.retention)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LearningDashboard;
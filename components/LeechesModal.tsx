@@ -0,0 +1,76 @@
+// components/LeechesModal.tsx
+'use client';
+
+import { X, Bug, Inbox, Pause, Play, Tag, Sparkles, LoaderCircle } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import type { Card } from '../lib/types';
+import type { DeckLeeches } from '../lib/leeches';
+import type { LeechHelpKind } from '../lib/prompts';
+import { useI18n } from './LocaleProvider';
+
+interface LeechesModalProps {
+  groups: DeckLeeches[];
+  threshold: number;
+  help: {[cardId: string]: { loading: boolean; response: string }};
+  canAskAi: boolean;
+  onToggleSuspend: (deckId: string, card: Card) => void;
+  onUntag: (deckId: string, card: Card) => void;
+  onAskAi: (card: Card, kind: LeechHelpKind) => void;
+  onClose: () => void;
+}
+
+const LeechesModal = ({ groups, threshold, help, canAskAi, onToggleSuspend, onUntag, onAskAi, onClose }: LeechesModalProps) => {
+  const { t } = useI18n();
+  const aiButton = (card: Card, kind: LeechHelpKind) => (
+    <button onClick={() => onAskAi(card, kind)} disabled={!canAskAi || help[card.id]?.loading} className="flex items-center gap-1 text-blue-500 hover:text-blue-400 font-semibold disabled:opacity-50 disabled:cursor-not-allowed">
+      {help[card.id]?.loading ? <LoaderCircle size={14} className="animate-spin" /> : <Sparkles size={14} />}{t(`leeches.${kind}`)}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 z-40 flex justify-center items-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <header className="p-4 border-b border-slate-200 dark:border-slate-700 flex justify-between items-center">
+          <h2 className="text-xl font-bold flex items-center gap-2"><Bug />{t('leeches.title')}</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-600"><X /></button>
+        </header>
+        <main className="p-6 overflow-y-auto flex-grow text-sm">
+          <p className="text-slate-500 mb-4">{threshold > 0 ? t('leeches.intro', { threshold }) : t('leeches.disabled')}</p>
+          {groups.length === 0 ? (
+            <div className="text-center p-6 bg-slate-100 dark:bg-slate-700/50 rounded-lg"><Inbox size={36} className="mx-auto text-slate-400 mb-2" /><p className="text-slate-500">{t('leeches.empty')}</p></div>
+          ) : groups.map(({ deck, cards }) => (
+            <section key={deck.id} className="mb-6 last:mb-0">
+              <h3 className="font-semibold text-blue-600 dark:text-blue-400">{deck.title} <span className="text-xs font-normal text-slate-500">{t('leeches.deckInfo', { count: cards.length })}</span></h3>
+              <ul className="divide-y divide-slate-200 dark:divide-slate-700">
+                {cards.map(card => (
+                  <li key={card.id} className="py-3 space-y-2">
+                    <div className="flex justify-between items-start gap-2">
+                      <div>
+                        <p className="font-semibold">{card.term}{card.suspended && <span className="ml-2 text-xs px-2 rounded-full bg-amber-100 dark:bg-amber-900 text-amber-600 dark:text-amber-300">{t('leeches.suspended')}</span>}</p>
+                        <p className="text-slate-500">{card.meaning}</p>
+                        <p className="text-xs text-red-500">{t('leeches.lapses', { count: card.srs.lapses })}</p>
+                      </div>
+                      <div className="flex gap-2 flex-shrink-0">
+                        <button onClick={() => onToggleSuspend(deck.id, card)} className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-slate-200 dark:bg-slate-700 hover:bg-blue-500 hover:text-white">{card.suspended ? <><Play size={14} />{t('leeches.unsuspend')}</> : <><Pause size={14} />{t('leeches.suspend')}</>}</button>
+                        <button onClick={() => onUntag(deck.id, card)} className="p-2 rounded-lg bg-slate-200 dark:bg-slate-700 hover:bg-blue-500 hover:text-white" title={t('leeches.untag')}><Tag size={14} /></button>
+                      </div>
+                    </div>
+                    <div className="flex gap-4">{aiButton(card, 'mnemonic')}{aiButton(card, 'contrast')}</div>
+                    {help[card.id]?.response && (
+                      <div className="text-xs text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-700/50 p-2 rounded max-h-48 overflow-y-auto">
+                        <article className="prose prose-sm dark:prose-invert max-w-none"><ReactMarkdown remarkPlugins={[remarkGfm]}>{help[card.id].response}</ReactMarkdown></article>
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))}
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default LeechesModal;
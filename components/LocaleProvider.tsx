@@ -0,0 +1,47 @@
+// components/LocaleProvider.tsx
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { DEFAULT_LOCALE, LOCALES, createTranslator, detectLocale, isLocale, type Locale, type Translator } from '../lib/i18n';
+
+interface I18nContextValue { locale: Locale; setLocale: (locale: Locale) => void; t: Translator; }
+
+// The device remembers the last choice so the sign-in screen already uses it; signed-in users also keep it in their study settings.
+const STORAGE_KEY = 'smart-idiom-cards:locale';
+
+const I18nContext = createContext<I18nContextValue>({ locale: DEFAULT_LOCALE, setLocale: () => {}, t: createTranslator(DEFAULT_LOCALE) });
+
+export const useI18n = () => useContext(I18nContext);
+
+const LocaleProvider = ({ children }: { children: React.ReactNode }) => {
+  const [locale, setLocaleState] = useState<Locale>(DEFAULT_LOCALE);
+
+  useEffect(() => {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    setLocaleState(isLocale(saved) ? saved : detectLocale());
+  }, []);
+
+  useEffect(() => { document.documentElement.lang = locale; }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    localStorage.setItem(STORAGE_KEY, next);
+  }, []);
+
+  const value = useMemo<I18nContextValue>(() => ({ locale, setLocale, t: createTranslator(locale) }), [locale, setLocale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+// Picks the UI language; onChange lets the page persist the choice for the signed-in user.
+export const LanguageSwitcher = ({ onChange, className = '' }: { onChange?: (locale: Locale) => void; className?: string }) => {
+  const { locale, setLocale, t } = useI18n();
+  return (
+    <select value={locale} onChange={e => { const next = e.target.value as Locale; setLocale(next); onChange?.(next); }} title={t('app.language')} aria-label={t('app.language')}
+      className={`p-1 text-sm border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 ${className}`}>
+      {LOCALES.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+    </select>
+  );
+};
+
+export default LocaleProvider;
@@ -0,0 +1,38 @@
+// components/ParseReport.tsx
+'use client';
+
+import { useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronUp } from 'lucide-react';
+import { formatDiagnostic, type ParseDiagnostic, type ParseFormat } from '../lib/parsers';
+import { useI18n } from './LocaleProvider';
+
+// 'ai' marks candidates produced by AI generation rather than a note parser.
+export type ReportFormat = ParseFormat | 'ai';
+
+const ParseReport = ({ format, cardCount, diagnostics }: { format: ReportFormat; cardCount: number; diagnostics: ParseDiagnostic[] }) => {
+  const { t } = useI18n();
+  const [expanded, setExpanded] = useState(true);
+  const skipped = diagnostics.filter(d => d.severity === 'skipped');
+  const warnings = diagnostics.filter(d => d.severity === 'warning');
+
+  return (
+    <div className="mb-6 p-4 rounded-lg bg-slate-100 dark:bg-slate-800 text-sm">
+      <div className="flex justify-between items-center gap-2">
+        <p>{t('report.source')}<strong>{t(`parser.${format}`)}</strong> · {t('report.generated', { count: cardCount })} · <span className={skipped.length ? 'text-red-500' : ''}>{t('report.skipped', { count: skipped.length })}</span> · <span className={warnings.length ? 'text-amber-500' : ''}>{t('report.warnings', { count: warnings.length })}</span></p>
+        {diagnostics.length > 0 && <button onClick={() => setExpanded(!expanded)} className="text-slate-500 hover:text-blue-500 flex items-center gap-1">{expanded ? <ChevronUp size={16} /> : <ChevronDown size={16} />}{expanded ? t('report.collapse') : t('report.expand')}</button>}
+      </div>
+      {expanded && diagnostics.length > 0 && (
+        <ul className="mt-3 space-y-1 max-h-48 overflow-y-auto">
+          {diagnostics.map((d, i) => (
+            <li key={i} className="flex items-start gap-2">
+              <AlertTriangle size={14} className={`mt-0.5 flex-shrink-0 ${d.severity === 'skipped' ? 'text-red-500' : 'text-amber-500'}`} />
+              <span>{d.line > 0 && <span className="text-slate-400">{t('report.line', { line: d.line })} </span>}<code className="px-1 rounded bg-slate-200 dark:bg-slate-700">{d.excerpt}</code> {formatDiagnostic(d, t)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ParseReport;
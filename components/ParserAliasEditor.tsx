@@ -0,0 +1,27 @@
+// components/ParserAliasEditor.tsx
+'use client';
+
+import { LABEL_KEYS, type ParserAliases, type ParserLabels } from '../lib/parsers';
+import TagInput from './TagInput';
+import { useI18n } from './LocaleProvider';
+
+// Extra label spellings the note parsers accept, e.g. for notes written in another language than the UI.
+const ParserAliasEditor = ({ aliases, builtIn, onChange }: { aliases: ParserAliases; builtIn: ParserLabels; onChange: (aliases: ParserAliases) => void }) => {
+  const { t } = useI18n();
+  return (
+    <details className="mt-4 text-sm">
+      <summary className="cursor-pointer text-slate-500 hover:text-blue-500">{t('aliases.heading')}</summary>
+      <p className="mt-2 text-slate-500">{t('aliases.hint')}</p>
+      <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-3">
+        {LABEL_KEYS.map(key => (
+          <label key={key} className="block">
+            <span className="block font-semibold mb-1">{t(`aliases.${key}`)}</span>
+            <TagInput tags={aliases[key] ?? []} onChange={tags => onChange({ ...aliases, [key]: tags })} placeholder={t('aliases.builtIn', { labels: builtIn[key].join(' / ') })} className="w-full bg-slate-50"/>
+          </label>
+        ))}
+      </div>
+    </details>
+  );
+};
+
+export default ParserAliasEditor;
@@ -0,0 +1,116 @@
+// components/PrintDeckModal.tsx
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Image from 'next/image';
+import { X, Printer, Download, LoaderCircle } from 'lucide-react';
+import type { Deck } from '../lib/types';
+import { CARDS_PER_PAGE_OPTIONS, DEFAULT_PRINT_OPTIONS, PAGE_HEIGHT, PAGE_WIDTH, PRINT_FIELDS, createPageCanvas, drawPage, exportDeckPdf, layoutPages, printErrorKey, printFileName, type PrintLabels, type PrintLayout, type PrintOptions } from '../lib/printSheets';
+import { downloadBlob } from '../lib/exporters';
+import { useI18n } from './LocaleProvider';
+
+interface PrintDeckModalProps {
+  deck: Deck;
+  onClose: () => void;
+}
+
+// How many pages the preview shows: a front and its back, or the first two list pages.
+const PREVIEW_PAGES = 2;
+
+// Print settings with a live preview of the first sheet; the PDF itself is rendered in the browser.
+const PrintDeckModal = ({ deck, onClose }: PrintDeckModalProps) => {
+  const { t } = useI18n();
+  const [options, setOptions] = useState<PrintOptions>(DEFAULT_PRINT_OPTIONS);
+  const [preview, setPreview] = useState<{ urls: string[]; pageCount: number }>({ urls: [], pageCount: 0 });
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState('');
+
+  const labels = useMemo<PrintLabels>(() => ({
+    term: t('field.term'),
+    fields: { meaning: t('field.meaning'), example: t('field.example'), context: t('field.context'), translation: t('field.translation') },
+    page: (page, total) => t('print.pageNumber', { page, total }),
+  }), [t]);
+
+  useEffect(() => {
+    const canvas = createPageCanvas();
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const pages = layoutPages(deck, options, ctx);
+    const urls = pages.slice(0, PREVIEW_PAGES).map((_, index) => {
+      drawPage(ctx, deck, pages, index, options, labels);
+      return canvas.toDataURL('image/jpeg', 0.6);
+    });
+    setPreview({ urls, pageCount: pages.length });
+  }, [deck, options, labels]);
+
+  const toggleField = (field: PrintOptions['fields'][number]) => setOptions(prev => ({
+    ...prev,
+    fields: prev.fields.includes(field) ? prev.fields.filter(f => f !== field) : PRINT_FIELDS.filter(f => f === field || prev.fields.includes(f)),
+  }));
+
+  const handleDownload = async () => {
+    setError('');
+    setProgress({ done: 0, total: preview.pageCount });
+    try {
+      const pdf = await exportDeckPdf(deck, options, labels, (done, total) => setProgress({ done, total }));
+      downloadBlob(pdf, printFileName(deck, options.layout, t));
+    } catch (err) {
+      console.error("生成 PDF 失败:", err);
+      setError(t(printErrorKey(err)));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const layoutButton = (layout: PrintLayout, label: string) => (
+    <button onClick={() => setOptions(prev => ({ ...prev, layout }))} className={`px-3 py-1 rounded-full transition-colors ${options.layout === layout ? 'bg-white dark:bg-slate-900 shadow' : 'opacity-70'}`}>{label}</button>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 z-40 flex justify-center items-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <header className="p-4 border-b border-slate-200 dark:border-slate-700 flex justify-between items-center">
+          <h2 className="text-xl font-bold flex items-center gap-2"><Printer />{t('print.title', { title: deck.title })}</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-600"><X /></button>
+        </header>
+        <main className="p-6 overflow-y-auto grid md:grid-cols-[16rem_1fr] gap-6 text-sm">
+          <div className="space-y-4">
+            <div className="flex gap-1 rounded-full bg-slate-200 dark:bg-slate-700 p-1 w-fit">
+              {layoutButton('cards', t('print.layoutCards'))}
+              {layoutButton('list', t('print.layoutList'))}
+            </div>
+            {options.layout === 'cards' && (
+              <label className="flex items-center justify-between gap-2">{t('print.cardsPerPage')}
+                <select value={options.cardsPerPage} onChange={e => setOptions(prev => ({ ...prev, cardsPerPage: Number(e.target.value) }))} className="p-1 border border-slate-300 dark:border-slate-600 rounded bg-slate-50 dark:bg-slate-700">
+                  {CARDS_PER_PAGE_OPTIONS.map(count => <option key={count} value={count}>{count}</option>)}
+                </select>
+              </label>
+            )}
+            <fieldset className="space-y-1">
+              <legend className="font-semibold mb-1">{options.layout === 'cards' ? t('print.backFields') : t('print.columns')}</legend>
+              {PRINT_FIELDS.map(field => (
+                <label key={field} className="flex items-center gap-2"><input type="checkbox" checked={options.fields.includes(field)} onChange={() => toggleField(field)} />{t(`field.${field}`)}</label>
+              ))}
+            </fieldset>
+            {options.layout === 'cards' && <p className="text-slate-500">{t('print.duplexHint')}</p>}
+            <p className="text-slate-500">{t('print.pageCount', { count: preview.pageCount })}</p>
+            {error && <p className="text-red-500">{error}</p>}
+          </div>
+          <div className="grid grid-cols-2 gap-3 content-start">
+            {preview.urls.map((url, index) => (
+              <Image key={index} src={url} unoptimized width={PAGE_WIDTH} height={PAGE_HEIGHT} alt={t('print.previewAlt', { page: index + 1 })} className="w-full h-auto border border-slate-200 dark:border-slate-700 rounded shadow" />
+            ))}
+          </div>
+        </main>
+        <footer className="p-4 border-t border-slate-200 dark:border-slate-700 flex justify-end items-center gap-2">
+          {progress && <span className="text-sm text-slate-500">{t('print.progress', { done: progress.done, total: progress.total })}</span>}
+          <button onClick={handleDownload} disabled={progress !== null || deck.cards.length === 0} className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:bg-slate-400">
+            {progress ? <LoaderCircle size={16} className="animate-spin" /> : <Download size={16} />}{t('print.download')}
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default PrintDeckModal;
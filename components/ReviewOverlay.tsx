@@ -0,0 +1,172 @@
+// components/ReviewOverlay.tsx
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { Card, ReviewAnswer, SchedulerId } from '../lib/types';
+import { getScheduler, previewSchedule, formatInterval } from '../lib/scheduler';
+import { buildChoices, checkTypedAnswer, makeCloze, resolveMode, suggestedAnswer, type DiffSegment, type StudyMode, type TypedResult } from '../lib/studyModes';
+import { isLeech } from '../lib/leeches';
+import { useI18n } from './LocaleProvider';
+
+interface ReviewOverlayProps {
+  card: Card;
+  deckTitle: string;
+  scheduler?: SchedulerId;
+  mode: StudyMode;
+  meaningPool: string[];
+  position: number;
+  total: number;
+  isFlipped: boolean;
+  onFlip: () => void;
+  onAnswer: (answer: ReviewAnswer) => void;
+  onUndo?: () => void;       // set when the previous answer can be taken back
+  onBury: () => void;
+  onSuspend: () => void;
+  onClose: () => void;
+}
+
+const DIFF_STYLES: Record<DiffSegment['type'], string> = {
+  same: '',
+  missing: 'bg-green-200 dark:bg-green-800 underline',
+  extra: 'bg-red-200 dark:bg-red-800 line-through',
+};
+
+const ANSWER_KEYS: Record<string, ReviewAnswer> = { '1': 'again', '2': 'good', '3': 'easy' };
+const isTextField = (target: EventTarget | null) => target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement;
+
+const AnswerDiff = ({ result }: { result: TypedResult }) => {
+  const { t } = useI18n();
+  return (
+    <div className="p-2 rounded bg-white dark:bg-slate-800">
+      <p className={`font-semibold ${result.verdict === 'wrong' ? 'text-red-500' : result.verdict === 'close' ? 'text-amber-500' : 'text-green-500'}`}>{t(`review.verdict.${result.verdict}`)}</p>
+      {result.verdict !== 'correct' && <p className="font-mono mt-1">{result.diff.map((segment, i) => <span key={i} className={DIFF_STYLES[segment.type]}>{segment.text}</span>)}</p>}
+    </div>
+  );
+};
+
+// Mounted with a fresh key for each card, so the typed answer and choice reset between cards.
+const ReviewOverlay = ({ card, deckTitle, scheduler, mode, meaningPool, position, total, isFlipped, onFlip, onAnswer, onUndo, onBury, onSuspend, onClose }: ReviewOverlayProps) => {
+  const { t } = useI18n();
+  const [activeMode] = useState(() => resolveMode(mode, card, meaningPool));
+  const [cloze] = useState(() => activeMode === 'cloze' ? makeCloze(card) : null);
+  const [choices] = useState(() => activeMode === 'choice' ? buildChoices(card, meaningPool) : null);
+  const [typed, setTyped] = useState('');
+  const [typedResult, setTypedResult] = useState<TypedResult | null>(null);
+  const [chosen, setChosen] = useState<string | null>(null);
+
+  const now = new Date();
+  const preview = previewSchedule(getScheduler(scheduler), card.srs, now);
+  const suggestion = typedResult ? suggestedAnswer(typedResult.verdict) : chosen !== null ? suggestedAnswer(chosen === card.meaning ? 'correct' : 'wrong') : null;
+  const flipsOnClick = activeMode === 'standard' || activeMode === 'reverse';
+  const cardRef = useRef<HTMLDivElement>(null);
+  const answersRef = useRef<HTMLDivElement>(null);
+
+  // Typed and cloze modes focus their input; otherwise the card takes focus so screen readers announce it.
+  useEffect(() => {
+    if (isFlipped) answersRef.current?.focus();
+    else if (activeMode !== 'typed' && activeMode !== 'cloze') cardRef.current?.focus();
+  }, [isFlipped, activeMode]);
+
+  // Space/Enter flips, 1/2/3 answer, 1–4 pick a multiple-choice option, U undoes, B buries, S suspends, Esc quits.
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') { e.preventDefault(); onClose(); return; }
+      if (isTextField(e.target) || e.altKey || e.ctrlKey || e.metaKey) return;
+      if ((e.key === ' ' || e.key === 'Enter') && e.target instanceof HTMLButtonElement) return;
+      if ((e.key === ' ' || e.key === 'Enter') && !isFlipped && flipsOnClick) { e.preventDefault(); onFlip(); return; }
+      if (isFlipped && ANSWER_KEYS[e.key]) { e.preventDefault(); onAnswer(ANSWER_KEYS[e.key]); return; }
+      if (!isFlipped && choices && chosen === null && /^[1-9]$/.test(e.key) && choices[Number(e.key) - 1]) { e.preventDefault(); choose(choices[Number(e.key) - 1]); return; }
+      if ((e.key === 'u' || e.key === 'U') && onUndo) { e.preventDefault(); onUndo(); return; }
+      if (e.key === 'b' || e.key === 'B') { e.preventDefault(); onBury(); return; }
+      if (e.key === 's' || e.key === 'S') { e.preventDefault(); onSuspend(); }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const submitTyped = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!typed.trim()) return;
+    setTypedResult(checkTypedAnswer(typed, cloze ? cloze.answer : card.term));
+    onFlip();
+  };
+
+  const choose = (choice: string) => {
+    setChosen(choice);
+    onFlip();
+  };
+
+  const answerButton = (answer: ReviewAnswer, color: string, prefix: string, key: string) => {
+    const label = t(`answer.${answer}`);
+    const interval = formatInterval(preview[answer], now, t);
+    return <button onClick={() => onAnswer(answer)} aria-keyshortcuts={key} aria-label={t('review.answerAria', { label, next: prefix, interval, key })} className={`p-4 rounded-lg text-white font-semibold transition-colors ${color} ${suggestion === answer ? 'ring-4 ring-white' : ''}`}><kbd className="hidden sm:inline text-xs opacity-70 mr-1">{key}</kbd>{label}<br/><span className="text-xs font-normal">({prefix}{interval})</span></button>;
+  };
+
+  const front = (() => {
+    switch (activeMode) {
+      case 'reverse':
+        return <div className="text-center space-y-3"><p className="text-2xl font-semibold">{card.meaning}</p>{card.translation && <p className="text-slate-500">{card.translation}</p>}<p className="text-sm text-slate-400">{t('review.recallTerm')}</p></div>;
+      case 'typed':
+      case 'cloze':
+        return (
+          <form onSubmit={submitTyped} className="w-full space-y-4 text-center">
+            {cloze ? <p className="text-xl">{cloze.before}<span className="inline-block min-w-24 border-b-2 border-blue-500 mx-1">&nbsp;</span>{cloze.after}</p> : <p className="text-2xl font-semibold">{card.meaning}</p>}
+            {cloze && <p className="text-sm text-slate-500">{t('review.hint', { meaning: card.meaning })}</p>}
+            <input autoFocus value={typed} onChange={e => setTyped(e.target.value)} disabled={!!typedResult} placeholder={cloze ? t('review.fillBlank') : t('review.typeTerm')} className="w-full p-3 border border-slate-300 dark:border-slate-600 rounded-lg bg-slate-50 dark:bg-slate-700 text-center text-lg"/>
+            <button type="submit" disabled={!typed.trim() || !!typedResult} className="px-4 py-2 rounded-lg bg-blue-600 text-white font-semibold hover:bg-blue-700 disabled:bg-slate-400">{t('review.check')}</button>
+          </form>
+        );
+      case 'choice':
+        return (
+          <div className="w-full space-y-4">
+            <h3 className="text-3xl font-bold text-center">{card.term}</h3>
+            <div className="grid grid-cols-1 gap-2">
+              {choices?.map((choice, i) => <button key={choice} onClick={() => choose(choice)} aria-keyshortcuts={String(i + 1)} disabled={chosen !== null} className="p-3 rounded-lg text-left text-sm bg-slate-100 dark:bg-slate-700 hover:bg-blue-100 dark:hover:bg-slate-600"><span className="text-slate-400 mr-2">{i + 1}.</span>{choice}</button>)}
+            </div>
+          </div>
+        );
+      default:
+        return <h3 className="text-4xl font-bold text-center">{card.term}</h3>;
+    }
+  })();
+
+  return (
+    <div role="dialog" aria-modal="true" aria-label={t('review.dialog', { title: deckTitle })} className="fixed inset-0 bg-slate-900 z-50 flex flex-col items-center justify-center p-4">
+      <div className="text-white absolute top-5 left-5 text-sm flex items-center gap-2">{t('review.deck', { title: deckTitle })}{isLeech(card) && <span className="text-xs px-2 rounded-full bg-amber-500 text-white">{t('review.leech')}</span>}</div>
+      <div className="text-white absolute top-5 right-5 text-sm" aria-live="polite">{t('review.progress', { position, total })}</div>
+      <div ref={cardRef} tabIndex={-1} role={flipsOnClick && !isFlipped ? 'button' : undefined} aria-label={flipsOnClick && !isFlipped ? t('review.flip') : undefined}
+        className="w-full max-w-2xl h-96 perspective-1000 outline-none focus-visible:ring-4 focus-visible:ring-blue-400 rounded-2xl" onClick={flipsOnClick ? onFlip : undefined}>
+        <div className={`w-full h-full relative transform-style-3d transition-transform duration-700 ${isFlipped ? 'rotate-y-180' : ''}`}>
+          <div aria-hidden={isFlipped} className="absolute w-full h-full backface-hidden bg-white dark:bg-slate-800 rounded-2xl flex justify-center items-center p-8 overflow-y-auto">{front}</div>
+          <div aria-hidden={!isFlipped} aria-live="polite" className="absolute w-full h-full backface-hidden bg-slate-100 dark:bg-slate-700 rounded-2xl p-6 overflow-y-auto transform rotate-y-180 text-sm">
+            <div className="space-y-3">
+              {activeMode !== 'standard' && <h3 className="text-2xl font-bold">{card.term}</h3>}
+              {typedResult && <AnswerDiff result={typedResult} />}
+              {chosen !== null && <p className={`font-semibold ${chosen === card.meaning ? 'text-green-500' : 'text-red-500'}`}>{chosen === card.meaning ? t('review.choiceCorrect') : t('review.choiceWrong', { choice: chosen })}</p>}
+              <p><strong className="font-semibold">{t('field.meaning')}:</strong> {card.meaning}</p>
+              {card.example && <p className="bg-slate-200 dark:bg-slate-600 p-2 rounded"><strong className="font-semibold">{t('field.example')}:</strong> <em className="italic">{card.example}</em></p>}
+              {card.context && <p><strong className="font-semibold">{t('field.context')}:</strong> {card.context}</p>}
+              {card.translation && <p><strong className="font-semibold">{t('field.translation')}:</strong> {card.translation}</p>}
+            </div>
+          </div>
+        </div>
+      </div>
+      {isFlipped && (
+        <div ref={answersRef} tabIndex={-1} role="group" aria-label={t('review.howWell')} className="mt-8 grid grid-cols-3 gap-4 w-full max-w-2xl animate-fade-in outline-none">
+          {answerButton('again', 'bg-red-500 hover:bg-red-600', '', '1')}
+          {answerButton('good', 'bg-blue-500 hover:bg-blue-600', t('review.next'), '2')}
+          {answerButton('easy', 'bg-green-500 hover:bg-green-600', t('review.next'), '3')}
+        </div>
+      )}
+      <div className="absolute bottom-5 left-5 flex gap-4 text-sm">
+        {onUndo && <button onClick={onUndo} aria-keyshortcuts="U" className="text-slate-400 hover:text-white transition-colors">{t('review.undo')}</button>}
+        <button onClick={onBury} aria-keyshortcuts="B" className="text-slate-400 hover:text-white transition-colors">{t('review.bury')}</button>
+        <button onClick={onSuspend} aria-keyshortcuts="S" className="text-slate-400 hover:text-white transition-colors">{t('review.suspend')}</button>
+      </div>
+      <button onClick={onClose} aria-keyshortcuts="Escape" className="absolute bottom-5 text-slate-400 hover:text-white transition-colors">{t('review.end')}</button>
+      <p className="absolute bottom-5 right-5 hidden sm:block text-xs text-slate-500">{t('review.shortcuts')}</p>
+    </div>
+  );
+};
+
+export default ReviewOverlay;
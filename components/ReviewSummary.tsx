@@ -0,0 +1,115 @@
+// components/ReviewSummary.tsx
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { RotateCcw, Repeat } from 'lucide-react';
+import { formatDuration, type SessionSummary } from '../lib/analytics';
+import { useI18n } from './LocaleProvider';
+
+interface ReviewSummaryProps {
+  summary: SessionSummary;
+  deckTitles: { [deckId: string]: string };
+  onRedrill: () => void;
+  onUndo?: () => void;
+  onClose: () => void;
+}
+
+const ANSWER_ROWS = [
+  { answer: 'again', color: 'bg-red-500' },
+  { answer: 'good', color: 'bg-blue-500' },
+  { answer: 'easy', color: 'bg-green-500' },
+] as const;
+
+const formatPercent = (value: number | null) => value === null ? '—' : `${Math.round(value * 100)}%`;
+
+// Shown when a review session ends or is quit early. R re-drills the 忘记了 cards, U undoes, Esc/Enter closes.
+const ReviewSummary = ({ summary, deckTitles, onRedrill, onUndo, onClose }: ReviewSummaryProps) => {
+  const { t } = useI18n();
+  const closeRef = useRef<HTMLButtonElement>(null);
+  const canRedrill = summary.againCards.length > 0;
+
+  useEffect(() => { closeRef.current?.focus(); }, []);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.altKey || e.ctrlKey || e.metaKey) return;
+      if (e.key === 'Escape') { e.preventDefault(); onClose(); }
+      else if ((e.key === 'r' || e.key === 'R') && canRedrill) { e.preventDefault(); onRedrill(); }
+      else if ((e.key === 'u' || e.key === 'U') && onUndo) { e.preventDefault(); onUndo(); }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const stats = [
+    { label: t('summary.reviewed'), value: `${summary.reviewed}` },
+    { label: t('summary.cards'), value: `${summary.cards}` },
+    { label: t('summary.accuracy'), value: formatPercent(summary.accuracy) },
+    { label: t('summary.average'), value: summary.averageMs === null ? '—' : formatDuration(summary.averageMs, t) },
+  ];
+
+  return (
+    <div role="dialog" aria-modal="true" aria-labelledby="review-summary-title" className="fixed inset-0 bg-slate-900 z-50 flex justify-center items-center p-4 overflow-y-auto">
+      <div className="bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 rounded-2xl shadow-2xl w-full max-w-2xl p-6 space-y-6">
+        <header>
+          <h2 id="review-summary-title" className="text-2xl font-bold">{t('summary.title')}</h2>
+          <p className="text-sm text-slate-500 mt-1">{t('summary.time', { duration: formatDuration(summary.totalMs, t) })}</p>
+        </header>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {stats.map(stat => (
+            <div key={stat.label} className="p-3 rounded-lg bg-slate-100 dark:bg-slate-700 text-center">
+              <p className="text-2xl font-bold">{stat.value}</p>
+              <p className="text-xs text-slate-500">{stat.label}</p>
+            </div>
+          ))}
+        </div>
+
+        <section aria-label={t('summary.answers')} className="space-y-2">
+          {ANSWER_ROWS.map(({ answer, color }) => {
+            const count = summary.answers[answer];
+            const share = summary.reviewed > 0 ? count / summary.reviewed : 0;
+            return (
+              <div key={answer} className="flex items-center gap-3 text-sm">
+                <span className="w-14 flex-shrink-0">{t(`answer.${answer}`)}</span>
+                <div className="flex-grow h-3 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden"><div className={`h-full ${color}`} style={{ width: `${share * 100}%` }} /></div>
+                <span className="w-20 text-right text-slate-500">{count} ({formatPercent(summary.reviewed > 0 ? share : null)})</span>
+              </div>
+            );
+          })}
+        </section>
+
+        {summary.hardest.length > 0 && (
+          <section>
+            <h3 className="font-semibold mb-2">{t('summary.hardest')}</h3>
+            <ul className="divide-y divide-slate-200 dark:divide-slate-700 text-sm">
+              {summary.hardest.map(({ deckId, card, again, timeMs }) => (
+                <li key={`${deckId}-${card.id}`} className="py-2 flex justify-between gap-2">
+                  <span><span className="font-semibold">{card.term}</span> <span className="text-xs text-slate-400">{t('common.deckName', { title: deckTitles[deckId] ?? '' })}</span></span>
+                  <span className="text-slate-500 flex-shrink-0">{t('summary.forgot', { count: again, duration: formatDuration(timeMs, t) })}</span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {summary.nextDue.length > 0 && (
+          <section>
+            <h3 className="font-semibold mb-2">{t('summary.nextDue')}</h3>
+            <div className="flex flex-wrap gap-2 text-sm">
+              {summary.nextDue.map(({ bucket, count }) => <span key={bucket} className="px-3 py-1 rounded-full bg-slate-100 dark:bg-slate-700">{t('summary.bucket', { name: t(`summary.bucket.${bucket}`), count })}</span>)}
+            </div>
+          </section>
+        )}
+
+        <footer className="flex flex-wrap justify-end gap-2 pt-2 border-t border-slate-200 dark:border-slate-700">
+          {onUndo && <button onClick={onUndo} aria-keyshortcuts="U" className="flex items-center gap-1 px-4 py-2 rounded-lg bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600"><RotateCcw size={16} />{t('summary.undo')}</button>}
+          {canRedrill && <button onClick={onRedrill} aria-keyshortcuts="R" className="flex items-center gap-1 px-4 py-2 rounded-lg bg-red-500 text-white hover:bg-red-600"><Repeat size={16} />{t('summary.redrill', { count: summary.againCards.length })}</button>}
+          <button ref={closeRef} onClick={onClose} aria-keyshortcuts="Escape" className="px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700">{t('summary.done')}</button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewSummary;
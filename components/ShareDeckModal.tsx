@@ -0,0 +1,62 @@
+// components/ShareDeckModal.tsx
+'use client';
+
+import { useState } from 'react';
+import { X, Link2, Copy, Check, RefreshCw, LoaderCircle } from 'lucide-react';
+import type { Deck } from '../lib/types';
+import { shareUrl } from '../lib/sharing';
+import { useI18n } from './LocaleProvider';
+
+interface ShareDeckModalProps {
+  deck: Deck;
+  isBusy: boolean;
+  onPublish: () => void;
+  onUnpublish: () => void;
+  onClose: () => void;
+}
+
+const ShareDeckModal = ({ deck, isBusy, onPublish, onUnpublish, onClose }: ShareDeckModalProps) => {
+  const { t } = useI18n();
+  const [copied, setCopied] = useState(false);
+  const url = deck.shareId ? shareUrl(deck.shareId) : '';
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch (err) {
+      console.error("复制链接失败:", err);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 z-40 flex justify-center items-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-lg" onClick={e => e.stopPropagation()}>
+        <header className="p-4 border-b border-slate-200 dark:border-slate-700 flex justify-between items-center">
+          <h2 className="text-xl font-bold flex items-center gap-2"><Link2 />{t('share.title', { title: deck.title })}</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-600"><X /></button>
+        </header>
+        <main className="p-6 space-y-4 text-sm">
+          {deck.shareId ? (
+            <>
+              <p className="text-slate-500">{t('share.publicInfo')}</p>
+              <div className="flex gap-2">
+                <input readOnly value={url} onFocus={e => e.target.select()} className="flex-grow p-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-slate-50 dark:bg-slate-700"/>
+                <button onClick={copyLink} className="flex items-center gap-1 px-3 py-2 rounded-lg bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600">{copied ? <Check size={16} /> : <Copy size={16} />}{copied ? t('share.copied') : t('share.copy')}</button>
+              </div>
+            </>
+          ) : (
+            <p className="text-slate-500">{t('share.privateInfo')}</p>
+          )}
+        </main>
+        <footer className="p-4 border-t border-slate-200 dark:border-slate-700 flex justify-end gap-2">
+          {isBusy && <LoaderCircle size={20} className="animate-spin text-blue-500 self-center" />}
+          {deck.shareId && <button onClick={onUnpublish} disabled={isBusy} className="px-4 py-2 rounded-lg bg-red-500 text-white hover:bg-red-600 disabled:bg-slate-400">{t('share.unpublish')}</button>}
+          <button onClick={onPublish} disabled={isBusy} className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:bg-slate-400">{deck.shareId ? <><RefreshCw size={16} />{t('share.update')}</> : t('share.publish')}</button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default ShareDeckModal;
@@ -0,0 +1,29 @@
+// components/SyncIndicator.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Cloud, CloudOff, RefreshCw, AlertTriangle } from 'lucide-react';
+import { subscribeSyncStatus, type SyncStatus } from '../lib/sync';
+import { formatDateTime } from '../lib/i18n';
+import { useI18n } from './LocaleProvider';
+
+const SyncIndicator = () => {
+  const { locale, t } = useI18n();
+  const [status, setStatus] = useState<SyncStatus | null>(null);
+  useEffect(() => subscribeSyncStatus(setStatus), []);
+  if (!status) return null;
+
+  const Icon = status.state === 'synced' ? Cloud : status.state === 'syncing' ? RefreshCw : status.state === 'offline' ? CloudOff : AlertTriangle;
+  const color = status.state === 'synced' ? 'text-green-500' : status.state === 'error' ? 'text-red-500' : 'text-amber-500';
+  const label = t(`sync.${status.state}`);
+  const title = status.lastSyncedAt ? t('sync.lastSynced', { time: formatDateTime(locale, new Date(status.lastSyncedAt)) }) : label;
+
+  return (
+    <span title={title} className={`flex items-center gap-1 text-xs ${color}`}>
+      <Icon size={14} className={status.state === 'syncing' ? 'animate-spin' : ''} />
+      <span className="hidden sm:inline">{label}{status.pending > 0 && t('sync.pending', { count: status.pending })}</span>
+    </span>
+  );
+};
+
+export default SyncIndicator;
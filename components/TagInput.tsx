@@ -0,0 +1,27 @@
+// components/TagInput.tsx
+'use client';
+
+import { useEffect, useState } from 'react';
+import { formatTags, parseTags } from '../lib/search';
+import { useI18n } from './LocaleProvider';
+
+// Comma-separated tag field; the parsed tags are committed on blur or Enter so typing a comma isn't swallowed.
+const TagInput = ({ tags, onChange, placeholder, className = '' }: { tags: string[]; onChange: (tags: string[]) => void; placeholder?: string; className?: string }) => {
+  const { t } = useI18n();
+  const committed = formatTags(tags);
+  const [text, setText] = useState(committed);
+  useEffect(() => { setText(committed); }, [committed]);
+
+  const commit = () => {
+    const parsed = parseTags(text);
+    setText(formatTags(parsed));
+    if (formatTags(parsed) !== committed) onChange(parsed);
+  };
+
+  return (
+    <input type="text" value={text} placeholder={placeholder ?? t('tags.placeholder')} onChange={e => setText(e.target.value)} onBlur={commit} onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); commit(); } }}
+      className={`p-2 text-sm border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 ${className}`}/>
+  );
+};
+
+export default TagInput;
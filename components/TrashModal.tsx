@@ -0,0 +1,62 @@
+// components/TrashModal.tsx
+'use client';
+
+import { X, Trash2, RotateCcw, Inbox } from 'lucide-react';
+import type { Deck } from '../lib/types';
+import { deckCardCount } from '../lib/cards';
+import { TRASH_RETENTION_DAYS, trashDaysLeft } from '../lib/trash';
+import { useI18n } from './LocaleProvider';
+
+interface TrashModalProps {
+  decks: Deck[];
+  onRestore: (deck: Deck) => void;
+  onPurge: (decks: Deck[]) => void;
+  onClose: () => void;
+}
+
+const TrashModal = ({ decks, onRestore, onPurge, onClose }: TrashModalProps) => {
+  const { t } = useI18n();
+  const purge = (targets: Deck[]) => {
+    const message = targets.length === 1 ? t('trash.confirmOne', { title: targets[0].title }) : t('trash.confirmAll', { count: targets.length });
+    if (window.confirm(message)) onPurge(targets);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 z-40 flex justify-center items-center p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <header className="p-4 border-b border-slate-200 dark:border-slate-700 flex justify-between items-center">
+          <h2 className="text-xl font-bold flex items-center gap-2"><Trash2 />{t('trash.title')}</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-200 dark:hover:bg-slate-600"><X /></button>
+        </header>
+        <main className="p-6 overflow-y-auto flex-grow text-sm">
+          <p className="text-slate-500 mb-4">{t('trash.retention', { days: TRASH_RETENTION_DAYS })}</p>
+          {decks.length === 0 ? (
+            <div className="text-center p-6 bg-slate-100 dark:bg-slate-700/50 rounded-lg"><Inbox size={36} className="mx-auto text-slate-400 mb-2" /><p className="text-slate-500">{t('trash.empty')}</p></div>
+          ) : (
+            <ul className="divide-y divide-slate-200 dark:divide-slate-700">
+              {decks.map(deck => (
+                <li key={deck.id} className="py-3 flex justify-between items-center gap-2">
+                  <div>
+                    <p className="font-semibold">{deck.title}</p>
+                    <p className="text-xs text-slate-500">{t('trash.deckInfo', { count: deckCardCount(deck), days: trashDaysLeft(deck) })}</p>
+                  </div>
+                  <div className="flex gap-2">
+                    <button onClick={() => onRestore(deck)} className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-blue-600 text-white hover:bg-blue-700"><RotateCcw size={14} />{t('trash.restore')}</button>
+                    <button onClick={() => purge([deck])} className="p-2 rounded-lg bg-slate-200 dark:bg-slate-700 hover:bg-red-500 hover:text-white" title={t('trash.purge')}><Trash2 size={14} /></button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </main>
+        {decks.length > 0 && (
+          <footer className="p-4 border-t border-slate-200 dark:border-slate-700 flex justify-end">
+            <button onClick={() => purge(decks)} className="px-4 py-2 rounded-lg bg-red-500 text-white hover:bg-red-600">{t('trash.emptyTrash')}</button>
+          </footer>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TrashModal;
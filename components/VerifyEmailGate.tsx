@@ -0,0 +1,68 @@
+// components/VerifyEmailGate.tsx
+'use client';
+
+import { useState } from 'react';
+import { sendEmailVerification, type User } from 'firebase/auth';
+import { LoaderCircle, MailCheck } from 'lucide-react';
+import { authErrorKey } from '../lib/account';
+import { LanguageSwitcher, useI18n } from './LocaleProvider';
+
+interface VerifyEmailGateProps {
+  user: User;
+  onVerified: () => void;
+  onSignOut: () => void;
+}
+
+// Shown instead of the app until an email/password account has confirmed its address.
+const VerifyEmailGate = ({ user, onVerified, onSignOut }: VerifyEmailGateProps) => {
+  const { t } = useI18n();
+  const [busy, setBusy] = useState<'resend' | 'check' | null>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const handleResend = async () => {
+    setBusy('resend');
+    try {
+      await sendEmailVerification(user);
+      setMessage({ text: t('verify.sent', { email: user.email ?? '' }), isError: false });
+    } catch (err) {
+      console.error("发送验证邮件失败:", err);
+      setMessage({ text: t(authErrorKey(err)), isError: true });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // The emailVerified flag only changes after the user object is reloaded from Firebase.
+  const handleCheck = async () => {
+    setBusy('check');
+    try {
+      await user.reload();
+      if (user.emailVerified) onVerified();
+      else setMessage({ text: t('verify.notYet'), isError: true });
+    } catch (err) {
+      console.error("刷新验证状态失败:", err);
+      setMessage({ text: t(authErrorKey(err)), isError: true });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="flex justify-center items-center min-h-screen bg-slate-100 dark:bg-slate-900 text-slate-800 dark:text-slate-200">
+      <div className="w-full max-w-md p-8 bg-white dark:bg-slate-800 rounded-2xl shadow-xl text-center">
+        <div className="flex justify-end mb-2"><LanguageSwitcher /></div>
+        <MailCheck size={48} className="mx-auto text-blue-500 mb-4" />
+        <h2 className="text-2xl font-bold mb-2">{t('verify.title')}</h2>
+        <p className="text-sm text-slate-500 mb-6">{t('verify.body', { email: user.email ?? '' })}</p>
+        {message && <p className={`text-sm mb-4 ${message.isError ? 'text-red-500' : 'text-green-600 dark:text-green-400'}`} role="status">{message.text}</p>}
+        <div className="space-y-3">
+          <button onClick={handleCheck} disabled={busy !== null} className="w-full bg-blue-600 text-white font-semibold py-3 px-4 rounded-lg hover:bg-blue-700 disabled:bg-slate-400 flex justify-center items-center">{busy === 'check' ? <LoaderCircle className="animate-spin" /> : t('verify.done')}</button>
+          <button onClick={handleResend} disabled={busy !== null} className="w-full py-3 px-4 rounded-lg border border-slate-300 dark:border-slate-600 font-semibold hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-50 flex justify-center items-center">{busy === 'resend' ? <LoaderCircle className="animate-spin" /> : t('verify.resend')}</button>
+        </div>
+        <button onClick={onSignOut} className="mt-6 text-sm text-slate-500 hover:underline">{t('app.signOut')}</button>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmailGate;
@@ -2,8 +2,8 @@
 
 // 从你需要的SDK中导入你需要的函数
 import { initializeApp, getApps } from "firebase/app";
-import { getFirestore } from "firebase/firestore";
-import { getAuth } from "firebase/auth";
+import { getFirestore, connectFirestoreEmulator } from "firebase/firestore";
+import { getAuth, connectAuthEmulator } from "firebase/auth";
 
 // 你的Web应用的Firebase配置
 // TODO: 将此处替换为你自己的FIREBASE配置
@@ -20,7 +20,8 @@ const firebaseConfig = {
 // 初始化Firebase
 let app;
 // 检查Firebase应用是否已经被初始化，防止重复初始化
-if (!getApps().length) {
+const isFirstInit = !getApps().length;
+if (isFirstInit) {
   app = initializeApp(firebaseConfig);
 } else {
   app = getApps()[0];
@@ -29,5 +30,11 @@ if (!getApps().length) {
 const db = getFirestore(app);
 const auth = getAuth(app);
 
+// 本地开发时连接 Firebase 模拟器（见 firebase.json 和 README），每个应用实例只能连接一次
+if (isFirstInit && process.env.NEXT_PUBLIC_FIREBASE_EMULATORS === "true") {
+  connectAuthEmulator(auth, "http://127.0.0.1:9099", { disableWarnings: true });
+  connectFirestoreEmulator(db, "127.0.0.1", 8080);
+}
+
 // 导出db和auth，以便在应用的其他地方使用
 export { db, auth };
\ No newline at end of file
@@ -0,0 +1,141 @@
+// Security rule tests for decks and deck sharing. They need the Firestore emulator: `npm run test:emulators`
+// starts it, runs this file and stops it. Without FIRESTORE_EMULATOR_HOST they are skipped.
+import { readFileSync } from 'node:fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import { assertFails, assertSucceeds, initializeTestEnvironment, type RulesTestContext, type RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { collection, deleteDoc, doc, getDoc, getDocs, query, setDoc, updateDoc, where, writeBatch, type Firestore } from 'firebase/firestore';
+
+const card = { term: '画龙点睛', meaning: '比喻关键处的点拨', example: '', context: '', translation: '' };
+const sharedDeck = (ownerId: string, deckId = 'deck-1') => ({ deckId, ownerId, title: '成语', cardCount: 1, publishedAt: new Date() });
+// The test contexts hand out compat instances; the modular functions unwrap them.
+const firestoreOf = (context: RulesTestContext) => context.firestore() as unknown as Firestore;
+
+describe.skipIf(!process.env.FIRESTORE_EMULATOR_HOST)('sharedDecks rules', () => {
+  let env: RulesTestEnvironment;
+  const as = (uid: string | null) => firestoreOf(uid ? env.authenticatedContext(uid) : env.unauthenticatedContext());
+
+  // Mirrors publishDeck: the cards, then the shared document, then the deck's shareId.
+  const publish = (db: Firestore, ownerId: string, shareId = 'share-1', deckId = 'deck-1') => {
+    const batch = writeBatch(db);
+    batch.set(doc(db, 'sharedDecks', shareId, 'cards', 'card-1'), { ...card, position: 0, ownerId });
+    batch.set(doc(db, 'sharedDecks', shareId), sharedDeck(ownerId, deckId));
+    batch.update(doc(db, 'decks', deckId), { shareId });
+    return batch.commit();
+  };
+
+  const seed = (write: (db: Firestore) => Promise<unknown>) => env.withSecurityRulesDisabled(context => write(firestoreOf(context)).then(() => undefined));
+  const seedPublished = () => seed(db => publish(db, 'alice'));
+
+  beforeAll(async () => {
+    env = await initializeTestEnvironment({ projectId: 'demo-smart-idiom-cards', firestore: { rules: readFileSync('firestore.rules', 'utf8') } });
+  });
+  afterAll(() => env.cleanup());
+  beforeEach(async () => {
+    await env.clearFirestore();
+    await seed(db => setDoc(doc(db, 'decks', 'deck-1'), { title: '成语', ownerId: 'alice', createdAt: new Date() }));
+  });
+
+  describe('publish', () => {
+    it('lets the owner publish their deck', async () => {
+      await assertSucceeds(publish(as('alice'), 'alice'));
+    });
+
+    it('refuses to publish somebody else\'s deck', async () => {
+      await assertFails(setDoc(doc(as('bob'), 'sharedDecks', 'share-1'), sharedDeck('bob')));
+      await assertFails(setDoc(doc(as('bob'), 'sharedDecks', 'share-1'), sharedDeck('alice')));
+      await assertFails(setDoc(doc(as(null), 'sharedDecks', 'share-1'), sharedDeck('alice')));
+    });
+
+    it('lets the owner refresh a share but not repoint it at another deck', async () => {
+      await seedPublished();
+      await assertSucceeds(updateDoc(doc(as('alice'), 'sharedDecks', 'share-1'), { title: '新标题', cardCount: 2 }));
+      await assertFails(updateDoc(doc(as('alice'), 'sharedDecks', 'share-1'), { deckId: 'deck-2' }));
+      await assertFails(updateDoc(doc(as('bob'), 'sharedDecks', 'share-1'), { title: '新标题' }));
+    });
+  });
+
+  describe('reading', () => {
+    beforeEach(seedPublished);
+
+    it('serves a published deck and its cards to anyone with the link', async () => {
+      await assertSucceeds(getDoc(doc(as(null), 'sharedDecks', 'share-1')));
+      await assertSucceeds(getDocs(collection(as(null), 'sharedDecks', 'share-1', 'cards')));
+      await assertSucceeds(getDoc(doc(as('bob'), 'sharedDecks', 'share-1')));
+    });
+
+    it('lets only the owner list shared decks', async () => {
+      await assertFails(getDocs(collection(as(null), 'sharedDecks')));
+      await assertFails(getDocs(collection(as('bob'), 'sharedDecks')));
+      await assertFails(getDocs(query(collection(as('bob'), 'sharedDecks'), where('ownerId', '==', 'alice'))));
+      await assertSucceeds(getDocs(query(collection(as('alice'), 'sharedDecks'), where('ownerId', '==', 'alice'))));
+    });
+
+    it('keeps the private deck private', async () => {
+      await assertFails(getDoc(doc(as(null), 'decks', 'deck-1')));
+      await assertFails(getDoc(doc(as('bob'), 'decks', 'deck-1')));
+    });
+  });
+
+  describe('unpublish', () => {
+    beforeEach(seedPublished);
+
+    it('lets only the owner delete the shared deck', async () => {
+      await assertFails(deleteDoc(doc(as('bob'), 'sharedDecks', 'share-1')));
+      await assertFails(deleteDoc(doc(as(null), 'sharedDecks', 'share-1')));
+      await assertSucceeds(deleteDoc(doc(as('alice'), 'sharedDecks', 'share-1')));
+    });
+
+    it('hides the cards once the shared deck is gone but lets the owner clean them up', async () => {
+      await deleteDoc(doc(as('alice'), 'sharedDecks', 'share-1'));
+      await assertFails(getDoc(doc(as(null), 'sharedDecks', 'share-1')));
+      await assertFails(getDocs(collection(as(null), 'sharedDecks', 'share-1', 'cards')));
+      await assertFails(deleteDoc(doc(as('bob'), 'sharedDecks', 'share-1', 'cards', 'card-1')));
+      const cards = await assertSucceeds(getDocs(query(collection(as('alice'), 'sharedDecks', 'share-1', 'cards'), where('ownerId', '==', 'alice'))));
+      await assertSucceeds(deleteDoc(cards.docs[0].ref));
+    });
+  });
+
+  describe('decks', () => {
+    it('lets the owner update their deck but not hand it to another user', async () => {
+      await assertSucceeds(updateDoc(doc(as('alice'), 'decks', 'deck-1'), { title: '新标题' }));
+      await assertFails(updateDoc(doc(as('alice'), 'decks', 'deck-1'), { ownerId: 'bob' }));
+      await assertFails(updateDoc(doc(as('bob'), 'decks', 'deck-1'), { title: '新标题' }));
+    });
+  });
+
+  describe('clone', () => {
+    beforeEach(seedPublished);
+
+    it('lets a viewer copy the shared cards into a deck of their own', async () => {
+      const bob = as('bob');
+      const shared = await assertSucceeds(getDocs(collection(bob, 'sharedDecks', 'share-1', 'cards')));
+      const batch = writeBatch(bob);
+      shared.docs.forEach(cardDoc => batch.set(doc(bob, 'decks', 'deck-2', 'cards', cardDoc.id), { ...card, position: 0, ownerId: 'bob' }));
+      batch.set(doc(bob, 'decks', 'deck-2'), { title: '成语', ownerId: 'bob', createdAt: new Date() });
+      await assertSucceeds(batch.commit());
+    });
+
+    it('refuses a copy owned by somebody else', async () => {
+      await assertFails(setDoc(doc(as('bob'), 'decks', 'deck-2'), { title: '成语', ownerId: 'alice', createdAt: new Date() }));
+      await assertFails(setDoc(doc(as(null), 'decks', 'deck-2'), { title: '成语', ownerId: 'alice', createdAt: new Date() }));
+    });
+  });
+
+  describe('shared cards', () => {
+    it('lets the owner write cards before the shared deck exists', async () => {
+      await assertSucceeds(setDoc(doc(as('alice'), 'sharedDecks', 'share-1', 'cards', 'card-1'), { ...card, position: 0, ownerId: 'alice' }));
+    });
+
+    it('refuses cards added to somebody else\'s shared deck', async () => {
+      await seedPublished();
+      await assertFails(setDoc(doc(as('bob'), 'sharedDecks', 'share-1', 'cards', 'card-2'), { ...card, position: 1, ownerId: 'bob' }));
+      await assertFails(setDoc(doc(as('bob'), 'sharedDecks', 'share-1', 'cards', 'card-2'), { ...card, position: 1, ownerId: 'alice' }));
+      await assertSucceeds(setDoc(doc(as('alice'), 'sharedDecks', 'share-1', 'cards', 'card-2'), { ...card, position: 1, ownerId: 'alice' }));
+    });
+
+    it('refuses cards written in somebody else\'s name', async () => {
+      await assertFails(setDoc(doc(as('bob'), 'sharedDecks', 'share-2', 'cards', 'card-1'), { ...card, position: 0, ownerId: 'alice' }));
+      await assertFails(setDoc(doc(as(null), 'sharedDecks', 'share-2', 'cards', 'card-1'), { ...card, position: 0, ownerId: 'alice' }));
+    });
+  });
+});
@@ -0,0 +1,88 @@
+// lib/account.ts
+// Account lifecycle helpers: translated auth errors, the email-verification check, the full data
+// export and account deletion. Everything here talks to Firestore directly and needs a connection.
+import type { User } from 'firebase/auth';
+import type { MessageKey } from './i18n';
+import { fetchDecks, deleteDeck } from './deckStore';
+import { fetchReviewLog, deleteReviewLog } from './reviewLog';
+import { fetchProfile, deleteProfile, DEFAULT_PROFILE } from './profile';
+import { loadStudySettings } from './settings';
+import { deleteAllSharedDecks } from './sharing';
+import { exportDecksToJson } from './exporters';
+import { clearLocalData, toStoredReviewLog } from './localStore';
+import { flushQueue } from './sync';
+
+// --- Errors ---
+const AUTH_ERROR_KEYS: Record<string, MessageKey> = {
+  'auth/invalid-email': 'authError.invalidEmail',
+  'auth/missing-email': 'authError.invalidEmail',
+  'auth/user-not-found': 'authError.wrongCredentials',
+  'auth/wrong-password': 'authError.wrongCredentials',
+  'auth/invalid-credential': 'authError.wrongCredentials',
+  'auth/invalid-login-credentials': 'authError.wrongCredentials',
+  'auth/user-disabled': 'authError.userDisabled',
+  'auth/email-already-in-use': 'authError.emailInUse',
+  'auth/weak-password': 'authError.weakPassword',
+  'auth/missing-password': 'authError.missingPassword',
+  'auth/too-many-requests': 'authError.tooManyRequests',
+  'auth/network-request-failed': 'authError.network',
+  'auth/popup-closed-by-user': 'authError.popupClosed',
+  'auth/cancelled-popup-request': 'authError.popupClosed',
+  'auth/popup-blocked': 'authError.popupBlocked',
+  'auth/account-exists-with-different-credential': 'authError.differentCredential',
+  'auth/requires-recent-login': 'authError.recentLogin',
+  'auth/user-mismatch': 'authError.userMismatch',
+};
+
+// Firebase's own messages are English-only and mention SDK internals, so only the code is used.
+export const authErrorKey = (err: unknown): MessageKey => AUTH_ERROR_KEYS[(err as { code?: string })?.code ?? ''] ?? 'authError.unknown';
+
+// --- Verification ---
+const usesPassword = (user: User) => user.providerData.some(provider => provider.providerId === 'password');
+
+// Google accounts arrive verified; only email/password sign-ups have to confirm their address.
+export const needsEmailVerification = (user: User) => usesPassword(user) && !user.emailVerified;
+
+export const signInMethod = (user: User): 'password' | 'google' => usesPassword(user) ? 'password' : 'google';
+
+// --- Export ---
+export const ACCOUNT_ARCHIVE_VERSION = 1;
+
+// One zip with every deck (trash included) in the importable backup format, the full review
+// history and the user's settings. Pending offline writes are flushed first so nothing is missing.
+export const exportAccountArchive = async (ownerId: string): Promise<Blob> => {
+  await flushQueue(ownerId);
+  const [decks, reviewLog, profile, JSZip] = await Promise.all([
+    fetchDecks(ownerId),
+    fetchReviewLog(ownerId, new Date(0)),
+    fetchProfile(ownerId),
+    import('jszip').then(module => module.default),
+  ]);
+  const zip = new JSZip();
+  zip.file('decks.json', exportDecksToJson(decks));
+  zip.file('review-log.json', JSON.stringify(reviewLog.map(toStoredReviewLog), null, 2));
+  zip.file('settings.json', JSON.stringify({ version: ACCOUNT_ARCHIVE_VERSION, exportedAt: Date.now(), profile: profile ?? DEFAULT_PROFILE, studySettings: loadStudySettings(ownerId) }, null, 2));
+  return zip.generateAsync({ type: 'blob' });
+};
+
+export const accountArchiveName = (now = new Date()) => `smart-idiom-cards-${now.toISOString().slice(0, 10)}.zip`;
+
+// --- Deletion ---
+const clearStoredPreferences = (ownerId: string) => {
+  Object.keys(localStorage).filter(key => key.startsWith('smart-idiom-cards:') && key.endsWith(`:${ownerId}`)).forEach(key => localStorage.removeItem(key));
+};
+
+// Deletes every document the user owns and then the account itself. The data goes first because
+// the security rules stop the client from touching it once the account is gone; the caller must
+// have re-authenticated just before, or deleteUser fails with auth/requires-recent-login.
+export const deleteAccount = async (user: User) => {
+  const ownerId = user.uid;
+  await clearLocalData(ownerId);
+  await deleteAllSharedDecks(ownerId);
+  const decks = await fetchDecks(ownerId);
+  for (const deck of decks) await deleteDeck(deck.id);
+  await deleteReviewLog(ownerId);
+  await deleteProfile(ownerId);
+  clearStoredPreferences(ownerId);
+  await user.delete();
+};
@@ -0,0 +1,75 @@
+// lib/ai.ts
+// Browser client for the /api/ai gateway. Provider keys live on the server only.
+import { auth } from '../firebase';
+import type { AiRequest } from './prompts';
+import type { MessageKey, Translator } from './i18n';
+
+export type AiProvider = string;
+export interface AiProviderInfo { id: AiProvider; label: string; }
+
+// --- Errors ---
+// The gateway answers errors with a code rather than a message, so the UI can translate them.
+export type AiErrorCode = 'ai/unauthenticated' | 'ai/bad-request' | 'ai/unknown-type' | 'ai/provider-unavailable' | 'ai/input-too-long'
+  | 'ai/quota-exceeded' | 'ai/rate-limited' | 'ai/providers-unavailable' | 'ai/server-error' | 'ai/invalid-json' | 'ai/no-cards' | 'ai/no-result';
+// Gateway errors carry the HTTP status, Retry-After when the user hit a limit, and the input limit when the prompt was too long.
+export type AiError = Error & { code?: AiErrorCode; status?: number; retryAfterSeconds?: number; maxChars?: number };
+
+export const aiError = (code: AiErrorCode, details: Omit<AiError, 'code' | 'name' | 'message'> = {}): AiError => Object.assign(new Error(code), { code, ...details });
+
+const AI_ERROR_KEYS: Record<AiErrorCode, MessageKey> = {
+  'ai/unauthenticated': 'aiError.unauthenticated',
+  'ai/bad-request': 'aiError.badRequest',
+  'ai/unknown-type': 'aiError.unknownType',
+  'ai/provider-unavailable': 'aiError.providerUnavailable',
+  'ai/input-too-long': 'aiError.inputTooLong',
+  'ai/quota-exceeded': 'aiError.quotaExceeded',
+  'ai/rate-limited': 'aiError.rateLimited',
+  'ai/providers-unavailable': 'aiError.providersUnavailable',
+  'ai/server-error': 'aiError.serverError',
+  'ai/invalid-json': 'aiError.invalidJson',
+  'ai/no-cards': 'aiError.noCards',
+  'ai/no-result': 'aiError.noResult',
+};
+
+// Anything without a known code (a dropped connection, a provider crash) gets the generic message.
+export const aiErrorMessage = (err: unknown, t: Translator): string => {
+  const { code, status, maxChars } = (err ?? {}) as AiError;
+  const key = code ? AI_ERROR_KEYS[code] : undefined;
+  return key ? t(key, { status: status ?? '', max: maxChars ?? '' }) : t('aiError.unknown');
+};
+
+export const fetchAiProviders = async (): Promise<AiProviderInfo[]> => {
+  const response = await fetch('/api/ai/providers');
+  if (!response.ok) throw aiError('ai/providers-unavailable', { status: response.status });
+  const data = await response.json();
+  return data.providers as AiProviderInfo[];
+};
+
+// Streams the answer; onChunk receives the text accumulated so far.
+export const streamAi = async (provider: AiProvider, request: AiRequest, onChunk?: (text: string) => void): Promise<string> => {
+  const user = auth.currentUser;
+  if (!user) throw aiError('ai/unauthenticated');
+  const response = await fetch('/api/ai', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${await user.getIdToken()}` },
+    body: JSON.stringify({ provider, ...request }),
+  });
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => null);
+    const retryAfter = Number(response.headers.get('Retry-After'));
+    const code = typeof data?.error === 'string' && data.error in AI_ERROR_KEYS ? data.error as AiErrorCode : 'ai/server-error';
+    throw aiError(code, { status: response.status, retryAfterSeconds: Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : undefined, maxChars: typeof data?.maxChars === 'number' ? data.maxChars : undefined });
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    text += decoder.decode(value, { stream: true });
+    onChunk?.(text);
+  }
+  return text + decoder.decode();
+};
+
+export const generateText = (provider: AiProvider, request: AiRequest): Promise<string> => streamAi(provider, request);
@@ -0,0 +1,140 @@
+// lib/analytics.ts
+// Pure aggregations over decks and the review log for the 学习总览 dashboard.
+import type { Card, Deck, ReviewAnswer, ReviewLogEntry } from './types';
+import type { Translator } from './i18n';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DailyCount { date: string; count: number; }
+export interface ForecastDay { day: number; count: number; }   // day 0 is today
+export interface DeckRetention { deckId: string; title: string; reviews: number; retention: number | null; }
+
+export const toDateKey = (date: Date): string => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// One entry per calendar day, oldest first, ending today.
+export const dailyReviewCounts = (logs: ReviewLogEntry[], days: number, now: Date): DailyCount[] => {
+  const counts: { [date: string]: number } = {};
+  logs.forEach(log => {
+    if (!log.reviewedAt || !log.reviewedAt.toDate) return;
+    const key = toDateKey(log.reviewedAt.toDate());
+    counts[key] = (counts[key] || 0) + 1;
+  });
+  const today = startOfDay(now);
+  return Array.from({ length: days }, (_, i) => {
+    const date = toDateKey(new Date(today.getFullYear(), today.getMonth(), today.getDate() - (days - 1 - i)));
+    return { date, count: counts[date] || 0 };
+  });
+};
+
+// Cards falling due on each of the next `days` days; anything already overdue counts towards today. Suspended cards are left out.
+export const dueForecast = (decks: Deck[], days: number, now: Date): ForecastDay[] => {
+  const buckets = Array(days).fill(0);
+  const today = startOfDay(now).getTime();
+  decks.forEach(deck => (deck.cards || []).forEach(card => {
+    if (card.suspended || !card.dueDate || !card.dueDate.toDate) return;
+    const offset = Math.floor((startOfDay(card.dueDate.toDate()).getTime() - today) / DAY_MS);
+    if (offset < days) buckets[Math.max(offset, 0)] += 1;
+  }));
+  return buckets.map((count, day) => ({ day, count }));
+};
+
+// Share of recall checks on graduated cards (prevInterval > 0) that were not answered 忘记了.
+export const retentionByDeck = (logs: ReviewLogEntry[], decks: Deck[]): DeckRetention[] => decks.map(deck => {
+  const checks = logs.filter(log => log.deckId === deck.id && log.prevInterval > 0);
+  const passed = checks.filter(log => log.answer !== 'again').length;
+  return { deckId: deck.id, title: deck.title, reviews: logs.filter(log => log.deckId === deck.id).length, retention: checks.length > 0 ? passed / checks.length : null };
+});
+
+export const averageAnswerTimeMs = (logs: ReviewLogEntry[]): number | null => {
+  const timed = logs.filter(log => log.timeSpentMs > 0);
+  if (timed.length === 0) return null;
+  return timed.reduce((sum, log) => sum + log.timeSpentMs, 0) / timed.length;
+};
+
+// --- Goals ---
+const reviewDays = (logs: ReviewLogEntry[]) => new Set(logs.filter(log => log.reviewedAt && log.reviewedAt.toDate).map(log => toDateKey(log.reviewedAt.toDate())));
+
+export const reviewsToday = (logs: ReviewLogEntry[], now: Date): number => {
+  const today = toDateKey(now);
+  return logs.filter(log => log.reviewedAt && log.reviewedAt.toDate && toDateKey(log.reviewedAt.toDate()) === today).length;
+};
+
+// Consecutive days with at least one review. Until the day's first review, yesterday's streak still stands.
+export const reviewStreak = (logs: ReviewLogEntry[], now: Date): number => {
+  const days = reviewDays(logs);
+  const cursor = startOfDay(now);
+  if (!days.has(toDateKey(cursor))) cursor.setDate(cursor.getDate() - 1);
+  let streak = 0;
+  while (days.has(toDateKey(cursor))) {
+    streak += 1;
+    cursor.setDate(cursor.getDate() - 1);
+  }
+  return streak;
+};
+
+// --- Session summary ---
+export interface SessionCard { deckId: string; card: Card; }
+export interface HardCard extends SessionCard { again: number; timeMs: number; }
+export interface SessionSummary {
+  reviewed: number;                       // answers given, including repeats of relearning cards
+  cards: number;                          // distinct cards
+  answers: Record<ReviewAnswer, number>;
+  accuracy: number | null;                // share of answers that were not 忘记了
+  totalMs: number;
+  averageMs: number | null;
+  hardest: HardCard[];
+  nextDue: { bucket: NextDueBucket; count: number }[];
+  againCards: SessionCard[];              // cards answered 忘记了 at least once, in their current state
+}
+
+export type NextDueBucket = 'tenMinutes' | 'day' | 'week' | 'month' | 'later';
+
+const HARDEST_LIMIT = 5;
+const NEXT_DUE_BUCKETS: { bucket: NextDueBucket; ms: number }[] = [
+  { bucket: 'tenMinutes', ms: 10 * 60 * 1000 },
+  { bucket: 'day', ms: DAY_MS },
+  { bucket: 'week', ms: 7 * DAY_MS },
+  { bucket: 'month', ms: 30 * DAY_MS },
+  { bucket: 'later', ms: Infinity },
+];
+
+// Summarises the answers given in one review session; cards are looked up in decks for their state after the session.
+export const summarizeSession = (logs: ReviewLogEntry[], decks: Deck[], now: Date): SessionSummary => {
+  const answers: Record<ReviewAnswer, number> = { again: 0, good: 0, easy: 0 };
+  const byCard = new Map<string, { deckId: string; cardId: string; again: number; timeMs: number }>();
+  logs.forEach(log => {
+    answers[log.answer] += 1;
+    const key = `${log.deckId}/${log.cardId}`;
+    const entry = byCard.get(key) ?? { deckId: log.deckId, cardId: log.cardId, again: 0, timeMs: 0 };
+    byCard.set(key, { ...entry, again: entry.again + (log.answer === 'again' ? 1 : 0), timeMs: entry.timeMs + log.timeSpentMs });
+  });
+  const cards = [...byCard.values()].flatMap(entry => {
+    const card = decks.find(deck => deck.id === entry.deckId)?.cards.find(c => c.id === entry.cardId);
+    return card ? [{ ...entry, card }] : [];
+  });
+  const nextDue = NEXT_DUE_BUCKETS.map(({ bucket }) => ({ bucket, count: 0 }));
+  cards.forEach(({ card }) => {
+    const wait = card.dueDate && card.dueDate.toMillis ? card.dueDate.toMillis() - now.getTime() : 0;
+    nextDue[NEXT_DUE_BUCKETS.findIndex(bucket => wait <= bucket.ms)].count += 1;
+  });
+  const totalMs = logs.reduce((sum, log) => sum + log.timeSpentMs, 0);
+  return {
+    reviewed: logs.length,
+    cards: byCard.size,
+    answers,
+    accuracy: logs.length > 0 ? (answers.good + answers.easy) / logs.length : null,
+    totalMs,
+    averageMs: averageAnswerTimeMs(logs),
+    hardest: cards.filter(c => c.again > 0).sort((a, b) => b.again - a.again || b.timeMs - a.timeMs).slice(0, HARDEST_LIMIT).map(({ deckId, card, again, timeMs }) => ({ deckId, card, again, timeMs })),
+    nextDue: nextDue.filter(bucket => bucket.count > 0),
+    againCards: cards.filter(c => c.again > 0).map(({ deckId, card }) => ({ deckId, card })),
+  };
+};
+
+export const formatDuration = (ms: number, t: Translator): string => {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return t('duration.seconds', { seconds });
+  const minutes = Math.floor(seconds / 60);
+  return seconds % 60 === 0 ? t('duration.minutes', { minutes }) : t('duration.minutesSeconds', { minutes, seconds: seconds % 60 });
+};
@@ -0,0 +1,171 @@
+// lib/anki.ts
+// Reads and writes Anki .apkg packages (a zip holding a legacy collection.anki2 SQLite file).
+// sql.js and jszip are loaded on demand so they stay out of the main bundle.
+import type { Database } from 'sql.js';
+import type { CardState, Deck } from './types';
+import type { ImportTable } from './importers';
+import { cardState } from './reviewQueue';
+
+const CARD_FIELDS = ['Term', 'Meaning', 'Example', 'Context', 'Translation'] as const;
+const ROOT_DECK_NAME = '智能术语卡片';
+const FIELD_SEPARATOR = '\x1f';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const CARD_CSS = '.card { font-family: arial; font-size: 20px; text-align: center; color: black; background-color: white; }';
+const FRONT_TEMPLATE = '{{Term}}';
+const BACK_TEMPLATE = '{{FrontSide}}<hr id=answer>{{Meaning}}{{#Example}}<br><br><i>{{Example}}</i>{{/Example}}{{#Context}}<br><br>{{Context}}{{/Context}}{{#Translation}}<br><br>{{Translation}}{{/Translation}}';
+
+const loadSql = async () => {
+  const { default: initSqlJs } = await import('sql.js/dist/sql-asm.js');
+  return initSqlJs();
+};
+
+const loadZip = async () => (await import('jszip')).default;
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\n/g, '<br>');
+
+export const htmlToText = (html: string): string => html
+  .replace(/<br\s*\/?>/gi, '\n')
+  .replace(/<\/(div|p)>/gi, '\n')
+  .replace(/<[^>]+>/g, '')
+  .replace(/&nbsp;/g, ' ')
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&#39;/g, "'")
+  .replace(/&amp;/g, '&')
+  .trim();
+
+// Anki stores the first 8 hex digits of the sha1 of the sort field as an integer checksum.
+const fieldChecksum = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  const hex = Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+  return parseInt(hex.slice(0, 8), 16);
+};
+
+const buildCollectionJson = (decks: Deck[], modelId: number, deckIds: number[], nowSec: number) => {
+  const deckEntry = (id: number, name: string) => ({ id, name, desc: '', mod: nowSec, usn: -1, collapsed: false, browserCollapsed: false, newToday: [0, 0], revToday: [0, 0], lrnToday: [0, 0], timeToday: [0, 0], dyn: 0, conf: 1, extendNew: 10, extendRev: 50 });
+  const ankiDecks: { [id: string]: ReturnType<typeof deckEntry> } = { '1': deckEntry(1, 'Default') };
+  decks.forEach((deck, i) => { ankiDecks[String(deckIds[i])] = deckEntry(deckIds[i], `${ROOT_DECK_NAME}::${deck.title.replace(/::/g, ':')}`); });
+  const models = {
+    [String(modelId)]: {
+      id: modelId, name: ROOT_DECK_NAME, type: 0, mod: nowSec, usn: -1, sortf: 0, did: deckIds[0] ?? 1,
+      tmpls: [{ name: 'Card 1', ord: 0, qfmt: FRONT_TEMPLATE, afmt: BACK_TEMPLATE, did: null, bqfmt: '', bafmt: '' }],
+      flds: CARD_FIELDS.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+      css: CARD_CSS, latexPre: '', latexPost: '', tags: [], vers: [], req: [[0, 'any', [0]]],
+    },
+  };
+  const dconf = { '1': { id: 1, name: 'Default', mod: 0, usn: 0, maxTaken: 60, autoplay: true, timer: 0, replayq: true, dyn: false,
+    new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, order: 1, perDay: 20, bury: true, separate: true },
+    rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, bury: true, minSpace: 1 },
+    lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 } } };
+  const conf = { nextPos: 1, estTimes: true, activeDecks: [1], sortType: 'noteFld', timeLim: 0, sortBackwards: false, addToCur: true, curDeck: 1, newBury: true, newSpread: 0, dueCounts: true, curModel: String(modelId), collapseTime: 1200 };
+  return { conf, models, decks: ankiDecks, dconf };
+};
+
+// Card type and queue: 0 new, 1 learning, 2 review, 3 relearning. New cards are due by position,
+// review cards by day number from the collection's creation day, and learning cards by epoch
+// seconds. `left` is the number of learning steps still to go, for today and in total.
+const ankiSchedule = (state: CardState, interval: number, lapses: number, dueMs: number, todayMs: number, nextPosition: () => number) => {
+  if (state === 'review') return { type: 2, queue: 2, due: Math.max(0, Math.round((dueMs - todayMs) / DAY_MS)), ivl: interval, left: 0 };
+  // Our schedulers have a single relearn step; cards that have lapsed before go back to review after it.
+  if (state === 'learning') return { type: lapses > 0 ? 3 : 1, queue: 1, due: Math.floor(dueMs / 1000), ivl: lapses > 0 ? 1 : 0, left: 1001 };
+  return { type: 0, queue: 0, due: nextPosition(), ivl: 0, left: 0 };
+};
+
+export const exportDecksToApkg = async (decks: Deck[]): Promise<Blob> => {
+  const [SQL, JSZip] = await Promise.all([loadSql(), loadZip()]);
+  const db = new SQL.Database();
+  try {
+    db.run(SCHEMA);
+    const now = Date.now();
+    const nowSec = Math.floor(now / 1000);
+    const today = new Date(); today.setHours(0, 0, 0, 0);
+    const crt = Math.floor(today.getTime() / 1000);
+    const modelId = now;
+    const deckIds = decks.map((_, i) => now + 1 + i);
+    const { conf, models, decks: ankiDecks, dconf } = buildCollectionJson(decks, modelId, deckIds, nowSec);
+    db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [crt, now, now, JSON.stringify(conf), JSON.stringify(models), JSON.stringify(ankiDecks), JSON.stringify(dconf), '{}']);
+
+    // Anki ids are creation times in milliseconds, so they count up from now rather than from a multiple of it.
+    let nextNoteId = now;
+    let nextCardId = now;
+    let newPosition = 0;
+    for (const [deckIndex, deck] of decks.entries()) {
+      for (const card of deck.cards || []) {
+        const noteId = nextNoteId++;
+        const cardId = nextCardId++;
+        const fields = [card.term, card.meaning, card.example, card.context, card.translation].map(value => escapeHtml(value || ''));
+        db.run('INSERT INTO notes VALUES (?, ?, ?, ?, -1, \'\', ?, ?, ?, 0, \'\')', [noteId, card.id, modelId, nowSec, fields.join(FIELD_SEPARATOR), card.term, await fieldChecksum(card.term)]);
+        const srs = card.srs;
+        const dueMs = card.dueDate && card.dueDate.toDate ? card.dueDate.toDate().getTime() : now;
+        const schedule = ankiSchedule(srs ? cardState(card) : 'new', srs?.interval ?? 0, srs?.lapses ?? 0, dueMs, today.getTime(), () => ++newPosition);
+        db.run('INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, ?, ?, ?, ?, ?, ?, ?, ?, 0, 0, 0, \'\')', [
+          cardId, noteId, deckIds[deckIndex], nowSec,
+          // Anki marks suspended cards with queue -1.
+          schedule.type, card.suspended ? -1 : schedule.queue, schedule.due,
+          schedule.ivl, Math.round((srs?.easeFactor ?? 2.5) * 1000), srs?.repetitions ?? 0, srs?.lapses ?? 0, schedule.left,
+        ]);
+      }
+    }
+
+    const zip = new JSZip();
+    zip.file('collection.anki2', db.export());
+    zip.file('media', '{}');
+    return await zip.generateAsync({ type: 'blob' });
+  } finally {
+    db.close();
+  }
+};
+
+const readRows = (db: Database, sql: string) => {
+  const result = db.exec(sql)[0];
+  return result ? result.values : [];
+};
+
+// Flattens every note into a row; columns are the union of field names across note types.
+export const parseApkg = async (file: Blob): Promise<ImportTable> => {
+  const [SQL, JSZip] = await Promise.all([loadSql(), loadZip()]);
+  const zip = await JSZip.loadAsync(file);
+  const entry = zip.file('collection.anki21') || zip.file('collection.anki2');
+  if (!entry) {
+    const code = zip.file('collection.anki21b') ? 'import/anki-new-format' : 'import/no-anki-database';
+    throw Object.assign(new Error(code), { code });
+  }
+  const db = new SQL.Database(await entry.async('uint8array'));
+  try {
+    const modelsJson = readRows(db, 'SELECT models FROM col')[0]?.[0];
+    const models: { [id: string]: { flds: { name: string; ord: number }[] } } = modelsJson ? JSON.parse(String(modelsJson)) : {};
+    const columns: string[] = [];
+    const rows = readRows(db, 'SELECT mid, flds FROM notes ORDER BY id').map(([mid, flds]) => {
+      const fieldNames = (models[String(mid)]?.flds || []).slice().sort((a, b) => a.ord - b.ord).map(f => f.name);
+      const values = String(flds).split(FIELD_SEPARATOR);
+      const row: string[] = Array(columns.length).fill('');
+      values.forEach((value, i) => {
+        const name = fieldNames[i] || `Field ${i + 1}`;
+        let column = columns.indexOf(name);
+        if (column === -1) { columns.push(name); column = columns.length - 1; }
+        row[column] = htmlToText(value);
+      });
+      return row;
+    });
+    return { columns, rows: rows.map(row => [...row, ...Array(columns.length - row.length).fill('')]) };
+  } finally {
+    db.close();
+  }
+};
@@ -0,0 +1,109 @@
+// lib/cardGeneration.ts
+// Turns a raw English article or subtitle file into card candidates via the selected AI provider.
+// The prompt itself lives in lib/prompts.ts and is built by the AI gateway.
+import type { CardContent, Deck } from './types';
+import type { ParseDiagnostic } from './parsers';
+import { generateText, type AiProvider } from './ai';
+import { normalizeTerm } from './cards';
+import type { Locale } from './i18n';
+
+// Long texts are sent in paragraph-aligned chunks so each request stays within the gateway's input limit.
+const CHUNK_CHARS = 6000;
+
+export interface GenerationResult { cards: CardContent[]; diagnostics: ParseDiagnostic[]; }
+
+export const splitIntoChunks = (text: string, size = CHUNK_CHARS): string[] => {
+  const paragraphs = text.split(/\n\s*\n/);
+  const chunks: string[] = [];
+  let current = '';
+  paragraphs.forEach(paragraph => {
+    if (current && current.length + paragraph.length > size) { chunks.push(current); current = ''; }
+    // A single oversized paragraph is cut at sentence boundaries.
+    while (paragraph.length > size) {
+      const cut = Math.max(paragraph.lastIndexOf('. ', size), size / 2);
+      chunks.push(paragraph.slice(0, cut + 1));
+      paragraph = paragraph.slice(cut + 1);
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  });
+  if (current.trim()) chunks.push(current);
+  return chunks;
+};
+
+const normalizeSentence = (text: string) => text.toLowerCase().replace(/[‘’]/g, "'").replace(/[“”]/g, '"').replace(/\s+/g, ' ').trim();
+
+// Accepts bare JSON or JSON wrapped in a Markdown code fence, with any chatter before it.
+export const extractJson = (response: string): unknown => {
+  const fenced = response.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const body = (fenced ? fenced[1] : response).trim();
+  const start = body.search(/[[{]/);
+  return JSON.parse(start > 0 ? body.slice(start) : body);
+};
+
+const asString = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+// Validates the provider's JSON; anything malformed becomes a diagnostic instead of a card.
+export const parseGeneratedCards = (response: string, sourceText: string): GenerationResult => {
+  const diagnostics: ParseDiagnostic[] = [];
+  let data: unknown;
+  try {
+    data = extractJson(response);
+  } catch {
+    return { cards: [], diagnostics: [{ severity: 'skipped', line: 0, excerpt: response.slice(0, 40), message: 'diagnostic.invalidJson' }] };
+  }
+  const items = Array.isArray(data) ? data : (data && typeof data === 'object' && Array.isArray((data as { cards?: unknown }).cards) ? (data as { cards: unknown[] }).cards : null);
+  if (!items) return { cards: [], diagnostics: [{ severity: 'skipped', line: 0, excerpt: response.slice(0, 40), message: 'diagnostic.noCardsArray' }] };
+
+  const source = normalizeSentence(sourceText);
+  const cards: CardContent[] = [];
+  items.forEach(item => {
+    const raw = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+    const card: CardContent = { term: asString(raw.term), meaning: asString(raw.meaning), example: asString(raw.example), context: asString(raw.context), translation: asString(raw.translation) };
+    if (!card.term || !card.meaning) {
+      diagnostics.push({ severity: 'skipped', line: 0, excerpt: card.term || JSON.stringify(item).slice(0, 40), message: 'diagnostic.missingTermOrMeaning' });
+      return;
+    }
+    cards.push(card);
+    if (card.example && !source.includes(normalizeSentence(card.example))) {
+      diagnostics.push({ severity: 'warning', line: 0, excerpt: card.term, message: 'diagnostic.exampleNotInSource', cardIndex: cards.length - 1 });
+    }
+  });
+  return { cards, diagnostics };
+};
+
+// Drops candidates whose term already exists in the user's decks or earlier in the batch.
+export const dedupeAgainstDecks = (result: GenerationResult, decks: Deck[]): GenerationResult => {
+  const existing = new Map<string, string>();
+  decks.forEach(deck => (deck.cards || []).forEach(card => existing.set(normalizeTerm(card.term), deck.title)));
+  const seen = new Set<string>();
+  const cards: CardContent[] = [];
+  const indexMap = new Map<number, number>();
+  const diagnostics: ParseDiagnostic[] = result.diagnostics.filter(d => d.cardIndex === undefined);
+  result.cards.forEach((card, i) => {
+    const key = normalizeTerm(card.term);
+    const existingTitle = existing.get(key);
+    if (existingTitle !== undefined) { diagnostics.push({ severity: 'skipped', line: 0, excerpt: card.term, message: 'diagnostic.duplicate', params: { title: existingTitle } }); return; }
+    if (seen.has(key)) return;
+    seen.add(key);
+    indexMap.set(i, cards.length);
+    cards.push(card);
+  });
+  result.diagnostics.forEach(d => {
+    if (d.cardIndex !== undefined && indexMap.has(d.cardIndex)) diagnostics.push({ ...d, cardIndex: indexMap.get(d.cardIndex) });
+  });
+  return { cards, diagnostics };
+};
+
+export const generateCardsFromText = async (provider: AiProvider, text: string, decks: Deck[], locale: Locale, onProgress?: (done: number, total: number) => void): Promise<GenerationResult> => {
+  const chunks = splitIntoChunks(text);
+  const merged: GenerationResult = { cards: [], diagnostics: [] };
+  for (const [i, chunk] of chunks.entries()) {
+    const response = await generateText(provider, { type: 'generate-cards', payload: { text: chunk, locale } });
+    const { cards, diagnostics } = parseGeneratedCards(response, chunk);
+    const offset = merged.cards.length;
+    merged.cards.push(...cards);
+    merged.diagnostics.push(...diagnostics.map(d => d.cardIndex === undefined ? d : { ...d, cardIndex: d.cardIndex + offset }));
+    onProgress?.(i + 1, chunks.length);
+  }
+  return dedupeAgainstDecks(merged, decks);
+};
@@ -0,0 +1,104 @@
+// lib/cards.ts
+import { Timestamp } from 'firebase/firestore';
+import type { Card, CardContent, Deck, ReviewAnswer, SchedulerId } from './types';
+import { createSrsState, getScheduler, migrateSrsState } from './scheduler';
+
+export const createCard = (content: CardContent): Card => ({ ...content, id: crypto.randomUUID(), srsLevel: 0, dueDate: Timestamp.now(), srs: createSrsState() });
+
+// Cards written before per-card scheduler state existed only have srsLevel; fill in the rest on load.
+export const normalizeCard = (card: Card): Card => {
+  if (card.srs) return card;
+  const dueDate = card.dueDate && card.dueDate.toDate ? card.dueDate.toDate() : null;
+  return { ...card, srsLevel: card.srsLevel || 0, srs: migrateSrsState(card.srsLevel, dueDate) };
+};
+
+export const normalizeDeck = (deck: Deck): Deck => ({ ...deck, cards: (deck.cards || []).map(normalizeCard) });
+
+// A deck listed from its summary counts its cards from the summary, not from a possibly stale cache.
+export const deckCardCount = (deck: Deck) => deck.summary ? deck.summary.cardCount : (deck.cards || []).length;
+
+export const applyReview = (card: Card, answer: ReviewAnswer, schedulerId: SchedulerId | undefined, now: Date): Card => {
+  const { state, dueDate } = getScheduler(schedulerId).schedule(card.srs, answer, now);
+  return { ...card, srs: state, srsLevel: state.repetitions, dueDate: Timestamp.fromDate(dueDate) };
+};
+
+// When the same card was reviewed on two devices the later review wins; lapses are never lost.
+const lastReviewed = (card: Card) => card.srs?.lastReviewedAt ?? 0;
+
+export const resolveCardConflict = (local: Card, remote: Card): Card => {
+  const winner = lastReviewed(remote) > lastReviewed(local) ? remote : local;
+  if (!local.srs || !remote.srs) return winner;
+  return { ...winner, srs: { ...winner.srs, lapses: Math.max(local.srs.lapses, remote.srs.lapses) } };
+};
+
+// --- Editing ---
+export const CARD_CONTENT_FIELDS = ['term', 'meaning', 'example', 'context', 'translation'] as const;
+
+export const pickContent = (card: CardContent): CardContent => ({ term: card.term, meaning: card.meaning, example: card.example, context: card.context, translation: card.translation });
+
+// Everything the editor can change on an existing card: its text and its tags.
+export type CardEdits = CardContent & { tags: string[] };
+export const pickEdits = (card: Card): CardEdits => ({ ...pickContent(card), tags: card.tags ?? [] });
+const sameTags = (a: string[] = [], b: string[] = []) => a.length === b.length && a.every((tag, i) => tag === b[i]);
+
+const sameSchedule = (a: Card, b: Card) => JSON.stringify(a.srs) === JSON.stringify(b.srs) && a.dueDate?.toMillis() === b.dueDate?.toMillis();
+
+// rescheduled: cards whose progress was reset or merged in the editor. order is set only when the
+// cards are no longer in their saved order followed by the new ones.
+export interface CardDiff { added: Card[]; edited: Card[]; rescheduled: Card[]; deletedIds: string[]; order: string[] | null; }
+
+// Compares a deck's cards before and after editing so only the changed card documents are written.
+export const diffCards = (before: Card[], after: Card[]): CardDiff => {
+  const beforeById = new Map(before.map(card => [card.id, card]));
+  const afterIds = new Set(after.map(card => card.id));
+  const added: Card[] = [];
+  const edited: Card[] = [];
+  const rescheduled: Card[] = [];
+  after.forEach(card => {
+    const previous = beforeById.get(card.id);
+    if (!previous) { added.push(card); return; }
+    if (CARD_CONTENT_FIELDS.some(field => previous[field] !== card[field]) || !sameTags(previous.tags, card.tags)) edited.push(card);
+    if (!sameSchedule(previous, card)) rescheduled.push(card);
+  });
+  const expectedOrder = [...before.filter(card => afterIds.has(card.id)), ...added].map(card => card.id);
+  const order = after.some((card, i) => card.id !== expectedOrder[i]) ? after.map(card => card.id) : null;
+  return { added, edited, rescheduled, deletedIds: before.filter(card => !afterIds.has(card.id)).map(card => card.id), order };
+};
+
+export const isCardDiffEmpty = (diff: CardDiff) => diff.added.length + diff.edited.length + diff.rescheduled.length + diff.deletedIds.length === 0 && !diff.order;
+
+export const resetCardProgress = (card: Card, now = new Date()): Card => ({ ...card, srsLevel: 0, dueDate: Timestamp.fromDate(now), srs: createSrsState() });
+
+// --- Duplicates ---
+export const normalizeTerm = (term: string) => term.toLowerCase().replace(/[^\p{L}\p{N}\s']/gu, '').replace(/\s+/g, ' ').trim();
+
+export interface DuplicateCard { deckId: string; deckTitle: string; card: Card; }
+
+// Cards elsewhere in the user's library (or earlier in the same deck) with the same normalized term.
+export const findDuplicates = (deck: Deck, decks: Deck[]): Map<string, DuplicateCard[]> => {
+  const byTerm = new Map<string, DuplicateCard[]>();
+  const add = (owner: Deck, card: Card) => {
+    const key = normalizeTerm(card.term);
+    if (key) byTerm.set(key, [...(byTerm.get(key) || []), { deckId: owner.id, deckTitle: owner.title, card }]);
+  };
+  decks.filter(d => d.id !== deck.id).forEach(other => other.cards.forEach(card => add(other, card)));
+  deck.cards.forEach(card => add(deck, card));
+  const duplicates = new Map<string, DuplicateCard[]>();
+  deck.cards.forEach(card => {
+    const others = (byTerm.get(normalizeTerm(card.term)) || []).filter(entry => entry.card.id !== card.id);
+    if (others.length > 0) duplicates.set(card.id, others);
+  });
+  return duplicates;
+};
+
+// The more mature schedule wins: longer interval, then more successful repetitions.
+const strongerSchedule = (a: Card, b: Card) => (b.srs.interval - a.srs.interval || b.srs.repetitions - a.srs.repetitions) > 0 ? b : a;
+
+// Merges a duplicate into the kept card: empty text fields are filled in, tags are combined and the
+// better scheduling state is kept.
+export const mergeDuplicateCards = (kept: Card, duplicate: Card): Card => {
+  const schedule = strongerSchedule(kept, duplicate);
+  const content = Object.fromEntries(CARD_CONTENT_FIELDS.map(field => [field, kept[field] || duplicate[field]])) as CardContent;
+  const tags = [...new Set([...(kept.tags ?? []), ...(duplicate.tags ?? [])])];
+  return { ...kept, ...content, tags, srs: schedule.srs, srsLevel: schedule.srsLevel, dueDate: schedule.dueDate };
+};
@@ -0,0 +1,169 @@
+// lib/deckStore.ts
+// Firestore data access for decks. Deck documents hold only metadata and a card count;
+// each card lives in its own document under decks/{deckId}/cards, so a review or an edit
+// rewrites just the affected cards and a deck is no longer bounded by the 1 MB document limit.
+// The deck list is read from the deck documents plus a count query per deck; a deck's cards are
+// read only when the app needs them.
+import { db } from '../firebase';
+import { collection, doc, getDocs, query, where, orderBy, writeBatch, runTransaction, getCountFromServer, deleteField, increment, Timestamp, type DocumentData, type WriteBatch } from 'firebase/firestore';
+import type { Card, Deck, SchedulerId } from './types';
+import { normalizeCard, pickEdits, resolveCardConflict } from './cards';
+
+const DECKS_COLLECTION = 'decks';
+const CARDS_COLLECTION = 'cards';
+// Firestore allows 500 operations per batch; leave room for the deck document itself.
+const BATCH_SIZE = 450;
+
+export type DeckFields = Partial<Pick<Deck, 'title' | 'scheduler' | 'tags' | 'deletedAt'>>;
+export type CardFields = Partial<Pick<Card, 'tags' | 'suspended' | 'buriedUntil'>>;
+
+// Decks saved before the card subcollection existed still carry an embedded cards array.
+interface DeckDocument { title: string; createdAt: Timestamp; ownerId: string; scheduler?: SchedulerId; shareId?: string; tags?: string[]; deletedAt?: Timestamp | null; cardCount?: number; cards?: Card[]; }
+// ownerId is repeated on every card so the security rules can check writes without reading the deck.
+type CardDocument = Omit<Card, 'id'> & { position: number; ownerId: string };
+
+const deckRef = (deckId: string) => doc(db, DECKS_COLLECTION, deckId);
+const cardsCollection = (deckId: string) => collection(db, DECKS_COLLECTION, deckId, CARDS_COLLECTION);
+const cardRef = (deckId: string, cardId: string) => doc(db, DECKS_COLLECTION, deckId, CARDS_COLLECTION, cardId);
+
+// Cards are ordered by insertion time plus their index in the batch that wrote them.
+// The card id is the document id, so it is not stored in the document itself.
+const toCardDocument = (card: Card, position: number, ownerId: string): CardDocument => {
+  const data: Partial<Card> = { ...card };
+  delete data.id;
+  return { ...data as Omit<Card, 'id'>, position, ownerId };
+};
+
+const fromCardDocument = (id: string, data: CardDocument): Card => {
+  const card: Partial<CardDocument> = { ...data };
+  delete card.position;
+  delete card.ownerId;
+  return normalizeCard({ ...card as Omit<Card, 'id'>, id });
+};
+
+// Runs the given operations across as many batches as needed.
+export const commitInBatches = async (operations: ((batch: WriteBatch) => void)[]) => {
+  for (let i = 0; i < operations.length; i += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    operations.slice(i, i + BATCH_SIZE).forEach(operation => operation(batch));
+    await batch.commit();
+  }
+};
+
+// --- Migration ---
+// Moves an embedded cards array into the subcollection. Cards are written before the array is
+// removed, so an interrupted migration simply runs again on the next load.
+export const migrateLegacyDeck = async (deckId: string, ownerId: string, cards: Card[]) => {
+  const base = Date.now();
+  await commitInBatches(cards.map((card, i) => (batch: WriteBatch) => batch.set(cardRef(deckId, card.id), toCardDocument(normalizeCard(card), base + i, ownerId))));
+  const batch = writeBatch(db);
+  batch.update(deckRef(deckId), { cards: deleteField(), cardCount: cards.length });
+  await batch.commit();
+};
+
+// --- Reads ---
+const fetchDeckDocuments = async (ownerId: string): Promise<{ id: string; data: DeckDocument }[]> => {
+  const snapshot = await getDocs(query(collection(db, DECKS_COLLECTION), where("ownerId", "==", ownerId), orderBy("createdAt", "desc")));
+  return Promise.all(snapshot.docs.map(async deckDoc => {
+    const data = deckDoc.data() as DeckDocument;
+    if (!Array.isArray(data.cards)) return { id: deckDoc.id, data };
+    await migrateLegacyDeck(deckDoc.id, data.ownerId, data.cards);
+    const { cards, ...rest } = data;
+    return { id: deckDoc.id, data: { ...rest, cardCount: cards.length } };
+  }));
+};
+
+export const fetchDeckCards = async (deckId: string): Promise<Card[]> => {
+  const snapshot = await getDocs(query(cardsCollection(deckId), orderBy("position")));
+  return snapshot.docs.map(cardDoc => fromCardDocument(cardDoc.id, cardDoc.data() as CardDocument));
+};
+
+const toDeck = (id: string, data: DeckDocument, cards: Card[]): Deck => ({ id, title: data.title, createdAt: data.createdAt, ownerId: data.ownerId, scheduler: data.scheduler, shareId: data.shareId, tags: data.tags ?? [], deletedAt: data.deletedAt ?? null, cards });
+
+// The deck list: every deck with its card and due counts but no cards. The due count comes from a
+// count query, so it also counts suspended and buried cards that are past their due date.
+export const fetchDeckSummaries = async (ownerId: string, now = new Date()): Promise<Deck[]> => {
+  const deckDocs = await fetchDeckDocuments(ownerId);
+  return Promise.all(deckDocs.map(async ({ id, data }) => {
+    const due = await getCountFromServer(query(cardsCollection(id), where("dueDate", "<=", Timestamp.fromDate(now))));
+    return { ...toDeck(id, data, []), summary: { cardCount: data.cardCount ?? 0, dueCount: due.data().count } };
+  }));
+};
+
+// Every deck with all of its cards, for the account export and deletion.
+export const fetchDecks = async (ownerId: string): Promise<Deck[]> => {
+  const deckDocs = await fetchDeckDocuments(ownerId);
+  return Promise.all(deckDocs.map(async ({ id, data }) => toDeck(id, data, await fetchDeckCards(id))));
+};
+
+// --- Writes ---
+export const createDeck = async (deck: Deck) => {
+  const { id, cards, ...fields } = deck;
+  const base = deck.createdAt.toMillis();
+  // The deck document goes last so a half-written deck never shows up in the list.
+  await commitInBatches([
+    ...cards.map((card, i) => (batch: WriteBatch) => batch.set(cardRef(id, card.id), toCardDocument(card, base + i, deck.ownerId))),
+    (batch: WriteBatch) => batch.set(deckRef(id), { ...fields, cardCount: cards.length }),
+  ]);
+};
+
+export const updateDeckFields = async (deckId: string, fields: DeckFields) => {
+  const batch = writeBatch(db);
+  batch.update(deckRef(deckId), fields);
+  await batch.commit();
+};
+
+export interface CardChanges { added: Card[]; edited: Card[]; rescheduled?: Card[]; deletedIds: string[]; order?: string[] | null; }
+
+// Writes an editor save: new cards in full, edited cards as text and tags only so a review made on
+// another device in the meantime keeps its scheduling state. Scheduling is only overwritten for cards
+// the user reset or merged, and a new order renumbers every card's position.
+export const saveCardChanges = async (deckId: string, ownerId: string, changes: CardChanges, positionBase = Date.now()) => {
+  const { added, edited, rescheduled = [], deletedIds, order } = changes;
+  const positions = new Map((order ?? added.map(card => card.id)).map((cardId, i) => [cardId, positionBase + i]));
+  const addedIds = new Set(added.map(card => card.id));
+  // One update per card: a batch may not write the same document twice.
+  const updates = new Map<string, DocumentData>();
+  const queueUpdate = (cardId: string, fields: DocumentData) => updates.set(cardId, { ...updates.get(cardId), ...fields });
+  edited.forEach(card => queueUpdate(card.id, { ...pickEdits(card) }));
+  rescheduled.forEach(card => queueUpdate(card.id, { srs: card.srs, srsLevel: card.srsLevel, dueDate: card.dueDate }));
+  if (order) order.filter(cardId => !addedIds.has(cardId)).forEach(cardId => queueUpdate(cardId, { position: positions.get(cardId) }));
+  await commitInBatches([
+    ...added.map(card => (batch: WriteBatch) => batch.set(cardRef(deckId, card.id), toCardDocument(card, positions.get(card.id) ?? positionBase, ownerId))),
+    ...[...updates].map(([cardId, fields]) => (batch: WriteBatch) => batch.update(cardRef(deckId, cardId), fields)),
+    ...deletedIds.map(cardId => (batch: WriteBatch) => batch.delete(cardRef(deckId, cardId))),
+    (batch: WriteBatch) => batch.update(deckRef(deckId), { cardCount: increment(added.length - deletedIds.length) }),
+  ]);
+};
+
+// Updates a single reviewed card, resolving against whatever another device wrote meanwhile.
+export const saveReviewedCard = (deckId: string, card: Card) => runTransaction(db, async tx => {
+  const ref = cardRef(deckId, card.id);
+  const snapshot = await tx.get(ref);
+  if (!snapshot.exists()) return;
+  const remote = fromCardDocument(snapshot.id, snapshot.data() as CardDocument);
+  const { srs, srsLevel, dueDate } = resolveCardConflict(card, remote);
+  tx.update(ref, { srs, srsLevel, dueDate });
+});
+
+// Suspending, burying and leech tagging touch only these fields, never the card text or schedule.
+export const updateCardFields = async (deckId: string, cardId: string, fields: CardFields) => {
+  const batch = writeBatch(db);
+  batch.update(cardRef(deckId, cardId), fields);
+  await batch.commit();
+};
+
+// Undoing a review puts the earlier scheduling state back as-is, bypassing conflict resolution.
+export const restoreReviewedCard = async (deckId: string, card: Card) => {
+  const batch = writeBatch(db);
+  batch.update(cardRef(deckId, card.id), { srs: card.srs, srsLevel: card.srsLevel, dueDate: card.dueDate });
+  await batch.commit();
+};
+
+export const deleteDeck = async (deckId: string) => {
+  const snapshot = await getDocs(cardsCollection(deckId));
+  await commitInBatches([
+    ...snapshot.docs.map(cardDoc => (batch: WriteBatch) => batch.delete(cardDoc.ref)),
+    (batch: WriteBatch) => batch.delete(deckRef(deckId)),
+  ]);
+};
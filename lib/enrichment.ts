@@ -0,0 +1,139 @@
+// lib/enrichment.ts
+// Fills in the empty fields of a deck's cards with the selected AI provider. Cards are sent in
+// small batches with a few requests in flight at once; failed batches are retried with backoff,
+// honouring Retry-After when the gateway's rate limit is hit. Nothing is written here: the result
+// is a list of proposals the user reviews before they are applied to the deck.
+import type { Card, Deck } from './types';
+import { aiError, generateText, type AiError, type AiProvider } from './ai';
+import { MAX_CARDS_PER_ENRICHMENT, payloadLength, type EnrichField, type EnrichmentInput } from './prompts';
+import { extractJson } from './cardGeneration';
+import type { Locale } from './i18n';
+
+export const ENRICH_FIELDS: EnrichField[] = ['meaning', 'example', 'context', 'translation'];
+
+// Kept under the gateway's 3000-character limit for the prompt, with room for the JSON keys.
+const BATCH_CHARS = 2500;
+const CONCURRENCY = 2;
+const MAX_ATTEMPTS = 3;
+const BASE_RETRY_MS = 2000;
+// A Retry-After longer than this means the daily quota is gone; waiting it out is pointless.
+const MAX_RETRY_WAIT_MS = 60 * 1000;
+
+export interface EnrichmentProposal { cardId: string; term: string; values: Partial<Record<EnrichField, string>>; }
+// The error is shown with aiErrorMessage, so it follows the UI language.
+export interface EnrichmentFailure { cardId: string; term: string; error: AiError; }
+export interface EnrichmentResult { proposals: EnrichmentProposal[]; failures: EnrichmentFailure[]; }
+
+export const missingFields = (card: Card): EnrichField[] => ENRICH_FIELDS.filter(field => !card[field]?.trim());
+
+export const findIncompleteCards = (deck: Deck): Card[] => deck.cards.filter(card => card.term.trim() && missingFields(card).length > 0);
+
+const toInput = (card: Card): EnrichmentInput => ({ term: card.term, meaning: card.meaning, example: card.example, context: card.context, translation: card.translation, missing: missingFields(card) });
+
+export const batchCards = (cards: Card[]): Card[][] => {
+  const batches: Card[][] = [];
+  let current: Card[] = [];
+  let chars = 0;
+  cards.forEach(card => {
+    const size = payloadLength(toInput(card));
+    if (current.length > 0 && (current.length >= MAX_CARDS_PER_ENRICHMENT || chars + size > BATCH_CHARS)) { batches.push(current); current = []; chars = 0; }
+    current.push(card);
+    chars += size;
+  });
+  if (current.length > 0) batches.push(current);
+  return batches;
+};
+
+// Keeps only non-empty values for fields the card was actually missing, matched back by index.
+export const parseEnrichment = (response: string, batch: Card[]): EnrichmentResult => {
+  let data: unknown;
+  try {
+    data = extractJson(response);
+  } catch {
+    throw aiError('ai/invalid-json');
+  }
+  const items = Array.isArray(data) ? data : (data && typeof data === 'object' && Array.isArray((data as { cards?: unknown }).cards) ? (data as { cards: unknown[] }).cards : null);
+  if (!items) throw aiError('ai/no-cards');
+
+  const byIndex = new Map<number, Record<string, unknown>>();
+  items.forEach((item, position) => {
+    const raw = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+    byIndex.set(typeof raw.index === 'number' ? raw.index : position, raw);
+  });
+  const result: EnrichmentResult = { proposals: [], failures: [] };
+  batch.forEach((card, index) => {
+    const raw = byIndex.get(index);
+    const values: EnrichmentProposal['values'] = {};
+    missingFields(card).forEach(field => {
+      const value = raw?.[field];
+      if (typeof value === 'string' && value.trim()) values[field] = value.trim();
+    });
+    if (Object.keys(values).length > 0) result.proposals.push({ cardId: card.id, term: card.term, values });
+    else result.failures.push({ cardId: card.id, term: card.term, error: aiError('ai/no-result') });
+  });
+  return result;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Rate limits, server errors and dropped connections are worth another try; bad input and an
+// exhausted quota are not.
+const retryDelay = (err: unknown, attempt: number): number | null => {
+  const { status, retryAfterSeconds } = err as AiError;
+  if (status !== undefined && status !== 429 && status < 500) return null;
+  const delay = retryAfterSeconds ? retryAfterSeconds * 1000 : BASE_RETRY_MS * 2 ** (attempt - 1);
+  return delay > MAX_RETRY_WAIT_MS ? null : delay;
+};
+
+const enrichBatch = async (provider: AiProvider, batch: Card[], locale: Locale): Promise<EnrichmentResult> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const response = await generateText(provider, { type: 'enrich-cards', payload: { cards: batch.map(toInput), locale } });
+      return parseEnrichment(response, batch);
+    } catch (err) {
+      const delay = attempt < MAX_ATTEMPTS ? retryDelay(err, attempt) : null;
+      if (delay === null) {
+        return { proposals: [], failures: batch.map(card => ({ cardId: card.id, term: card.term, error: err as AiError })) };
+      }
+      await sleep(delay);
+    }
+  }
+};
+
+// onProgress counts cards, not requests. Stopping via the signal lets running batches finish but starts no new ones.
+export const enrichCards = async (provider: AiProvider, cards: Card[], locale: Locale, onProgress?: (done: number, total: number) => void, signal?: AbortSignal): Promise<EnrichmentResult> => {
+  const batches = batchCards(cards);
+  const result: EnrichmentResult = { proposals: [], failures: [] };
+  let next = 0;
+  let done = 0;
+  const worker = async () => {
+    while (next < batches.length && !signal?.aborted) {
+      const batch = batches[next++];
+      const { proposals, failures } = await enrichBatch(provider, batch, locale);
+      result.proposals.push(...proposals);
+      result.failures.push(...failures);
+      done += batch.length;
+      onProgress?.(done, cards.length);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(CONCURRENCY, batches.length) }, worker));
+  // Workers finish out of order; show the proposals in deck order.
+  const order = new Map(cards.map((card, index) => [card.id, index]));
+  result.proposals.sort((a, b) => (order.get(a.cardId) ?? 0) - (order.get(b.cardId) ?? 0));
+  return result;
+};
+
+// Applies the accepted values, never overwriting a field the user filled in meanwhile.
+export const applyEnrichment = (deck: Deck, accepted: EnrichmentProposal[]): Deck => {
+  const byCard = new Map(accepted.map(proposal => [proposal.cardId, proposal.values]));
+  return {
+    ...deck,
+    cards: deck.cards.map(card => {
+      const values = byCard.get(card.id);
+      if (!values) return card;
+      const filled = { ...card };
+      ENRICH_FIELDS.forEach(field => { if (values[field] && !card[field]?.trim()) filled[field] = values[field]; });
+      return filled;
+    }),
+  };
+};
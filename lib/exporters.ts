@@ -0,0 +1,73 @@
+// lib/exporters.ts
+import type { Card, Deck } from './types';
+import { exportDecksToApkg } from './anki';
+import type { Translator } from './i18n';
+
+export type ExportFormat = 'json' | 'csv' | 'tsv' | 'apkg';
+export const EXPORT_FORMATS: ExportFormat[] = ['json', 'csv', 'tsv', 'apkg'];
+
+export const BACKUP_FORMAT = 'smart-idiom-cards';
+export const BACKUP_VERSION = 1;
+export const DELIMITED_COLUMNS = ['term', 'meaning', 'example', 'context', 'translation'] as const;
+
+// Timestamps are stored as epoch milliseconds so the file round-trips without Firestore.
+export type SerializedCard = Omit<Card, 'dueDate'> & { dueDate: number };
+export interface SerializedDeck { title: string; scheduler?: Deck['scheduler']; tags?: string[]; createdAt: number; cards: SerializedCard[]; }
+export interface DeckBackup { format: typeof BACKUP_FORMAT; version: number; exportedAt: number; decks: SerializedDeck[]; }
+
+export const serializeDeck = (deck: Deck): SerializedDeck => ({
+  title: deck.title,
+  scheduler: deck.scheduler,
+  tags: deck.tags ?? [],
+  createdAt: deck.createdAt && deck.createdAt.toMillis ? deck.createdAt.toMillis() : Date.now(),
+  cards: (deck.cards || []).map(card => ({ ...card, dueDate: card.dueDate && card.dueDate.toMillis ? card.dueDate.toMillis() : Date.now() })),
+});
+
+export const exportDecksToJson = (decks: Deck[]): string => {
+  const backup: DeckBackup = { format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: Date.now(), decks: decks.map(serializeDeck) };
+  return JSON.stringify(backup, null, 2);
+};
+
+const quoteField = (value: string, delimiter: string) => {
+  if (delimiter === '\t') return value.replace(/[\t\r\n]+/g, ' ');
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+// A trailing deck column is only added when several decks go into the same file.
+export const exportDecksToDelimited = (decks: Deck[], delimiter: ',' | '\t'): string => {
+  const withDeck = decks.length > 1;
+  const header = withDeck ? [...DELIMITED_COLUMNS, 'deck'] : [...DELIMITED_COLUMNS];
+  const lines = [header.join(delimiter)];
+  decks.forEach(deck => (deck.cards || []).forEach(card => {
+    const values: string[] = DELIMITED_COLUMNS.map(column => card[column] || '');
+    if (withDeck) values.push(deck.title);
+    lines.push(values.map(value => quoteField(value, delimiter)).join(delimiter));
+  }));
+  return lines.join('\r\n');
+};
+
+export const exportDecks = async (decks: Deck[], format: ExportFormat): Promise<Blob> => {
+  switch (format) {
+    case 'json': return new Blob([exportDecksToJson(decks)], { type: 'application/json' });
+    // The BOM lets Excel open Chinese text correctly.
+    case 'csv': return new Blob(['\uFEFF', exportDecksToDelimited(decks, ',')], { type: 'text/csv;charset=utf-8' });
+    case 'tsv': return new Blob(['\uFEFF', exportDecksToDelimited(decks, '\t')], { type: 'text/tab-separated-values;charset=utf-8' });
+    case 'apkg': return exportDecksToApkg(decks);
+  }
+};
+
+export const exportFileName = (decks: Deck[], format: ExportFormat, t: Translator) => {
+  const base = decks.length === 1 ? decks[0].title.replace(/[\\/:*?"<>|]+/g, '_').slice(0, 60) : t('io.backupFileName', { date: new Date().toISOString().slice(0, 10) });
+  return `${base}.${format}`;
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
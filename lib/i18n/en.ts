@@ -0,0 +1,459 @@
+// lib/i18n/en.ts
+import type { MessageKey } from './zh-CN';
+
+export const en: Record<MessageKey, string> = {
+  // --- Common ---
+  'common.cancel': 'Cancel',
+  'common.delete': 'Delete',
+  'common.undo': 'Undo',
+  'common.selectAll': 'Select all',
+  'common.deckName': '“{title}”',
+  'common.listSeparator': ', ',
+
+  'field.term': 'Term',
+  'field.meaning': 'Meaning',
+  'field.example': 'Example',
+  'field.context': 'Usage',
+  'field.translation': 'Translation',
+  'field.tags': 'Tags',
+  'tags.placeholder': 'Tags, separated by commas',
+
+  'answer.again': 'Forgot',
+  'answer.good': 'Good',
+  'answer.easy': 'Easy',
+
+  'studyMode.standard': 'Recall the meaning',
+  'studyMode.reverse': 'Recall the term',
+  'studyMode.typed': 'Spell the term',
+  'studyMode.cloze': 'Fill in the example',
+  'studyMode.choice': 'Pick the meaning',
+
+  'interval.minutes': 'in {count} min',
+  'interval.days': 'in {count|# day|# days}',
+  'interval.months': 'in {count|# month|# months}',
+  'interval.years': 'in {count} years',
+  'duration.seconds': '{seconds}s',
+  'duration.minutes': '{minutes} min',
+  'duration.minutesSeconds': '{minutes} min {seconds}s',
+
+  'sync.synced': 'Synced',
+  'sync.syncing': 'Syncing',
+  'sync.offline': 'Offline',
+  'sync.error': 'Sync failed',
+  'sync.lastSynced': 'Last synced: {time}',
+  'sync.pending': ' ({count} pending)',
+
+  // --- Auth ---
+  'auth.login': 'Log in',
+  'auth.register': 'Sign up',
+  'auth.email': 'Email',
+  'auth.password': 'Password (at least 6 characters)',
+  'auth.noAccount': 'No account yet?',
+  'auth.hasAccount': 'Already have an account?',
+  'auth.registerNow': 'Sign up',
+  'auth.loginNow': 'Log in',
+  'auth.forgotPassword': 'Forgot password?',
+  'auth.resetTitle': 'Reset password',
+  'auth.resetSend': 'Send reset email',
+  'auth.resetSent': 'A reset link has been sent to {email}. Check your inbox.',
+  'auth.backToLogin': 'Back to sign in',
+  'auth.or': 'or',
+  'auth.google': 'Continue with Google',
+  'authError.invalidEmail': 'That email address is not valid',
+  'authError.wrongCredentials': 'Wrong email or password',
+  'authError.userDisabled': 'This account has been disabled',
+  'authError.emailInUse': 'An account with this email already exists',
+  'authError.weakPassword': 'The password is too weak; use at least 6 characters',
+  'authError.missingPassword': 'Enter your password',
+  'authError.tooManyRequests': 'Too many attempts. Try again later',
+  'authError.network': 'Network error. Check your connection',
+  'authError.popupClosed': 'The sign-in window was closed',
+  'authError.popupBlocked': 'The browser blocked the sign-in window. Allow pop-ups and try again',
+  'authError.differentCredential': 'This email is registered with another sign-in method. Use that one instead',
+  'authError.recentLogin': 'Sign in again and retry',
+  'authError.userMismatch': 'That is not the account you are signed in with',
+  'authError.unknown': 'Something went wrong. Please try again',
+  'aiError.unauthenticated': 'Please sign in first.',
+  'aiError.badRequest': 'The request was malformed.',
+  'aiError.unknownType': 'Unknown request type.',
+  'aiError.providerUnavailable': 'The selected AI provider is not configured on the server.',
+  'aiError.inputTooLong': 'The input is too long (limit {max} characters).',
+  'aiError.quotaExceeded': 'You have used up today’s AI requests.',
+  'aiError.rateLimited': 'Too many requests. Please try again shortly.',
+  'aiError.providersUnavailable': 'Could not load the list of AI providers.',
+  'aiError.serverError': 'AI service error ({status})',
+  'aiError.invalidJson': 'The AI response is not valid JSON',
+  'aiError.noCards': 'The AI response has no cards array',
+  'aiError.noResult': 'The AI returned nothing for this card',
+  'aiError.unknown': 'The AI service is unavailable. Please try again later.',
+  'verify.title': 'Verify your email',
+  'verify.body': 'We sent a verification email to {email}. Click the link in it, then come back here.',
+  'verify.done': 'I\'ve verified my email',
+  'verify.resend': 'Resend the email',
+  'verify.sent': 'Verification email sent to {email}',
+  'verify.notYet': 'Not verified yet. Click the link in the email first',
+
+  // --- Home page ---
+  'app.title': 'Smart Idiom Cards',
+  'app.welcome': 'Welcome, {email}',
+  'app.language': 'Interface language',
+  'app.toggleTheme': 'Toggle theme',
+  'app.signOut': 'Sign out',
+  'app.account': 'Account',
+  'app.aiNotConfigured': 'AI not configured',
+  'app.unknownTime': 'Unknown time',
+  'app.defaultDeckTitle': 'Deck - {date}',
+  'app.dashboard': 'Overview',
+
+  'input.placeholder': 'Paste your full study notes here, including "Title:" and "Important slang/idioms/phrases"...',
+  'input.format': 'Note format',
+  'input.parse': '1. Preview cards',
+  'input.generate': 'Generate with AI',
+  'input.generateHint': 'Let the AI pick idioms, slang and phrasal verbs out of an English article or subtitles',
+  'input.save': '2. Save to cloud',
+
+  'parser.auto': 'Detect format',
+  'parser.labelled': 'Template notes (Meaning / Example…)',
+  'parser.markdown-table': 'Markdown table',
+  'parser.bullet-list': 'List (- term - meaning)',
+  'parser.lines': 'One per line (term: meaning / tab-separated)',
+  'parser.ai': 'Generated by AI',
+
+  'aliases.heading': 'Custom note labels',
+  'aliases.hint': 'Besides the built-in labels for the current language, the parser also accepts the spellings entered here (comma-separated).',
+  'aliases.builtIn': 'Built in: {labels}',
+  'aliases.meaning': 'Meaning labels',
+  'aliases.example': 'Example labels',
+  'aliases.context': 'Usage labels',
+  'aliases.translation': 'Translation labels',
+  'aliases.complexHeader': 'Key expressions heading',
+  'aliases.simpleHeader': 'Common expressions heading',
+  'aliases.title': 'Title prefixes',
+
+  'preview.title': 'Current deck',
+  'preview.clear': 'Clear preview',
+  'preview.flipHint': '(click for details)',
+  'preview.aiExamples': 'More examples from AI',
+
+  'deckList.title': 'My cloud decks',
+  'deckList.importExport': 'Import / Export',
+  'deckList.trash': 'Trash',
+  'deckList.leeches': 'Leeches',
+  'deckList.search': 'Search decks, terms, meanings, examples...',
+  'deckList.summary': '{count|# card|# cards} · {new} new · {learning} learning · {review} due',
+  'deckList.summaryCounts': '{count|# card|# cards} · {due} due',
+  'deckList.review': 'Review ({count})',
+  'deckList.edit': 'Edit',
+  'deckList.share': 'Share',
+  'deckList.print': 'Print / PDF',
+  'deckList.enrich': 'Fill empty fields with AI',
+  'deckList.shared': 'Shared',
+  'deckList.noMatch': 'No matching decks.',
+  'deckList.noMatchHint': 'Try a different search.',
+  'deckList.empty': 'Your cloud library is empty.',
+  'deckList.emptyHint': 'Generate some cards first, then click "Save to cloud".',
+
+  'notify.loadFailed': 'Could not load your decks from the cloud',
+  'notify.cardsLoadFailed': 'Could not load the cards from the cloud',
+  'notify.cardsOffline': 'This deck’s cards are not on this device yet. Connect to the internet and try again.',
+  'notify.parsed': 'Created {count|# preview card|# preview cards}!',
+  'notify.parseEmpty': 'No cards were found. See the diagnostics below.',
+  'notify.parseError': 'Something went wrong while parsing.',
+  'notify.pasteFirst': 'Paste an English article or subtitles first!',
+  'notify.noAiProvider': 'No AI provider is configured on the server.',
+  'notify.generated': 'The AI created {count|# preview card|# preview cards}. Check them before saving!',
+  'notify.generateEmpty': 'The AI did not find any new cards.',
+  'notify.generateFailed': 'AI generation failed: {error}',
+  'notify.loginFirst': 'Please log in before saving!',
+  'notify.nothingToSave': 'There are no cards to save!',
+  'notify.deckSaved': 'Deck "{title}" saved!',
+  'notify.saveFailed': 'Saving failed. Check the console for errors.',
+  'notify.imported': 'Imported {decks|# deck|# decks} with {cards|# card|# cards}!',
+  'notify.restored': 'Deck "{title}" restored',
+  'notify.restoreFailed': 'Restoring failed. Please try again.',
+  'notify.trashed': 'Deck "{title}" moved to the trash',
+  'notify.trashedShared': 'Deck "{title}" moved to the trash. Its share link no longer works; publish it again after restoring.',
+  'notify.trashSharedOffline': 'A shared deck can only be moved to the trash online, because its share link has to be revoked first.',
+  'notify.trashUnpublishFailed': 'Could not revoke the share link, so the deck was not moved to the trash. Please try again.',
+  'notify.deleteFailed': 'Deleting failed. Please try again.',
+  'notify.purged': 'Permanently deleted {count|# deck|# decks}',
+  'notify.shareOffline': 'Sharing needs a connection. Please try again later.',
+  'notify.shareUpdated': 'Shared copy updated!',
+  'notify.sharePublished': 'Deck published. Copy the link to share it.',
+  'notify.publishFailed': 'Publishing failed. Please try again.',
+  'notify.unpublished': 'Sharing stopped. The old link no longer works.',
+  'notify.unpublishFailed': 'Could not stop sharing. Please try again.',
+  'notify.deckUpdated': 'Deck updated!',
+  'notify.decksUpdated': 'Updated {count} decks!',
+  'notify.updateFailed': 'Updating failed. Please try again.',
+  'notify.editUndone': 'Changes undone',
+  'notify.undoFailed': 'Undo failed. Please try again.',
+  'notify.nothingDue': 'Well done! Nothing is due today.',
+  'notify.filterSaved': 'Saved filtered deck "{name}"',
+  'notify.reviewSaveFailed': 'Could not save the review. Check the browser storage permissions.',
+  'notify.reviewUndoFailed': 'Undo failed. Check the browser storage permissions.',
+  'notify.aiHelpFailed': 'The AI assistant is unavailable: {error}',
+  'notify.leechTagged': '"{term}" has been forgotten {count|# time|# times} and is now tagged as a leech.',
+  'notify.suspended': 'Suspended "{term}"',
+  'notify.unsuspended': '"{term}" is back in your reviews',
+  'notify.buried': '"{term}" is buried until tomorrow',
+  'notify.untagged': 'Removed the leech tag from "{term}"',
+  'notify.enriched': '{count|Filled in # card|Filled in # cards}',
+  'notify.cardUpdateFailed': 'Updating the card failed. Please try again.',
+  'notify.remindersBlocked': 'Notifications are blocked. Allow them in your browser settings and try again.',
+  'notify.profileSaveFailed': 'Saving your settings failed. Please check the browser\'s storage permissions.',
+
+  // --- Components ---
+  'daily.total': 'Due today: {count|# card|# cards}',
+  'daily.breakdown': '{new} new · {learning} learning · {review} due',
+  'daily.selectedDecks': ' · {count|# deck|# decks} selected',
+  'daily.settings': 'Review settings',
+  'daily.mode': 'Study mode',
+  'daily.start': 'Start today’s review',
+  'daily.newLimit': 'New cards per day',
+  'daily.reviewLimit': 'Reviews per day',
+  'daily.leechThreshold': 'Lapses before a card is tagged as a leech (0 = never)',
+  'daily.decks': 'Decks in today’s review',
+
+  'report.source': 'Source: ',
+  'report.generated': '{count|# card|# cards} created',
+  'report.skipped': '{count} skipped',
+  'report.warnings': '{count|# warning|# warnings}',
+  'report.collapse': 'Hide',
+  'report.expand': 'Details',
+  'report.line': 'Line {line} ',
+
+  'diagnostic.missingFields': 'Missing fields: {fields}',
+  'diagnostic.missingMeaning': 'No meaning; skipped',
+  'diagnostic.meaningWithoutTerm': 'No term before the meaning; skipped',
+  'diagnostic.fieldWithoutTerm': 'This field does not belong to any term; skipped',
+  'diagnostic.notTermMeaning': 'Not in “term - meaning” form; skipped',
+  'diagnostic.noSeparator': 'No separator (-, : or tab) between term and meaning; skipped',
+  'diagnostic.noMeaningFound': 'No meaning found; skipped',
+  'diagnostic.notListItem': 'Not a list item; skipped',
+  'diagnostic.tableWithoutColumns': 'The header has no term and meaning columns; skipped the whole table',
+  'diagnostic.emptyTerm': 'Empty term; skipped',
+  'diagnostic.emptyMeaning': 'Empty meaning; skipped',
+  'diagnostic.invalidJson': 'The AI response is not valid JSON',
+  'diagnostic.noCardsArray': 'The AI response has no cards array',
+  'diagnostic.missingTermOrMeaning': 'No term or meaning; skipped',
+  'diagnostic.duplicate': 'Already in the deck “{title}”; skipped',
+  'diagnostic.exampleNotInSource': 'The example is not in the source text; please check it',
+
+  'dashboard.reviewsToday': 'Reviews today',
+  'dashboard.totalReviews': 'Total reviews',
+  'dashboard.retention': 'Overall retention',
+  'dashboard.averageTime': 'Average answer time',
+  'dashboard.seconds': '{seconds}s',
+  'dashboard.heatmap': 'Daily reviews',
+  'dashboard.heatmapDay': '{date}: {count|# review|# reviews}',
+  'dashboard.levels': 'Familiarity',
+  'dashboard.level': 'Level {level}',
+  'dashboard.levelMax': 'Level {level}+',
+  'dashboard.forecast': 'Due in the next {days} days',
+  'dashboard.forecastSeries': 'Due cards',
+  'dashboard.today': 'Today',
+  'dashboard.dayOffset': '+{days}d',
+  'dashboard.deckRetention': 'Retention by deck',
+  'dashboard.noDecks': 'No decks yet.',
+  'dashboard.deck': 'Deck',
+  'dashboard.reviews': 'Reviews',
+  'dashboard.deckRetentionColumn': 'Retention',
+
+  'io.export': 'Export',
+  'io.import': 'Import',
+  'io.selectDecks': 'Decks',
+  'io.selectNone': 'Select none',
+  'io.cardCount': '{count|# card|# cards}',
+  'io.format': 'Format',
+  'io.format.json': 'JSON (full backup with review progress)',
+  'io.format.csv': 'CSV',
+  'io.format.tsv': 'TSV',
+  'io.format.apkg': 'Anki (.apkg)',
+  'io.backupDecks': 'These decks will be imported, with their review progress:',
+  'io.deckTitle': 'Deck title',
+  'io.hasHeader': 'First row is a header',
+  'io.mapping': 'Field mapping',
+  'io.unmapped': '(leave empty)',
+  'io.column': 'Column {index}',
+  'io.preview': 'Preview ({total} cards, showing the first {shown})',
+  'io.importAndSave': 'Import and save',
+  'io.pickDeck': 'Select at least one deck.',
+  'io.exportFailed': 'Export failed. Please try again.',
+  'io.unsupported': 'Unsupported file type. Choose a .json, .csv, .tsv or .apkg file.',
+  'io.readFailed': 'Could not read this file.',
+  'io.ankiNewFormat': 'This .apkg uses the newer compressed format. Tick “Support older Anki versions” when exporting from Anki.',
+  'io.noAnkiDatabase': 'No Anki database was found in this file.',
+  'io.invalidBackup': 'This is not a valid deck backup file.',
+  'io.defaultTitle': 'Imported deck',
+  'io.nothingToImport': 'There are no cards to import.',
+  'io.importFailed': 'Import failed. Please try again.',
+  'io.backupFileName': 'deck-backup-{date}',
+
+  'search.namePrompt': 'Name this filtered deck:',
+  'search.byTag': 'Filter by tag',
+  'search.dueOnly': 'Due only',
+  'search.maxLevel': 'Level ≤',
+  'search.anyLevel': 'Any',
+  'search.missingExample': 'No example',
+  'search.apply': 'Apply this filter',
+  'search.reviewFiltered': 'Review this filtered deck',
+  'search.found': 'Found {count|# card|# cards}',
+  'search.truncated': ' (showing the first {max})',
+  'search.save': 'Save as filtered deck',
+  'search.review': 'Review these cards',
+
+  'editor.title': 'Edit deck',
+  'editor.deckTitle': 'Deck title',
+  'editor.deckTags': 'Deck tags',
+  'editor.scheduler': 'Scheduler',
+  'editor.cards': 'Cards',
+  'editor.cardCount': ' ({count|# card|# cards})',
+  'editor.cardCountWithDuplicates': ' ({count|# card|# cards}, {duplicates} duplicated)',
+  'editor.addCard': 'Add card',
+  'editor.selected': '{count} selected',
+  'editor.resetProgress': 'Reset progress',
+  'editor.moveTo': 'Move to…',
+  'editor.cardInfo': '#{index} · level {level}',
+  'editor.moveUp': 'Move up',
+  'editor.moveDown': 'Move down',
+  'editor.resetCard': 'Reset learning progress',
+  'editor.thisDeck': 'this deck',
+  'editor.duplicateOf': 'Duplicate: {places} already has “{term}”',
+  'editor.merge': 'Merge',
+  'editor.mergeHint': 'Merge into this card and keep the better review progress',
+  'editor.unsaved': 'Unsaved changes',
+  'editor.save': 'Save changes',
+  'editor.confirmDiscard': 'You have unsaved changes. Discard them?',
+  'editor.confirmEmptyTerms': '{count|# card has|# cards have} no term. Save anyway?',
+
+  'review.verdict.correct': '✓ Correct',
+  'review.verdict.close': '≈ Close, check the spelling',
+  'review.verdict.wrong': '✗ Incorrect',
+  'review.recallTerm': 'Recall the matching term',
+  'review.hint': 'Hint: {meaning}',
+  'review.fillBlank': 'Fill in the missing words',
+  'review.typeTerm': 'Type the term',
+  'review.check': 'Check',
+  'review.dialog': 'Review: {title}',
+  'review.deck': 'Reviewing: {title}',
+  'review.leech': 'Leech',
+  'review.progress': 'Progress: {position} / {total}',
+  'review.flip': 'Flip card (Space)',
+  'review.choiceCorrect': '✓ Correct choice',
+  'review.choiceWrong': '✗ You chose: {choice}',
+  'review.howWell': 'How well did you remember?',
+  'review.next': 'next: ',
+  'review.answerAria': '{label}, {next}{interval} (press {key})',
+  'review.undo': '↶ Undo last answer',
+  'review.end': 'End review',
+  'review.bury': 'Bury until tomorrow',
+  'review.suspend': 'Suspend card',
+  'review.shortcuts': 'Space flip · 1/2/3 grade · U undo · B bury · S suspend · Esc quit',
+
+  'summary.title': 'Review complete!',
+  'summary.time': 'Time: {duration}',
+  'summary.reviewed': 'Reviews',
+  'summary.cards': 'Cards',
+  'summary.accuracy': 'Accuracy',
+  'summary.average': 'Per card',
+  'summary.answers': 'Answers',
+  'summary.hardest': 'Hardest cards',
+  'summary.forgot': 'forgot {count|# time|# times} · {duration}',
+  'summary.nextDue': 'Next review',
+  'summary.bucket': '{name}: {count|# card|# cards}',
+  'summary.bucket.tenMinutes': 'within 10 min',
+  'summary.bucket.day': 'within a day',
+  'summary.bucket.week': 'within a week',
+  'summary.bucket.month': 'within a month',
+  'summary.bucket.later': 'later',
+  'summary.undo': 'Undo last answer',
+  'summary.redrill': 'Drill {count|# forgotten card|# forgotten cards} again',
+  'summary.done': 'Done',
+
+  'trash.title': 'Trash',
+  'trash.retention': 'Deleted decks are kept for {days} days and can be restored with their review progress until then.',
+  'trash.empty': 'The trash is empty.',
+  'trash.deckInfo': '{count|# card|# cards} · deleted permanently in {days|# day|# days}',
+  'trash.restore': 'Restore',
+  'trash.purge': 'Delete permanently',
+  'trash.emptyTrash': 'Empty trash',
+  'trash.confirmOne': 'Permanently delete deck "{title}" and its review progress? This cannot be undone.',
+  'trash.confirmAll': 'Permanently delete {count|the # deck|all # decks} in the trash? This cannot be undone.',
+
+  'share.title': 'Share deck: {title}',
+  'share.publicInfo': 'Anyone with the link can view the cards (without review progress) and copy them into their own library. After editing the deck, click "Update shared copy".',
+  'share.privateInfo': 'Publishing creates a read-only link that visitors can open without signing in. Review progress stays private.',
+  'share.copy': 'Copy',
+  'share.copied': 'Copied',
+  'share.unpublish': 'Stop sharing',
+  'share.update': 'Update shared copy',
+  'share.publish': 'Publish share link',
+
+  'shared.clone': 'Copy to my decks',
+  'shared.cloneFailed': 'Copying failed. Please try again.',
+  'shared.loginToClone': 'Log in to copy this deck',
+  'shared.missing': 'This deck does not exist or is no longer shared.',
+  'shared.error': 'Loading failed. Please try again later.',
+  'shared.info': '{count|# card|# cards} · read-only',
+  'leeches.title': 'Leeches',
+  'leeches.intro': 'Cards forgotten {threshold|# time|# times} or more are tagged "leech". Suspend them, rework them and remove the tag, or let AI explain them another way.',
+  'leeches.disabled': 'Automatic tagging is off; turn it on in the daily review settings.',
+  'leeches.empty': 'No leeches right now.',
+  'leeches.deckInfo': '{count|# leech|# leeches}',
+  'leeches.lapses': 'Forgotten {count|# time|# times}',
+  'leeches.suspended': 'Suspended',
+  'leeches.suspend': 'Suspend',
+  'leeches.unsuspend': 'Unsuspend',
+  'leeches.untag': 'Remove tag',
+  'leeches.mnemonic': 'AI mnemonic',
+  'leeches.contrast': 'AI contrast',
+  'goal.progress': '{done}/{goal} reviews today',
+  'goal.none': 'No daily goal',
+  'goal.streak': '{count|# day|# days} in a row',
+  'goal.dailyGoal': 'Daily review goal',
+  'goal.reminders': 'Remind me when cards are due',
+  'reminder.title': 'Time to review',
+  'reminder.body': '{count|# card is|# cards are} waiting for review.',
+  'account.title': 'Account',
+  'account.signedInAs': 'Signed in as {email}',
+  'account.offline': 'This needs an internet connection',
+  'account.exportTitle': 'Export all data',
+  'account.exportBody': 'Download one archive with all your decks (trash included, ready to import), your full review history and your settings.',
+  'account.export': 'Download archive',
+  'account.exported': 'Your data has been exported',
+  'account.exportFailed': 'Export failed. Please try again',
+  'account.deleteTitle': 'Delete account',
+  'account.deleteBody': 'Permanently delete your account with all decks, shared links, review history and settings. This cannot be undone, so export your data first.',
+  'account.passwordPlaceholder': 'Enter your password to confirm',
+  'account.delete': 'Delete account permanently',
+  'account.deleteConfirm': 'Permanently delete your account and all of its data?',
+  'account.deleteFailed': 'Could not delete the account. Please try again',
+  'print.title': 'Print "{title}"',
+  'print.layoutCards': 'Cut-out cards',
+  'print.layoutList': 'Study list',
+  'print.fileNameCards': 'cards',
+  'print.fileNameList': 'study-list',
+  'print.cardsPerPage': 'Cards per page',
+  'print.backFields': 'On the back',
+  'print.columns': 'Columns',
+  'print.duplexHint': 'Print double-sided and flip on the long edge so each answer lands behind its term, then cut along the dashed lines.',
+  'print.pageCount': '{count|# page|# pages}',
+  'print.pageNumber': 'Page {page} of {total}',
+  'print.previewAlt': 'Preview of page {page}',
+  'print.progress': 'Rendering page {done} of {total}…',
+  'print.download': 'Download PDF',
+  'print.failed': 'Could not create the PDF. Please try again',
+  'print.noCanvas': 'This browser can’t draw the pages, so the PDF can’t be created',
+  'print.encodeFailed': 'Could not render a page image. Please try again',
+  'enrich.title': 'Fill in "{title}"',
+  'enrich.intro': '{count|# card is|# cards are} missing a meaning, example, usage note or translation. The AI will draft them, and you can check each card before anything is saved.',
+  'enrich.nothingMissing': 'Every card in this deck is already complete.',
+  'enrich.start': 'Start',
+  'enrich.progress': 'Processing card {done} of {total}…',
+  'enrich.summary': '{count|# card has|# cards have} suggestions, {failed} failed',
+  'enrich.acceptAll': 'Accept all',
+  'enrich.rejectAll': 'Reject all',
+  'enrich.failures': '{count|# card|# cards} could not be filled in (try again later)',
+  'enrich.apply': '{count|Save # card|Save # cards}',
+};
@@ -0,0 +1,50 @@
+// lib/i18n/index.ts
+// UI locales, message lookup and locale-aware formatting. zh-CN is the source catalog;
+// a key missing from another catalog falls back to it.
+import { zhCN, type MessageKey } from './zh-CN';
+import { en } from './en';
+
+export type { MessageKey };
+export type Locale = 'zh-CN' | 'en';
+export type MessageParams = Record<string, string | number>;
+export type Translator = (key: MessageKey, params?: MessageParams) => string;
+
+export const DEFAULT_LOCALE: Locale = 'zh-CN';
+
+export const LOCALES: { id: Locale; label: string }[] = [
+  { id: 'zh-CN', label: '简体中文' },
+  { id: 'en', label: 'English' },
+];
+
+const CATALOGS: Record<Locale, Partial<Record<MessageKey, string>>> = { 'zh-CN': zhCN, en };
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some(locale => locale.id === value);
+
+// The first browser language we have a catalog for.
+export const detectLocale = (): Locale => {
+  if (typeof navigator === 'undefined') return DEFAULT_LOCALE;
+  for (const language of navigator.languages ?? [navigator.language]) {
+    const lower = language.toLowerCase();
+    if (lower.startsWith('zh')) return 'zh-CN';
+    if (lower.startsWith('en')) return 'en';
+  }
+  return DEFAULT_LOCALE;
+};
+
+// {name} is replaced by the param; {count|one|other} picks a form by the locale's plural rules, # being the number.
+const interpolate = (template: string, params: MessageParams, plurals: Intl.PluralRules) =>
+  template.replace(/\{(\w+)(?:\|([^|}]*)\|([^}]*))?\}/g, (match, name: string, one?: string, other?: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    if (one === undefined || other === undefined) return String(value);
+    return (plurals.select(Number(value)) === 'one' ? one : other).replace('#', String(value));
+  });
+
+export const createTranslator = (locale: Locale): Translator => {
+  const catalog = CATALOGS[locale];
+  const plurals = new Intl.PluralRules(locale);
+  return (key, params = {}) => interpolate(catalog[key] ?? zhCN[key], params, plurals);
+};
+
+export const formatDateTime = (locale: Locale, date: Date): string =>
+  date.toLocaleString(locale, { year: 'numeric', month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false });
@@ -0,0 +1,20 @@
+// lib/i18n/parserLabels.ts
+// Note labels the parsers recognise for each UI locale. The Chinese set also keeps the
+// English spellings older notes were written with; user aliases are merged in front.
+import { DEFAULT_PARSER_LABELS, mergeParserLabels, type ParserAliases, type ParserLabels } from '../parsers';
+import type { Locale } from './index';
+
+export const LOCALE_PARSER_LABELS: Record<Locale, ParserLabels> = {
+  'zh-CN': DEFAULT_PARSER_LABELS,
+  en: {
+    meaning: ['Meaning', 'Definition'],
+    example: ['Example sentence', 'Sentence in text', 'Example'],
+    context: ['Cultural background', 'Usage notes', 'Usage', 'Context'],
+    translation: ['Translation', 'Paraphrase'],
+    complexHeader: ['Important slang/idioms/phrases', 'Slang, idioms and phrases'],
+    simpleHeader: ['Simple common expressions', 'Common expressions'],
+    title: ['Title'],
+  },
+};
+
+export const parserLabelsFor = (locale: Locale, aliases?: ParserAliases): ParserLabels => mergeParserLabels(LOCALE_PARSER_LABELS[locale], aliases);
@@ -0,0 +1,461 @@
+// lib/i18n/zh-CN.ts
+// Source catalog: every message key is defined here first. {name} is interpolated and
+// {count|one|other} picks a plural form, with # standing for the number.
+export const zhCN = {
+  // --- Common ---
+  'common.cancel': '取消',
+  'common.delete': '删除',
+  'common.undo': '撤销',
+  'common.selectAll': '全选',
+  'common.deckName': '《{title}》',
+  'common.listSeparator': '、',
+
+  'field.term': '术语',
+  'field.meaning': '释义',
+  'field.example': '例句',
+  'field.context': '用法',
+  'field.translation': '翻译',
+  'field.tags': '标签',
+  'tags.placeholder': '标签，用逗号分隔',
+
+  'answer.again': '忘记了',
+  'answer.good': '还行',
+  'answer.easy': '太简单',
+
+  'studyMode.standard': '看术语回忆释义',
+  'studyMode.reverse': '看释义回忆术语',
+  'studyMode.typed': '拼写术语',
+  'studyMode.cloze': '例句填空',
+  'studyMode.choice': '选择释义',
+
+  'interval.minutes': '{count}分钟后',
+  'interval.days': '{count}天后',
+  'interval.months': '{count}个月后',
+  'interval.years': '{count}年后',
+  'duration.seconds': '{seconds}秒',
+  'duration.minutes': '{minutes}分钟',
+  'duration.minutesSeconds': '{minutes}分{seconds}秒',
+
+  'sync.synced': '已同步',
+  'sync.syncing': '同步中',
+  'sync.offline': '离线',
+  'sync.error': '同步失败',
+  'sync.lastSynced': '上次同步：{time}',
+  'sync.pending': '（{count} 项待同步）',
+
+  // --- Auth ---
+  'auth.login': '登录',
+  'auth.register': '注册',
+  'auth.email': '邮箱',
+  'auth.password': '密码 (至少6位)',
+  'auth.noAccount': '还没有账户？',
+  'auth.hasAccount': '已有账户？',
+  'auth.registerNow': '立即注册',
+  'auth.loginNow': '立即登录',
+  'auth.forgotPassword': '忘记密码？',
+  'auth.resetTitle': '重置密码',
+  'auth.resetSend': '发送重置邮件',
+  'auth.resetSent': '重置链接已发送到 {email}，请查收邮件。',
+  'auth.backToLogin': '返回登录',
+  'auth.or': '或',
+  'auth.google': '使用 Google 账户登录',
+  'authError.invalidEmail': '邮箱地址无效',
+  'authError.wrongCredentials': '邮箱或密码错误',
+  'authError.userDisabled': '该账户已被停用',
+  'authError.emailInUse': '该邮箱已被注册',
+  'authError.weakPassword': '密码太弱，至少需要6位',
+  'authError.missingPassword': '请输入密码',
+  'authError.tooManyRequests': '尝试次数过多，请稍后再试',
+  'authError.network': '网络连接失败，请检查网络',
+  'authError.popupClosed': '登录窗口已关闭',
+  'authError.popupBlocked': '浏览器阻止了登录窗口，请允许弹出窗口',
+  'authError.differentCredential': '该邮箱已用其他方式注册，请用原来的方式登录',
+  'authError.recentLogin': '请重新登录后再试',
+  'authError.userMismatch': '验证的账户与当前账户不一致',
+  'authError.unknown': '发生未知错误，请重试',
+  'aiError.unauthenticated': '请先登录。',
+  'aiError.badRequest': '请求格式错误。',
+  'aiError.unknownType': '未知的请求类型。',
+  'aiError.providerUnavailable': '所选 AI 引擎未在服务器上配置。',
+  'aiError.inputTooLong': '输入内容过长（上限 {max} 字符）。',
+  'aiError.quotaExceeded': '今日 AI 使用次数已用完。',
+  'aiError.rateLimited': '请求过于频繁，请稍后再试。',
+  'aiError.providersUnavailable': '无法获取 AI 引擎列表。',
+  'aiError.serverError': 'AI 服务错误（{status}）',
+  'aiError.invalidJson': 'AI 返回的内容不是有效的 JSON',
+  'aiError.noCards': 'AI 返回的 JSON 中没有 cards 数组',
+  'aiError.noResult': 'AI 没有返回这张卡片的内容',
+  'aiError.unknown': 'AI 服务暂时不可用，请稍后再试。',
+  'verify.title': '请验证你的邮箱',
+  'verify.body': '我们已向 {email} 发送了一封验证邮件，点击邮件中的链接后回到这里继续。',
+  'verify.done': '我已完成验证',
+  'verify.resend': '重新发送验证邮件',
+  'verify.sent': '验证邮件已发送到 {email}',
+  'verify.notYet': '邮箱尚未验证，请先点击邮件中的链接',
+
+  // --- Home page ---
+  'app.title': '智能术语卡片',
+  'app.welcome': '欢迎, {email}',
+  'app.language': '界面语言',
+  'app.toggleTheme': '切换主题',
+  'app.signOut': '退出登录',
+  'app.account': '账户',
+  'app.aiNotConfigured': 'AI 未配置',
+  'app.unknownTime': '未知时间',
+  'app.defaultDeckTitle': '卡组 - {date}',
+  'app.dashboard': '学习总览',
+
+  'input.placeholder': '在此粘贴您的学习笔记全文，包括“标题：”和“重要俚语/习惯用语/短语”...',
+  'input.format': '笔记格式',
+  'input.parse': '1. 生成预览卡片',
+  'input.generate': 'AI 从原文生成',
+  'input.generateHint': '把英文文章或字幕原文交给 AI 提取习语、俚语和短语动词',
+  'input.save': '2. 保存到云端',
+
+  'parser.auto': '自动识别格式',
+  'parser.labelled': '模板笔记（意思解释/在文中的句子…）',
+  'parser.markdown-table': 'Markdown 表格',
+  'parser.bullet-list': '列表（- 术语 - 释义）',
+  'parser.lines': '逐行（术语: 释义 / 制表符分隔）',
+  'parser.ai': 'AI 从原文生成',
+
+  'aliases.heading': '自定义笔记标签',
+  'aliases.hint': '除了当前语言的内置标签，解析笔记时还会识别这里填写的写法（用逗号分隔）。',
+  'aliases.builtIn': '内置：{labels}',
+  'aliases.meaning': '释义标签',
+  'aliases.example': '例句标签',
+  'aliases.context': '用法标签',
+  'aliases.translation': '翻译标签',
+  'aliases.complexHeader': '重点表达小节标题',
+  'aliases.simpleHeader': '常见表达小节标题',
+  'aliases.title': '标题前缀',
+
+  'preview.title': '当前卡组',
+  'preview.clear': '清除预览',
+  'preview.flipHint': '（点击查看详情）',
+  'preview.aiExamples': 'AI 提供更多例句',
+
+  'deckList.title': '我的云端卡组',
+  'deckList.importExport': '导入 / 导出',
+  'deckList.trash': '回收站',
+  'deckList.leeches': '难记卡片',
+  'deckList.search': '搜索卡组、术语、释义、例句...',
+  'deckList.summary': '{count} 张卡片 · 新 {new} · 学习中 {learning} · 待复习 {review}',
+  'deckList.summaryCounts': '{count} 张卡片 · 待复习 {due}',
+  'deckList.review': '复习 ({count})',
+  'deckList.edit': '编辑',
+  'deckList.share': '分享',
+  'deckList.print': '打印 / PDF',
+  'deckList.enrich': 'AI 补全空白字段',
+  'deckList.shared': '已分享',
+  'deckList.noMatch': '找不到匹配的卡组。',
+  'deckList.noMatchHint': '请尝试更换搜索关键词。',
+  'deckList.empty': '您的云端仓库是空的。',
+  'deckList.emptyHint': '请先生成卡片，然后点击“保存到云端”。',
+
+  'notify.loadFailed': '无法从云端加载您的卡组',
+  'notify.cardsLoadFailed': '无法从云端加载卡片',
+  'notify.cardsOffline': '这个卡组的卡片还没有下载到本设备，请联网后再试',
+  'notify.parsed': '成功生成 {count} 张预览卡片！',
+  'notify.parseEmpty': '解析失败，未提取到卡片，请查看下方诊断信息。',
+  'notify.parseError': '解析时发生错误。',
+  'notify.pasteFirst': '请先粘贴英文文章或字幕原文！',
+  'notify.noAiProvider': '服务器尚未配置任何 AI 引擎。',
+  'notify.generated': 'AI 生成了 {count} 张预览卡片，请检查后保存！',
+  'notify.generateEmpty': 'AI 没有生成新的卡片。',
+  'notify.generateFailed': 'AI 生成失败: {error}',
+  'notify.loginFirst': '请先登录后再保存！',
+  'notify.nothingToSave': '没有可以保存的卡片！',
+  'notify.deckSaved': '卡组 "{title}" 保存成功！',
+  'notify.saveFailed': '保存失败，请检查控制台错误。',
+  'notify.imported': '成功导入 {decks} 个卡组，共 {cards} 张卡片！',
+  'notify.restored': '卡组 "{title}" 已恢复',
+  'notify.restoreFailed': '恢复失败，请重试。',
+  'notify.trashed': '卡组 "{title}" 已移到回收站',
+  'notify.trashedShared': '卡组 "{title}" 已移到回收站，分享链接已失效。恢复后需要重新发布。',
+  'notify.trashSharedOffline': '已分享的卡组需要联网才能移到回收站，因为要先撤销分享链接',
+  'notify.trashUnpublishFailed': '无法撤销分享链接，卡组未移到回收站。请重试。',
+  'notify.deleteFailed': '删除失败，请重试。',
+  'notify.purged': '已永久删除 {count} 个卡组',
+  'notify.shareOffline': '分享需要联网，请稍后再试。',
+  'notify.shareUpdated': '分享内容已更新！',
+  'notify.sharePublished': '卡组已发布，复制链接即可分享。',
+  'notify.publishFailed': '发布失败，请重试。',
+  'notify.unpublished': '已取消分享，原链接已失效。',
+  'notify.unpublishFailed': '取消分享失败，请重试。',
+  'notify.deckUpdated': '卡组已成功更新！',
+  'notify.decksUpdated': '已更新 {count} 个卡组！',
+  'notify.updateFailed': '更新失败，请重试。',
+  'notify.editUndone': '已撤销修改',
+  'notify.undoFailed': '撤销失败，请重试。',
+  'notify.nothingDue': '太棒了！今天没有需要复习的卡片。',
+  'notify.filterSaved': '已保存筛选卡组「{name}」',
+  'notify.reviewSaveFailed': '复习结果保存失败，请检查浏览器存储权限。',
+  'notify.reviewUndoFailed': '撤销失败，请检查浏览器存储权限。',
+  'notify.aiHelpFailed': 'AI 助教暂时无法连接: {error}',
+  'notify.leechTagged': '「{term}」已忘记 {count} 次，已标记为难记卡片。',
+  'notify.suspended': '已暂停「{term}」',
+  'notify.unsuspended': '「{term}」已恢复复习',
+  'notify.buried': '「{term}」明天再复习',
+  'notify.untagged': '已移除「{term}」的难记标记',
+  'notify.enriched': '已为 {count} 张卡片补全内容',
+  'notify.cardUpdateFailed': '更新卡片失败，请重试。',
+  'notify.remindersBlocked': '浏览器不允许通知，请在浏览器设置中开启后再试。',
+  'notify.profileSaveFailed': '个人设置保存失败，请检查浏览器存储权限。',
+
+  // --- Components ---
+  'daily.total': '今日复习：{count} 张',
+  'daily.breakdown': '新卡片 {new} · 学习中 {learning} · 待复习 {review}',
+  'daily.selectedDecks': ' · 已选 {count} 个卡组',
+  'daily.settings': '复习设置',
+  'daily.mode': '复习模式',
+  'daily.start': '开始今日复习',
+  'daily.newLimit': '每日新卡片上限',
+  'daily.reviewLimit': '每日复习上限',
+  'daily.leechThreshold': '忘记几次后标记为难记卡片（0 为不标记）',
+  'daily.decks': '参与今日复习的卡组',
+
+  'report.source': '来源：',
+  'report.generated': '生成 {count} 张',
+  'report.skipped': '跳过 {count} 处',
+  'report.warnings': '{count} 条提醒',
+  'report.collapse': '收起',
+  'report.expand': '详情',
+  'report.line': '第 {line} 行',
+
+  'diagnostic.missingFields': '缺少字段：{fields}',
+  'diagnostic.missingMeaning': '缺少“意思解释”，已跳过',
+  'diagnostic.meaningWithoutTerm': '“意思解释”前没有找到术语，已跳过',
+  'diagnostic.fieldWithoutTerm': '该字段不属于任何术语，已跳过',
+  'diagnostic.notTermMeaning': '不是“术语 - 释义”格式，已跳过',
+  'diagnostic.noSeparator': '没有找到术语与释义之间的分隔符（-、: 或制表符），已跳过',
+  'diagnostic.noMeaningFound': '没有找到释义，已跳过',
+  'diagnostic.notListItem': '不是列表项，已跳过',
+  'diagnostic.tableWithoutColumns': '表头中没有“术语”和“释义”列，已跳过整张表格',
+  'diagnostic.emptyTerm': '术语为空，已跳过',
+  'diagnostic.emptyMeaning': '释义为空，已跳过',
+  'diagnostic.invalidJson': 'AI 返回的内容不是有效的 JSON',
+  'diagnostic.noCardsArray': 'AI 返回的 JSON 中没有 cards 数组',
+  'diagnostic.missingTermOrMeaning': '缺少术语或释义，已跳过',
+  'diagnostic.duplicate': '已存在于卡组《{title}》，已跳过',
+  'diagnostic.exampleNotInSource': '例句不在原文中，请核对',
+
+  'dashboard.reviewsToday': '今日复习',
+  'dashboard.totalReviews': '累计复习记录',
+  'dashboard.retention': '整体记忆保持率',
+  'dashboard.averageTime': '平均作答时间',
+  'dashboard.seconds': '{seconds} 秒',
+  'dashboard.heatmap': '每日复习热力图',
+  'dashboard.heatmapDay': '{date}: {count} 次复习',
+  'dashboard.levels': '熟悉度分布',
+  'dashboard.level': '等级 {level}',
+  'dashboard.levelMax': '等级 {level}+',
+  'dashboard.forecast': '未来 {days} 天到期预测',
+  'dashboard.forecastSeries': '到期卡片',
+  'dashboard.today': '今天',
+  'dashboard.dayOffset': '+{days}天',
+  'dashboard.deckRetention': '各卡组记忆保持率',
+  'dashboard.noDecks': '暂无卡组。',
+  'dashboard.deck': '卡组',
+  'dashboard.reviews': '复习次数',
+  'dashboard.deckRetentionColumn': '保持率',
+
+  'io.export': '导出',
+  'io.import': '导入',
+  'io.selectDecks': '选择卡组',
+  'io.selectNone': '全不选',
+  'io.cardCount': '{count} 张',
+  'io.format': '格式',
+  'io.format.json': 'JSON（完整备份，含复习进度）',
+  'io.format.csv': 'CSV',
+  'io.format.tsv': 'TSV',
+  'io.format.apkg': 'Anki (.apkg)',
+  'io.backupDecks': '将导入以下卡组（包含复习进度）：',
+  'io.deckTitle': '卡组标题',
+  'io.hasHeader': '首行为表头',
+  'io.mapping': '字段映射',
+  'io.unmapped': '（留空）',
+  'io.column': '列 {index}',
+  'io.preview': '预览（共 {total} 张，显示前 {shown} 张）',
+  'io.importAndSave': '导入并保存',
+  'io.pickDeck': '请至少选择一个卡组。',
+  'io.exportFailed': '导出失败，请重试。',
+  'io.unsupported': '不支持的文件类型，请选择 .json、.csv、.tsv 或 .apkg 文件。',
+  'io.readFailed': '无法读取该文件。',
+  'io.ankiNewFormat': '该 .apkg 使用了新版压缩格式，请在 Anki 导出时勾选“兼容旧版本”。',
+  'io.noAnkiDatabase': '文件中没有找到 Anki 数据库。',
+  'io.invalidBackup': '不是有效的卡组备份文件。',
+  'io.defaultTitle': '导入的卡组',
+  'io.nothingToImport': '没有可以导入的卡片。',
+  'io.importFailed': '导入失败，请重试。',
+  'io.backupFileName': '卡组备份-{date}',
+
+  'search.namePrompt': '为这个筛选卡组命名：',
+  'search.byTag': '按标签筛选',
+  'search.dueOnly': '仅到期',
+  'search.maxLevel': '熟练度 ≤',
+  'search.anyLevel': '不限',
+  'search.missingExample': '缺少例句',
+  'search.apply': '应用此筛选',
+  'search.reviewFiltered': '复习此筛选卡组',
+  'search.found': '找到 {count} 张卡片',
+  'search.truncated': '（显示前 {max} 张）',
+  'search.save': '保存为筛选卡组',
+  'search.review': '复习这些卡片',
+
+  'editor.title': '编辑卡组',
+  'editor.deckTitle': '卡组标题',
+  'editor.deckTags': '卡组标签',
+  'editor.scheduler': '复习算法',
+  'editor.cards': '卡片内容',
+  'editor.cardCount': '（{count} 张）',
+  'editor.cardCountWithDuplicates': '（{count} 张，{duplicates} 张重复）',
+  'editor.addCard': '添加卡片',
+  'editor.selected': '已选 {count} 张',
+  'editor.resetProgress': '重置进度',
+  'editor.moveTo': '移动到…',
+  'editor.cardInfo': '#{index} · 熟练度 {level}',
+  'editor.moveUp': '上移',
+  'editor.moveDown': '下移',
+  'editor.resetCard': '重置学习进度',
+  'editor.thisDeck': '本卡组',
+  'editor.duplicateOf': '重复：{places}中已有“{term}”',
+  'editor.merge': '合并',
+  'editor.mergeHint': '合并到这张卡片，保留更好的复习进度',
+  'editor.unsaved': '有未保存的更改',
+  'editor.save': '保存更改',
+  'editor.confirmDiscard': '有尚未保存的更改，确定要放弃吗？',
+  'editor.confirmEmptyTerms': '有 {count} 张卡片没有填写术语，仍要保存吗？',
+
+  'review.verdict.correct': '✓ 正确',
+  'review.verdict.close': '≈ 接近，注意拼写',
+  'review.verdict.wrong': '✗ 不正确',
+  'review.recallTerm': '回忆对应的术语',
+  'review.hint': '提示：{meaning}',
+  'review.fillBlank': '填入空缺的词语',
+  'review.typeTerm': '输入术语',
+  'review.check': '检查答案',
+  'review.dialog': '复习：{title}',
+  'review.deck': '复习中: {title}',
+  'review.leech': '难记',
+  'review.progress': '进度: {position} / {total}',
+  'review.flip': '翻转卡片（空格）',
+  'review.choiceCorrect': '✓ 选择正确',
+  'review.choiceWrong': '✗ 你选择了：{choice}',
+  'review.howWell': '你记得怎么样？',
+  'review.next': '下次: ',
+  'review.answerAria': '{label}，{next}{interval}（按 {key}）',
+  'review.undo': '↶ 撤销上一题',
+  'review.end': '结束复习',
+  'review.bury': '明天再复习',
+  'review.suspend': '暂停此卡',
+  'review.shortcuts': '空格 翻面 · 1/2/3 评分 · U 撤销 · B 明天再复习 · S 暂停 · Esc 退出',
+
+  'summary.title': '本次复习完成！',
+  'summary.time': '用时 {duration}',
+  'summary.reviewed': '复习次数',
+  'summary.cards': '卡片数',
+  'summary.accuracy': '正确率',
+  'summary.average': '平均每张',
+  'summary.answers': '回答分布',
+  'summary.hardest': '最难的卡片',
+  'summary.forgot': '忘记 {count} 次 · {duration}',
+  'summary.nextDue': '下次复习',
+  'summary.bucket': '{name}：{count} 张',
+  'summary.bucket.tenMinutes': '10分钟内',
+  'summary.bucket.day': '1天内',
+  'summary.bucket.week': '1周内',
+  'summary.bucket.month': '1个月内',
+  'summary.bucket.later': '更久以后',
+  'summary.undo': '撤销上一题',
+  'summary.redrill': '重练忘记的 {count} 张',
+  'summary.done': '完成',
+
+  'trash.title': '回收站',
+  'trash.retention': '删除的卡组会保留 {days} 天，期间可以连同复习进度一起恢复。',
+  'trash.empty': '回收站是空的。',
+  'trash.deckInfo': '{count} 张卡片 · {days} 天后永久删除',
+  'trash.restore': '恢复',
+  'trash.purge': '永久删除',
+  'trash.emptyTrash': '清空回收站',
+  'trash.confirmOne': '永久删除卡组 "{title}" 及其复习进度？此操作无法撤销。',
+  'trash.confirmAll': '永久删除回收站中的 {count} 个卡组？此操作无法撤销。',
+
+  'share.title': '分享卡组：{title}',
+  'share.publicInfo': '任何拿到链接的人都能查看卡片内容（不含复习进度），并复制到自己的卡组。卡组修改后需点击“更新分享内容”。',
+  'share.privateInfo': '发布后会生成一个只读链接，未登录的访客也能浏览卡片内容；复习进度不会公开。',
+  'share.copy': '复制',
+  'share.copied': '已复制',
+  'share.unpublish': '取消分享',
+  'share.update': '更新分享内容',
+  'share.publish': '发布分享链接',
+
+  'shared.clone': '复制到我的卡组',
+  'shared.cloneFailed': '复制失败，请重试。',
+  'shared.loginToClone': '登录后即可复制到我的卡组',
+  'shared.missing': '该卡组不存在或已取消分享。',
+  'shared.error': '加载失败，请稍后重试。',
+  'shared.info': '{count} 张卡片 · 只读分享',
+  'leeches.title': '难记卡片',
+  'leeches.intro': '忘记 {threshold} 次及以上的卡片会自动加上 leech 标签。可以暂停它们、修改后移除标记，或让 AI 换个角度帮你记。',
+  'leeches.disabled': '已关闭自动标记，可在今日复习设置中开启。',
+  'leeches.empty': '目前没有难记卡片。',
+  'leeches.deckInfo': '{count} 张难记卡片',
+  'leeches.lapses': '忘记 {count} 次',
+  'leeches.suspended': '已暂停',
+  'leeches.suspend': '暂停',
+  'leeches.unsuspend': '恢复复习',
+  'leeches.untag': '移除标记',
+  'leeches.mnemonic': 'AI 记忆口诀',
+  'leeches.contrast': 'AI 辨析',
+  'goal.progress': '今日已复习 {done}/{goal}',
+  'goal.none': '未设置每日目标',
+  'goal.streak': '连续学习 {count} 天',
+  'goal.dailyGoal': '每日复习目标',
+  'goal.reminders': '有卡片到期时提醒我',
+  'reminder.title': '该复习了',
+  'reminder.body': '有 {count} 张卡片等待复习。',
+  'account.title': '账户',
+  'account.signedInAs': '当前登录：{email}',
+  'account.offline': '此操作需要联网',
+  'account.exportTitle': '导出全部数据',
+  'account.exportBody': '下载一个压缩包，包含所有卡组（含回收站，可直接导入）、全部复习记录和个人设置。',
+  'account.export': '下载压缩包',
+  'account.exported': '数据已导出',
+  'account.exportFailed': '导出失败，请重试',
+  'account.deleteTitle': '删除账户',
+  'account.deleteBody': '永久删除账户以及所有卡组、分享链接、复习记录和个人设置，无法恢复。建议先导出数据。',
+  'account.passwordPlaceholder': '输入密码以确认',
+  'account.delete': '永久删除账户',
+  'account.deleteConfirm': '确定要永久删除账户和所有数据吗？',
+  'account.deleteFailed': '删除账户失败，请重试',
+  'print.title': '打印《{title}》',
+  'print.layoutCards': '双面卡片',
+  'print.layoutList': '学习清单',
+  'print.fileNameCards': '卡片',
+  'print.fileNameList': '学习清单',
+  'print.cardsPerPage': '每页卡片数',
+  'print.backFields': '背面内容',
+  'print.columns': '表格列',
+  'print.duplexHint': '双面打印时选择“长边翻转”，背面内容会正好印在对应术语的背后，沿虚线裁开即可。',
+  'print.pageCount': '共 {count} 页',
+  'print.pageNumber': '第 {page}/{total} 页',
+  'print.previewAlt': '第 {page} 页预览',
+  'print.progress': '正在生成 {done}/{total} 页…',
+  'print.download': '下载 PDF',
+  'print.failed': '生成 PDF 失败，请重试',
+  'print.noCanvas': '浏览器不支持 Canvas 绘图，无法生成 PDF',
+  'print.encodeFailed': '无法生成页面图像，请重试',
+  'enrich.title': '补全《{title}》',
+  'enrich.intro': '有 {count} 张卡片缺少释义、例句、用法或翻译。AI 会为它们生成内容，保存前你可以逐张确认。',
+  'enrich.nothingMissing': '这个卡组的卡片都已填写完整。',
+  'enrich.start': '开始补全',
+  'enrich.progress': '正在处理 {done}/{total} 张卡片…',
+  'enrich.summary': '{count} 张卡片有新内容，{failed} 张失败',
+  'enrich.acceptAll': '全部接受',
+  'enrich.rejectAll': '全部拒绝',
+  'enrich.failures': '{count} 张卡片未能补全（可稍后重试）',
+  'enrich.apply': '保存 {count} 张卡片',
+};
+
+export type MessageKey = keyof typeof zhCN;
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import { applyReview, createCard } from './cards';
+import { exportDecksToJson } from './exporters';
+import { parseBackup } from './importers';
+import type { Deck } from './types';
+
+const now = new Date('2025-01-01T08:00:00Z');
+
+describe('parseBackup', () => {
+  const reviewed = applyReview(createCard({ term: '画龙点睛', meaning: '比喻关键处的点拨', example: '', context: '', translation: '' }), 'good', 'sm2', now);
+  const deck: Deck = { id: 'deck-1', title: '成语', cards: [{ ...reviewed, tags: ['课文'] }], createdAt: Timestamp.fromDate(now), ownerId: 'alice', scheduler: 'sm2', tags: [] };
+
+  it('gives restored cards new ids', () => {
+    const [first] = parseBackup(exportDecksToJson([deck]));
+    const [second] = parseBackup(exportDecksToJson([deck]));
+    expect(first.cards[0].id).not.toBe(reviewed.id);
+    expect(second.cards[0].id).not.toBe(first.cards[0].id);
+  });
+
+  it('keeps the scheduling fields and tags', () => {
+    const [restored] = parseBackup(exportDecksToJson([deck]));
+    expect(restored.cards[0].srs).toEqual(reviewed.srs);
+    expect(restored.cards[0].srsLevel).toBe(reviewed.srsLevel);
+    expect(restored.cards[0].dueDate.toMillis()).toBe(reviewed.dueDate.toMillis());
+    expect(restored.cards[0].tags).toEqual(['课文']);
+  });
+});
@@ -0,0 +1,122 @@
+// lib/importers.ts
+import { Timestamp } from 'firebase/firestore';
+import type { Card, CardContent, SchedulerId } from './types';
+import type { MessageKey } from './i18n';
+import { BACKUP_FORMAT, type DeckBackup } from './exporters';
+import { normalizeCard } from './cards';
+
+export type ImportKind = 'json' | 'csv' | 'tsv' | 'apkg';
+export interface ImportTable { columns: string[]; rows: string[][]; }
+export type CardField = keyof CardContent;
+// Column index for every card field, -1 when the field is left empty.
+export type FieldMapping = Record<CardField, number>;
+export interface ImportedDeck { title: string; scheduler?: SchedulerId; tags?: string[]; cards: Card[]; }
+
+export const CARD_FIELDS: CardField[] = ['term', 'meaning', 'example', 'context', 'translation'];
+
+// Header names we recognise per field, compared case-insensitively.
+const FIELD_ALIASES: Record<CardField, string[]> = {
+  term: ['term', 'front', 'word', 'expression', '术语', '正面', '单词'],
+  meaning: ['meaning', 'back', 'definition', '释义', '意思', '背面'],
+  example: ['example', 'sentence', '例句', '在文中的句子'],
+  context: ['context', 'usage', 'notes', '用法', '背景'],
+  translation: ['translation', '翻译'],
+};
+
+export const detectImportKind = (fileName: string): ImportKind | null => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'json' || extension === 'csv' || extension === 'tsv' || extension === 'apkg') return extension;
+  if (extension === 'txt') return 'tsv';
+  return null;
+};
+
+// RFC 4180 style parsing: quoted fields may contain delimiters, doubled quotes and newlines.
+export const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const source = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') inQuotes = false;
+      else field += char;
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field); field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      rows.push(row); row = [];
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) { row.push(field); rows.push(row); }
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+};
+
+export const guessDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  if (firstLine.includes('\t')) return '\t';
+  if (firstLine.includes(';') && !firstLine.includes(',')) return ';';
+  return ',';
+};
+
+const matchesAlias = (column: string, field: CardField) => FIELD_ALIASES[field].includes(column.trim().toLowerCase());
+
+export const matchCardField = (column: string): CardField | null => CARD_FIELDS.find(field => matchesAlias(column, field)) ?? null;
+
+export const looksLikeHeader = (row: string[]): boolean => row.some(value => CARD_FIELDS.some(field => matchesAlias(value, field)));
+
+// Columns without a header name are left blank; the mapping UI numbers them.
+export const tableFromDelimited = (text: string, hasHeader: boolean, delimiter = guessDelimiter(text)): ImportTable => {
+  const rows = parseDelimited(text, delimiter);
+  const width = Math.max(0, ...rows.map(r => r.length));
+  const padded = rows.map(r => [...r, ...Array(width - r.length).fill('')]);
+  if (hasHeader && padded.length > 0) return { columns: padded[0].map(c => c.trim()), rows: padded.slice(1) };
+  return { columns: Array(width).fill(''), rows: padded };
+};
+
+// Prefer header names; otherwise fall back to the export column order.
+export const guessMapping = (columns: string[]): FieldMapping => {
+  const mapping = {} as FieldMapping;
+  const byName = CARD_FIELDS.some(field => columns.some(column => matchesAlias(column, field)));
+  CARD_FIELDS.forEach((field, position) => {
+    mapping[field] = byName ? columns.findIndex(column => matchesAlias(column, field)) : (position < columns.length ? position : -1);
+  });
+  return mapping;
+};
+
+export const mapTableToCards = (table: ImportTable, mapping: FieldMapping): CardContent[] => table.rows
+  .map(row => {
+    const value = (field: CardField) => mapping[field] >= 0 ? (row[mapping[field]] || '').trim() : '';
+    return { term: value('term'), meaning: value('meaning'), example: value('example'), context: value('context'), translation: value('translation') };
+  })
+  .filter(card => card.term !== '');
+
+// Restored cards get new ids so a backup of a deck that still exists does not produce two cards with
+// the same id; their scheduling fields are kept.
+export const parseBackup = (text: string): ImportedDeck[] => {
+  const data = JSON.parse(text) as DeckBackup;
+  if (!data || data.format !== BACKUP_FORMAT || !Array.isArray(data.decks)) throw Object.assign(new Error('import/invalid-backup'), { code: 'import/invalid-backup' });
+  return data.decks.map(deck => ({
+    title: deck.title,
+    scheduler: deck.scheduler,
+    tags: deck.tags,
+    cards: (deck.cards || []).map(card => normalizeCard({ ...card, id: crypto.randomUUID(), dueDate: Timestamp.fromMillis(card.dueDate || Date.now()) } as Card)),
+  }));
+};
+
+// Import errors carry a code (lib/anki.ts uses the same ones); anything else, such as a JSON
+// syntax error or a corrupt database, gets the generic message.
+const IMPORT_ERROR_KEYS: Record<string, MessageKey> = {
+  'import/anki-new-format': 'io.ankiNewFormat',
+  'import/no-anki-database': 'io.noAnkiDatabase',
+  'import/invalid-backup': 'io.invalidBackup',
+};
+
+export const importErrorKey = (err: unknown): MessageKey => IMPORT_ERROR_KEYS[(err as { code?: string })?.code ?? ''] ?? 'io.readFailed';
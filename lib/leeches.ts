@@ -0,0 +1,33 @@
+// lib/leeches.ts
+// Cards the learner keeps forgetting. A card is tagged as a leech once its lapse count reaches
+// the user's threshold; suspended cards and cards buried until tomorrow stay out of every queue.
+import type { Card, Deck } from './types';
+
+export const LEECH_TAG = 'leech';
+export const DEFAULT_LEECH_THRESHOLD = 8;
+
+export const isLeech = (card: Card) => (card.tags ?? []).some(tag => tag.toLowerCase() === LEECH_TAG);
+
+// Applied when a card is answered 忘记了, the only answer that adds a lapse.
+export const tagIfLeech = (card: Card, threshold: number): Card => {
+  if (threshold <= 0 || card.srs.lapses < threshold || isLeech(card)) return card;
+  return { ...card, tags: [...(card.tags ?? []), LEECH_TAG] };
+};
+
+// The fields an updateCard write sets, with defaults so Firestore never receives undefined.
+export const cardFlags = (card: Card) => ({ tags: card.tags ?? [], suspended: !!card.suspended, buriedUntil: card.buriedUntil ?? null });
+
+export const isBuried = (card: Card, now = new Date()) => !!card.buriedUntil && card.buriedUntil > now.getTime();
+
+// Whether the card may be shown in a review session at all, due or not.
+export const isReviewable = (card: Card, now = new Date()) => !card.suspended && !isBuried(card, now);
+
+// Buried cards come back at the start of the next local day.
+export const tomorrow = (now = new Date()) => new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1).getTime();
+
+export interface DeckLeeches { deck: Deck; cards: Card[]; }
+
+// Leech-tagged cards per deck, most lapses first; decks without leeches are left out.
+export const findLeeches = (decks: Deck[]): DeckLeeches[] => decks
+  .map(deck => ({ deck, cards: (deck.cards || []).filter(isLeech).sort((a, b) => b.srs.lapses - a.srs.lapses) }))
+  .filter(group => group.cards.length > 0);
@@ -0,0 +1,131 @@
+// lib/localStore.ts
+// IndexedDB persistence for the offline-first layer: a per-user deck cache and the
+// queue of writes that still have to reach Firestore. Timestamps are stored as epoch
+// milliseconds because Firestore Timestamp instances don't survive structured cloning.
+import { Timestamp } from 'firebase/firestore';
+import type { Card, Deck, ReviewLogEntry } from './types';
+import type { UserProfile } from './profile';
+
+const DB_NAME = 'smart-idiom-cards';
+const DB_VERSION = 1;
+const DECKS_STORE = 'decks';
+const QUEUE_STORE = 'pendingWrites';
+
+// --- Stored shapes ---
+export type StoredCard = Omit<Card, 'dueDate'> & { dueDate: number };
+export type StoredDeck = Omit<Deck, 'cards' | 'createdAt' | 'deletedAt'> & { cards: StoredCard[]; createdAt: number; deletedAt?: number | null };
+export type StoredReviewLog = Omit<ReviewLogEntry, 'reviewedAt'> & { reviewedAt: number };
+
+export type StoredDeckChanges = Partial<Pick<StoredDeck, 'title' | 'scheduler' | 'tags' | 'deletedAt'>>;
+export type StoredCardChanges = Partial<Pick<StoredCard, 'tags' | 'suspended' | 'buriedUntil'>>;
+
+export type PendingWrite =
+  | { kind: 'createDeck'; deck: StoredDeck }
+  | { kind: 'updateDeck'; deckId: string; changes: StoredDeckChanges }
+  | { kind: 'saveCards'; deckId: string; added: StoredCard[]; edited: StoredCard[]; rescheduled?: StoredCard[]; deletedIds: string[]; order?: string[] | null }
+  | { kind: 'deleteDeck'; deckId: string }
+  | { kind: 'reviewCard'; deckId: string; card: StoredCard }
+  | { kind: 'updateCard'; deckId: string; cardId: string; changes: StoredCardChanges }
+  | { kind: 'reviewLog'; entry: StoredReviewLog }
+  | { kind: 'undoReview'; deckId: string; card: StoredCard; logId: string }
+  | { kind: 'updateProfile'; changes: Partial<UserProfile> };
+export type QueuedWrite = PendingWrite & { id: number; ownerId: string; queuedAt: number };
+
+const millis = (timestamp: Timestamp | undefined) => timestamp && timestamp.toMillis ? timestamp.toMillis() : Date.now();
+
+export const toStoredCard = (card: Card): StoredCard => ({ ...card, dueDate: millis(card.dueDate) });
+export const fromStoredCard = (card: StoredCard): Card => ({ ...card, dueDate: Timestamp.fromMillis(card.dueDate) });
+const optionalMillis = (timestamp: Timestamp | null | undefined) => timestamp ? millis(timestamp) : null;
+const optionalTimestamp = (ms: number | null | undefined) => typeof ms === 'number' ? Timestamp.fromMillis(ms) : null;
+
+export const toStoredDeck = (deck: Deck): StoredDeck => ({ ...deck, createdAt: millis(deck.createdAt), deletedAt: optionalMillis(deck.deletedAt), cards: (deck.cards || []).map(toStoredCard) });
+export const fromStoredDeck = (deck: StoredDeck): Deck => ({ ...deck, createdAt: Timestamp.fromMillis(deck.createdAt), deletedAt: optionalTimestamp(deck.deletedAt), cards: deck.cards.map(fromStoredCard) });
+export const fromStoredDeckChanges = ({ deletedAt, ...changes }: StoredDeckChanges): Partial<Deck> => deletedAt === undefined ? changes : { ...changes, deletedAt: optionalTimestamp(deletedAt) };
+export const toStoredReviewLog = (entry: ReviewLogEntry): StoredReviewLog => ({ ...entry, reviewedAt: millis(entry.reviewedAt) });
+export const fromStoredReviewLog = (entry: StoredReviewLog): ReviewLogEntry => ({ ...entry, reviewedAt: Timestamp.fromMillis(entry.reviewedAt) });
+
+// --- IndexedDB plumbing ---
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(DECKS_STORE)) db.createObjectStore(DECKS_STORE, { keyPath: 'id' }).createIndex('ownerId', 'ownerId');
+      if (!db.objectStoreNames.contains(QUEUE_STORE)) db.createObjectStore(QUEUE_STORE, { keyPath: 'id', autoIncrement: true }).createIndex('ownerId', 'ownerId');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => { dbPromise = null; reject(request.error); };
+  });
+  return dbPromise;
+};
+
+const requestToPromise = <T,>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+const getAllByOwner = async <T,>(storeName: string, ownerId: string): Promise<T[]> => {
+  const db = await openDb();
+  return requestToPromise(db.transaction(storeName).objectStore(storeName).index('ownerId').getAll(ownerId)) as Promise<T[]>;
+};
+
+// --- Deck cache ---
+export const getCachedDecks = async (ownerId: string): Promise<Deck[]> => {
+  const decks = await getAllByOwner<StoredDeck>(DECKS_STORE, ownerId);
+  return decks.map(fromStoredDeck).sort((a, b) => b.createdAt.toMillis() - a.createdAt.toMillis());
+};
+
+// Replaces the user's cached decks with the given list.
+export const replaceCachedDecks = async (ownerId: string, decks: Deck[]) => {
+  const db = await openDb();
+  const tx = db.transaction(DECKS_STORE, 'readwrite');
+  const store = tx.objectStore(DECKS_STORE);
+  const existingKeys = await requestToPromise(store.index('ownerId').getAllKeys(ownerId));
+  existingKeys.forEach(key => store.delete(key));
+  decks.forEach(deck => store.put(toStoredDeck(deck)));
+  await transactionDone(tx);
+};
+
+// --- Write queue ---
+// Writes are queued in one transaction: either all of them are queued or none is.
+export const enqueueWrites = async (ownerId: string, writes: PendingWrite[]) => {
+  const db = await openDb();
+  const tx = db.transaction(QUEUE_STORE, 'readwrite');
+  const store = tx.objectStore(QUEUE_STORE);
+  const queuedAt = Date.now();
+  writes.forEach(write => store.add({ ...write, ownerId, queuedAt }));
+  await transactionDone(tx);
+};
+
+export const getQueuedWrites = async (ownerId: string): Promise<QueuedWrite[]> => {
+  const writes = await getAllByOwner<QueuedWrite>(QUEUE_STORE, ownerId);
+  return writes.sort((a, b) => a.id - b.id);
+};
+
+// Drops the user's cached decks and any writes that never reached Firestore.
+export const clearLocalData = async (ownerId: string) => {
+  const db = await openDb();
+  const tx = db.transaction([DECKS_STORE, QUEUE_STORE], 'readwrite');
+  for (const storeName of [DECKS_STORE, QUEUE_STORE]) {
+    const store = tx.objectStore(storeName);
+    const keys = await requestToPromise(store.index('ownerId').getAllKeys(ownerId));
+    keys.forEach(key => store.delete(key));
+  }
+  await transactionDone(tx);
+};
+
+export const removeQueuedWrite = async (id: number) => {
+  const db = await openDb();
+  const tx = db.transaction(QUEUE_STORE, 'readwrite');
+  tx.objectStore(QUEUE_STORE).delete(id);
+  await transactionDone(tx);
+};
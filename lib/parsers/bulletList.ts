@@ -0,0 +1,53 @@
+// lib/parsers/bulletList.ts
+// `- term - meaning` / `1. **term**: meaning` items; indented labelled sub-items such as
+// `  - Example: …` fill the remaining fields of the item above.
+import type { CardContent } from '../types';
+import { type NoteParser, type NoteLine, type ParseDiagnostic, BULLET_PATTERN, matchLabel, cleanTerm, splitTermMeaning, excerpt, emptyCard, reportEmptyFields, nonEmpty } from './shared';
+
+const indentOf = (text: string) => text.match(/^\s*/)?.[0].replace(/\t/g, '  ').length ?? 0;
+
+export const bulletListParser: NoteParser = {
+  id: 'bullet-list',
+  detect: lines => {
+    const rows = nonEmpty(lines);
+    if (rows.length === 0) return 0;
+    return rows.filter(line => BULLET_PATTERN.test(line.text)).length / rows.length * 0.9;
+  },
+  parse: (lines, labels) => {
+    const cards: CardContent[] = [];
+    const diagnostics: ParseDiagnostic[] = [];
+    let current: { card: CardContent; line: NoteLine; indent: number; hasLabels: boolean } | null = null;
+
+    const finish = () => {
+      if (!current) return;
+      const { card, line, hasLabels } = current;
+      if (!card.meaning) {
+        diagnostics.push({ severity: 'skipped', line: line.number, excerpt: excerpt(card.term), message: 'diagnostic.noMeaningFound' });
+      } else {
+        cards.push(card);
+        if (hasLabels) reportEmptyFields(card, ['example', 'context', 'translation'], line, cards.length - 1, diagnostics);
+      }
+      current = null;
+    };
+
+    for (const line of nonEmpty(lines)) {
+      if (!BULLET_PATTERN.test(line.text)) {
+        if (!current) diagnostics.push({ severity: 'skipped', line: line.number, excerpt: excerpt(line.text), message: 'diagnostic.notListItem' });
+        continue;
+      }
+      const indent = indentOf(line.text);
+      const label = matchLabel(line.text, labels);
+      if (current && indent > current.indent && label) {
+        current.card[label.field] = label.value;
+        current.hasLabels = true;
+        continue;
+      }
+      finish();
+      const item = line.text.replace(BULLET_PATTERN, '');
+      const split = splitTermMeaning(item);
+      current = { card: split ? { ...emptyCard(split.term), meaning: split.meaning } : emptyCard(cleanTerm(item)), line, indent, hasLabels: false };
+    }
+    finish();
+    return { cards, diagnostics };
+  },
+};
@@ -0,0 +1,53 @@
+// lib/parsers/index.ts
+// Registry of note formats. parseNotes picks the parser with the highest detect() score
+// unless a format is forced, and returns the cards together with per-block diagnostics.
+import type { CardContent } from '../types';
+import { DEFAULT_PARSER_LABELS, escapeRegExp, type NoteLine, type NoteParser, type ParseDiagnostic, type ParseFormat, type ParserLabels } from './shared';
+import { labelledParser } from './labelled';
+import { markdownTableParser } from './markdownTable';
+import { bulletListParser } from './bulletList';
+import { linesParser } from './lines';
+
+export type { DiagnosticKey, ParseDiagnostic, ParseFormat, NoteParser, ParserLabels, ParserAliases, LabelKey } from './shared';
+export { DEFAULT_PARSER_LABELS, LABEL_KEYS, formatDiagnostic, mergeParserLabels } from './shared';
+
+export interface ParsedNotes { format: ParseFormat; cards: CardContent[]; diagnostics: ParseDiagnostic[]; }
+
+// Order matters: on equal scores the earlier parser wins.
+export const NOTE_PARSERS: NoteParser[] = [labelledParser, markdownTableParser, bulletListParser, linesParser];
+
+const titlePattern = (labels: ParserLabels) => labels.title.length > 0 ? new RegExp(`^\\s*(?:${labels.title.map(escapeRegExp).join('|')})\\s*[：:]\\s*(.*)$`, 'i') : null;
+
+export const extractTitle = (text: string, labels: ParserLabels = DEFAULT_PARSER_LABELS): string | null => {
+  const pattern = titlePattern(labels);
+  if (!pattern) return null;
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.match(pattern);
+    if (match && match[1].trim()) return match[1].trim();
+  }
+  return null;
+};
+
+// Title lines are blanked rather than removed so diagnostics keep the original line numbers.
+const toLines = (text: string, labels: ParserLabels): NoteLine[] => {
+  const pattern = titlePattern(labels);
+  return text.split(/\r?\n/).map((line, i) => ({ number: i + 1, text: pattern?.test(line) ? '' : line }));
+};
+
+export const detectFormat = (text: string, labels: ParserLabels = DEFAULT_PARSER_LABELS): ParseFormat => {
+  const lines = toLines(text, labels);
+  let best = NOTE_PARSERS[NOTE_PARSERS.length - 1];
+  let bestScore = 0;
+  NOTE_PARSERS.forEach(parser => {
+    const score = parser.detect(lines, labels);
+    if (score > bestScore) { best = parser; bestScore = score; }
+  });
+  return best.id;
+};
+
+export const parseNotes = (text: string, format: ParseFormat | 'auto' = 'auto', labels: ParserLabels = DEFAULT_PARSER_LABELS): ParsedNotes => {
+  const id = format === 'auto' ? detectFormat(text, labels) : format;
+  const parser = NOTE_PARSERS.find(p => p.id === id) ?? linesParser;
+  const { cards, diagnostics } = parser.parse(toLines(text, labels), labels);
+  return { format: parser.id, cards, diagnostics: diagnostics.sort((a, b) => a.line - b.line) };
+};
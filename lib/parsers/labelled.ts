@@ -0,0 +1,113 @@
+// lib/parsers/labelled.ts
+// The original note template: a 重要俚语/习惯用语/短语 section of term blocks with labelled
+// fields, optionally followed by a 简单常见表达 section of `term - meaning` lines.
+// The labels and headers come from the active locale plus the user's aliases.
+import type { CardContent } from '../types';
+import { type NoteParser, type NoteLine, type ParseDiagnostic, type LabelledField, type ParserLabels, matchLabel, cleanTerm, splitTermMeaning, excerpt, emptyCard, reportEmptyFields, nonEmpty } from './shared';
+
+const COMPLEX_FIELDS: (keyof CardContent)[] = ['meaning', 'example', 'context', 'translation'];
+
+const isHeader = (text: string, headers: string[]) => {
+  const normalized = cleanTerm(text).toLowerCase();
+  return headers.some(header => normalized.startsWith(header.toLowerCase()));
+};
+
+interface Block { card: CardContent; start: NoteLine; lastField: LabelledField | null; }
+
+const parseComplex = (lines: NoteLine[], labels: ParserLabels, cards: CardContent[], diagnostics: ParseDiagnostic[]) => {
+  let block: Block | null = null;
+  // The most recent unlabelled line; it becomes the term if a meaning label follows it.
+  let pending: NoteLine | null = null;
+  let pendingAppendedTo: LabelledField | null = null;
+
+  const finish = () => {
+    if (!block) return;
+    const { card, start } = block;
+    if (!card.meaning.trim()) {
+      diagnostics.push({ severity: 'skipped', line: start.number, excerpt: excerpt(card.term), message: 'diagnostic.missingMeaning' });
+    } else {
+      cards.push(card);
+      reportEmptyFields(card, COMPLEX_FIELDS, start, cards.length - 1, diagnostics);
+    }
+    block = null;
+  };
+
+  for (const line of lines) {
+    const text = line.text.trim();
+    if (!text) continue;
+    const label = matchLabel(text, labels);
+    if (label && label.field === 'meaning') {
+      // The term line was provisionally added to the previous block's last field; take it back.
+      if (block && pending && pendingAppendedTo) {
+        const current: Block = block;
+        const value = current.card[pendingAppendedTo];
+        current.card[pendingAppendedTo] = value.slice(0, Math.max(0, value.length - pending.text.trim().length)).trim();
+      }
+      finish();
+      if (!pending) {
+        diagnostics.push({ severity: 'skipped', line: line.number, excerpt: excerpt(text), message: 'diagnostic.meaningWithoutTerm' });
+        block = null;
+        continue;
+      }
+      block = { card: { ...emptyCard(cleanTerm(pending.text)), meaning: label.value }, start: pending, lastField: 'meaning' };
+      pending = null;
+      pendingAppendedTo = null;
+    } else if (label) {
+      pending = null;
+      pendingAppendedTo = null;
+      if (!block) {
+        diagnostics.push({ severity: 'skipped', line: line.number, excerpt: excerpt(text), message: 'diagnostic.fieldWithoutTerm' });
+        continue;
+      }
+      block.card[label.field] = label.value;
+      block.lastField = label.field;
+    } else {
+      pending = line;
+      pendingAppendedTo = null;
+      if (block && block.lastField) {
+        const field = block.lastField;
+        block.card[field] = block.card[field] ? `${block.card[field]}\n${text}` : text;
+        pendingAppendedTo = field;
+      }
+    }
+  }
+  finish();
+};
+
+const parseSimple = (lines: NoteLine[], cards: CardContent[], diagnostics: ParseDiagnostic[]) => {
+  nonEmpty(lines).forEach(line => {
+    const split = splitTermMeaning(line.text);
+    if (!split) {
+      diagnostics.push({ severity: 'skipped', line: line.number, excerpt: excerpt(line.text), message: 'diagnostic.notTermMeaning' });
+      return;
+    }
+    cards.push({ ...emptyCard(split.term), meaning: split.meaning });
+  });
+};
+
+export const labelledParser: NoteParser = {
+  id: 'labelled',
+  detect: (lines, labels) => {
+    const matches = lines.map(line => matchLabel(line.text, labels)).filter(match => match !== null);
+    const headers = lines.filter(line => isHeader(line.text, labels.complexHeader) || isHeader(line.text, labels.simpleHeader)).length;
+    // Every block starts with a meaning label; other labels alone are sub-items of a list.
+    if (!matches.some(match => match.field === 'meaning') && headers === 0) return 0;
+    const labelled = matches.length;
+    return Math.min(1, 0.6 + 0.1 * labelled + 0.2 * headers);
+  },
+  parse: (lines, labels) => {
+    const cards: CardContent[] = [];
+    const diagnostics: ParseDiagnostic[] = [];
+    const complexStart = lines.findIndex(line => isHeader(line.text, labels.complexHeader));
+    const simpleStart = lines.findIndex(line => isHeader(line.text, labels.simpleHeader));
+    // Without a section header, everything before the simple section is treated as term blocks.
+    const complexFrom = complexStart > -1 ? complexStart + 1 : 0;
+    const complexTo = simpleStart >= complexFrom ? simpleStart : lines.length;
+    parseComplex(lines.slice(complexFrom, complexTo), labels, cards, diagnostics);
+    if (simpleStart > -1) {
+      const simpleTo = complexStart > simpleStart ? complexStart : lines.length;
+      parseSimple(lines.slice(simpleStart + 1, simpleTo), cards, diagnostics);
+    }
+    return { cards, diagnostics };
+  },
+};
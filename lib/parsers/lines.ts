@@ -0,0 +1,28 @@
+// lib/parsers/lines.ts
+// One card per line: `term - meaning`, `term: meaning`, or tab-separated
+// term/meaning/example/context/translation columns.
+import type { CardContent } from '../types';
+import { type NoteParser, type ParseDiagnostic, splitTermMeaning, excerpt, emptyCard, nonEmpty } from './shared';
+
+export const linesParser: NoteParser = {
+  id: 'lines',
+  detect: lines => {
+    const rows = nonEmpty(lines);
+    if (rows.length === 0) return 0;
+    return rows.filter(line => splitTermMeaning(line.text)).length / rows.length * 0.8;
+  },
+  parse: lines => {
+    const cards: CardContent[] = [];
+    const diagnostics: ParseDiagnostic[] = [];
+    nonEmpty(lines).forEach(line => {
+      const split = splitTermMeaning(line.text);
+      if (!split) {
+        diagnostics.push({ severity: 'skipped', line: line.number, excerpt: excerpt(line.text), message: 'diagnostic.noSeparator' });
+        return;
+      }
+      const [example = '', context = '', translation = ''] = split.rest;
+      cards.push({ ...emptyCard(split.term), meaning: split.meaning, example, context, translation });
+    });
+    return { cards, diagnostics };
+  },
+};
@@ -0,0 +1,49 @@
+// lib/parsers/markdownTable.ts
+import type { CardContent } from '../types';
+import { matchCardField, type CardField } from '../importers';
+import { type NoteParser, type NoteLine, type ParseDiagnostic, fieldForLabel, cleanTerm, excerpt, emptyCard, reportEmptyFields, nonEmpty } from './shared';
+
+const isTableRow = (text: string) => /^\s*\|.*\|\s*$/.test(text);
+const isSeparatorRow = (text: string) => /^\s*\|(\s*:?-{2,}:?\s*\|)+\s*$/.test(text);
+const splitRow = (text: string) => text.trim().replace(/^\||\|$/g, '').split('|').map(cell => cell.trim());
+
+export const markdownTableParser: NoteParser = {
+  id: 'markdown-table',
+  detect: lines => {
+    const rows = nonEmpty(lines);
+    if (!rows.some(line => isSeparatorRow(line.text))) return 0;
+    return rows.filter(line => isTableRow(line.text)).length / rows.length;
+  },
+  parse: (lines, labels) => {
+    const cards: CardContent[] = [];
+    const diagnostics: ParseDiagnostic[] = [];
+    let columns: (CardField | null)[] | null = null;
+    let previous: NoteLine | null = null;
+
+    for (const line of lines) {
+      if (!isTableRow(line.text)) { columns = null; previous = null; continue; }
+      if (isSeparatorRow(line.text)) {
+        // The row above the separator is the header; unknown headers fall back to column order.
+        const header = previous ? splitRow(previous.text).map(cell => matchCardField(cell) ?? fieldForLabel(cell, labels)) : [];
+        columns = header.some(Boolean) ? header : ['term', 'meaning', 'example', 'context', 'translation'];
+        if (!columns.includes('term') || !columns.includes('meaning')) {
+          diagnostics.push({ severity: 'skipped', line: line.number, excerpt: excerpt(previous?.text || line.text), message: 'diagnostic.tableWithoutColumns' });
+          columns = [];
+        }
+        continue;
+      }
+      previous = line;
+      if (!columns || columns.length === 0) continue;
+      const card = emptyCard('');
+      splitRow(line.text).forEach((cell, i) => { const field = columns?.[i]; if (field) card[field] = cell.replace(/<br\s*\/?>/gi, '\n'); });
+      card.term = cleanTerm(card.term);
+      if (!card.term || !card.meaning) {
+        diagnostics.push({ severity: 'skipped', line: line.number, excerpt: excerpt(line.text), message: card.term ? 'diagnostic.emptyMeaning' : 'diagnostic.emptyTerm' });
+        continue;
+      }
+      cards.push(card);
+      reportEmptyFields(card, columns.filter((field): field is CardField => field !== null), line, cards.length - 1, diagnostics);
+    }
+    return { cards, diagnostics };
+  },
+};
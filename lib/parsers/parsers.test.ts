@@ -0,0 +1,142 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PARSER_LABELS, detectFormat, extractTitle, formatDiagnostic, parseNotes } from '.';
+import { LOCALE_PARSER_LABELS } from '../i18n/parserLabels';
+import { createTranslator } from '../i18n';
+import type { CardContent } from '../types';
+
+const fixture = (name: string) => readFileSync(new URL(`./__fixtures__/${name}.txt`, import.meta.url), 'utf8');
+const card = (term: string, meaning: string, rest: Partial<CardContent> = {}): CardContent => ({ term, meaning, example: '', context: '', translation: '', ...rest });
+
+describe('labelled notes', () => {
+  const text = fixture('labelled');
+
+  it('reads term blocks and the simple section', () => {
+    const { format, cards } = parseNotes(text);
+    expect(format).toBe('labelled');
+    expect(cards).toEqual([
+      card('画龙点睛', '比喻在关键处加上一笔，使内容更生动', { example: '这句结尾真是画龙点睛。', context: '出自张僧繇画龙的故事', translation: 'The ending really brings the piece to life.' }),
+      card('一石二鸟', '做一件事达到两个目的', { example: '这个办法一石二鸟，\n既省钱又省时间。' }),
+      card('马马虎虎', '还可以，一般'),
+    ]);
+  });
+
+  it('reports skipped blocks and empty fields by original line', () => {
+    expect(parseNotes(text).diagnostics).toEqual([
+      { severity: 'skipped', line: 5, excerpt: '在文中的句子：没有术语的例句', message: 'diagnostic.fieldWithoutTerm' },
+      { severity: 'warning', line: 13, excerpt: '一石二鸟', message: 'diagnostic.missingFields', fields: ['context', 'translation'], cardIndex: 1 },
+      { severity: 'skipped', line: 21, excerpt: '随便', message: 'diagnostic.notTermMeaning' },
+    ]);
+  });
+
+  it('extracts the title', () => {
+    expect(extractTitle(text)).toBe('第三课');
+  });
+
+  it('skips a block without a meaning', () => {
+    const { cards, diagnostics } = parseNotes('画龙点睛\n意思解释：点睛之笔\n\n一石二鸟\n意思解释：\n在文中的句子：一石二鸟\n');
+    expect(cards.map(c => c.term)).toEqual(['画龙点睛']);
+    expect(diagnostics).toContainEqual({ severity: 'skipped', line: 4, excerpt: '一石二鸟', message: 'diagnostic.missingMeaning' });
+  });
+});
+
+describe('English-labelled notes', () => {
+  const text = fixture('labelled-en');
+  const expected = [
+    card('break the ice', 'to make people feel more relaxed', { example: 'He told a joke to break the ice.', context: 'informal', translation: '打破僵局' }),
+    card('hit the sack', 'to go to bed', { example: "I'm beat, time to hit the sack." }),
+    card('no worries', "it's fine"),
+  ];
+
+  it.each([['zh-CN', DEFAULT_PARSER_LABELS], ['en', LOCALE_PARSER_LABELS.en]] as const)('parses with the %s labels', (_, labels) => {
+    const { format, cards, diagnostics } = parseNotes(text, 'auto', labels);
+    expect(format).toBe('labelled');
+    expect(cards).toEqual(expected);
+    expect(diagnostics).toEqual([{ severity: 'warning', line: 11, excerpt: 'hit the sack', message: 'diagnostic.missingFields', fields: ['context', 'translation'], cardIndex: 1 }]);
+    expect(extractTitle(text, labels)).toBe('Lesson 3');
+  });
+
+  it('ignores labels the locale does not know', () => {
+    expect(parseNotes(fixture('labelled'), 'labelled', LOCALE_PARSER_LABELS.en).cards).toEqual([]);
+  });
+});
+
+describe('markdown tables', () => {
+  it('maps columns by header and reports bad rows', () => {
+    const { format, cards, diagnostics } = parseNotes(fixture('markdown-table'));
+    expect(format).toBe('markdown-table');
+    expect(cards).toEqual([
+      card('画蛇添足', '做多余的事', { example: '你这样改就是画蛇添足。' }),
+      card('对牛弹琴', '对不懂的人讲道理\n白费口舌'),
+    ]);
+    expect(diagnostics).toEqual([
+      { severity: 'skipped', line: 4, excerpt: '| 守株待兔 |  | 他总是守株待兔。 |', message: 'diagnostic.emptyMeaning' },
+      { severity: 'warning', line: 5, excerpt: '对牛弹琴', message: 'diagnostic.missingFields', fields: ['example'], cardIndex: 1 },
+    ]);
+  });
+
+  it('accepts the localized header labels', () => {
+    const { cards } = parseNotes('| 术语 | 释义 | 例句 |\n| --- | --- | --- |\n| 画蛇添足 | 做多余的事 | 多此一举 |');
+    expect(cards).toEqual([card('画蛇添足', '做多余的事', { example: '多此一举' })]);
+  });
+
+  it('skips a table without term and meaning columns', () => {
+    const { cards, diagnostics } = parseNotes('| Example | Usage |\n| --- | --- |\n| a | b |', 'markdown-table');
+    expect(cards).toEqual([]);
+    expect(diagnostics).toEqual([{ severity: 'skipped', line: 2, excerpt: '| Example | Usage |', message: 'diagnostic.tableWithoutColumns' }]);
+  });
+});
+
+describe('bullet lists', () => {
+  it('reads items and their labelled sub-items', () => {
+    const { format, cards, diagnostics } = parseNotes(fixture('bullet-list'));
+    expect(format).toBe('bullet-list');
+    expect(cards).toEqual([
+      card('杯弓蛇影', '疑神疑鬼', { example: '别杯弓蛇影了。', translation: "Don't be paranoid." }),
+      card('对症下药', '针对具体情况采取措施'),
+      card('半途而废', '事情没做完就停止'),
+    ]);
+    expect(diagnostics).toEqual([
+      { severity: 'skipped', line: 1, excerpt: '成语笔记', message: 'diagnostic.notListItem' },
+      { severity: 'warning', line: 2, excerpt: '杯弓蛇影', message: 'diagnostic.missingFields', fields: ['context'], cardIndex: 0 },
+      { severity: 'skipped', line: 6, excerpt: '孤注一掷', message: 'diagnostic.noMeaningFound' },
+    ]);
+  });
+});
+
+describe('line notes', () => {
+  it('splits on dashes, colons and tabs', () => {
+    const { format, cards, diagnostics } = parseNotes(fixture('lines'));
+    expect(format).toBe('lines');
+    expect(cards).toEqual([
+      card('一帆风顺', '非常顺利'),
+      card('入乡随俗', '到一个地方就顺从当地的习俗'),
+      card('守口如瓶', '比喻说话谨慎', { example: '他一向守口如瓶。', translation: 'He keeps his lips sealed.' }),
+    ]);
+    expect(diagnostics).toEqual([{ severity: 'skipped', line: 4, excerpt: '没有分隔符的一行', message: 'diagnostic.noSeparator' }]);
+  });
+});
+
+describe('detectFormat', () => {
+  it.each([['labelled', 'labelled'], ['labelled-en', 'labelled'], ['markdown-table', 'markdown-table'], ['bullet-list', 'bullet-list'], ['lines', 'lines']])('detects %s as %s', (name, format) => {
+    expect(detectFormat(fixture(name))).toBe(format);
+  });
+
+  it('lets a forced format override detection', () => {
+    expect(parseNotes(fixture('bullet-list'), 'lines').format).toBe('lines');
+  });
+});
+
+describe('formatDiagnostic', () => {
+  const missing = parseNotes(fixture('labelled')).diagnostics[1];
+
+  it('translates the message and the field names', () => {
+    expect(formatDiagnostic(missing, createTranslator('zh-CN'))).toBe('缺少字段：用法、翻译');
+    expect(formatDiagnostic(missing, createTranslator('en'))).toBe('Missing fields: Usage, Translation');
+  });
+
+  it('interpolates params', () => {
+    const duplicate = { severity: 'skipped', line: 0, excerpt: '画龙点睛', message: 'diagnostic.duplicate', params: { title: '成语' } } as const;
+    expect(formatDiagnostic(duplicate, createTranslator('zh-CN'))).toBe('已存在于卡组《成语》，已跳过');
+  });
+});
@@ -0,0 +1,125 @@
+// lib/parsers/shared.ts
+import type { CardContent } from '../types';
+import type { CardField } from '../importers';
+import type { MessageKey, MessageParams, Translator } from '../i18n';
+
+export type ParseFormat = 'labelled' | 'markdown-table' | 'bullet-list' | 'lines';
+
+export type DiagnosticKey = Extract<MessageKey, `diagnostic.${string}`>;
+
+// `line` is 1-based and refers to the original pasted text. The message is a catalog key, so the
+// report follows the UI language; `fields` lists the card fields it is about.
+export interface ParseDiagnostic { severity: 'skipped' | 'warning'; line: number; excerpt: string; message: DiagnosticKey; params?: MessageParams; fields?: CardField[]; cardIndex?: number; }
+export interface ParseOutput { cards: CardContent[]; diagnostics: ParseDiagnostic[]; }
+
+export interface NoteLine { number: number; text: string; }
+
+export type LabelledField = Exclude<CardField, 'term'>;
+
+// Field labels, section headers and title prefixes the parsers recognise. Each locale has its own
+// set (lib/i18n/parserLabels.ts) and users can add aliases in front of it.
+export type LabelKey = LabelledField | 'complexHeader' | 'simpleHeader' | 'title';
+export type ParserLabels = Record<LabelKey, string[]>;
+export type ParserAliases = Partial<ParserLabels>;
+
+export const LABEL_KEYS: LabelKey[] = ['meaning', 'example', 'context', 'translation', 'complexHeader', 'simpleHeader', 'title'];
+
+export const DEFAULT_PARSER_LABELS: ParserLabels = {
+  meaning: ['意思解释', '意思', '释义', 'Meaning', 'Definition'],
+  example: ['在文中的句子', '例句', 'Example sentence', 'Sentence in text', 'Example'],
+  context: ['简要文化背景或用法说明', '用法说明', '用法', 'Cultural background', 'Usage notes', 'Usage', 'Context'],
+  translation: ['翻译这句话的意思', '翻译', 'Translation'],
+  complexHeader: ['重要俚语/习惯用语/短语', 'Important slang/idioms/phrases', 'Slang, idioms and phrases'],
+  simpleHeader: ['简单常见表达', 'Simple common expressions', 'Common expressions'],
+  title: ['标题', 'Title'],
+};
+
+// User aliases go first so they win over a built-in label they start with.
+export const mergeParserLabels = (base: ParserLabels, aliases: ParserAliases = {}): ParserLabels =>
+  Object.fromEntries(LABEL_KEYS.map(key => [key, [...new Set([...(aliases[key] ?? []), ...base[key]])]])) as ParserLabels;
+
+export interface NoteParser {
+  id: ParseFormat;
+  // Confidence between 0 and 1 that the text is written in this format.
+  detect: (lines: NoteLine[], labels: ParserLabels) => number;
+  parse: (lines: NoteLine[], labels: ParserLabels) => ParseOutput;
+}
+
+export const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const LABELLED_FIELDS: LabelledField[] = ['meaning', 'example', 'context', 'translation'];
+const patternCache = new WeakMap<ParserLabels, { field: LabelledField; pattern: RegExp }[]>();
+
+const labelPatterns = (labels: ParserLabels) => {
+  let patterns = patternCache.get(labels);
+  if (!patterns) {
+    patterns = LABELLED_FIELDS.filter(field => labels[field].length > 0).map(field => ({
+      field,
+      pattern: new RegExp(`^\\s*(?:[-*•]\\s+)?(?:\\*\\*)?(?:${labels[field].map(escapeRegExp).join('|')})(?:\\*\\*)?\\s*[：:]\\s*(?:\\*\\*)?\\s*(.*)$`, 'i'),
+    }));
+    patternCache.set(labels, patterns);
+  }
+  return patterns;
+};
+
+export const matchLabel = (text: string, labels: ParserLabels = DEFAULT_PARSER_LABELS): { field: LabelledField; value: string } | null => {
+  for (const { field, pattern } of labelPatterns(labels)) {
+    const match = text.match(pattern);
+    if (match) return { field, value: match[1].trim() };
+  }
+  return null;
+};
+
+// A bare label without the colon, such as a table header cell.
+export const fieldForLabel = (text: string, labels: ParserLabels): LabelledField | null => {
+  const normalized = text.replace(/\*\*|__/g, '').trim().toLowerCase();
+  return LABELLED_FIELDS.find(field => labels[field].some(label => label.toLowerCase() === normalized)) ?? null;
+};
+
+export const BULLET_PATTERN = /^\s*(?:[-*•+]|\d+[.)、])\s+/;
+
+// Strips list markers, heading hashes and bold markers around a term.
+export const cleanTerm = (text: string) => text
+  .replace(/^\s*#+\s*/, '')
+  .replace(BULLET_PATTERN, '')
+  .replace(/\*\*|__/g, '')
+  .replace(/[：:]\s*$/, '')
+  .trim();
+
+const TERM_SEPARATORS = ['\t', ' - ', ' – ', ' — ', '：', ': '];
+
+// Splits `term - meaning`, `term: meaning` or tab-separated lines.
+export const splitTermMeaning = (text: string): { term: string; meaning: string; rest: string[] } | null => {
+  for (const separator of TERM_SEPARATORS) {
+    const index = text.indexOf(separator);
+    if (index <= 0) continue;
+    if (separator === '\t') {
+      const [term, meaning, ...rest] = text.split('\t').map(part => part.trim());
+      if (term && meaning) return { term: cleanTerm(term), meaning, rest };
+      continue;
+    }
+    const term = cleanTerm(text.slice(0, index));
+    const meaning = text.slice(index + separator.length).trim();
+    if (term && meaning) return { term, meaning, rest: [] };
+  }
+  return null;
+};
+
+export const excerpt = (text: string) => text.trim().length > 40 ? `${text.trim().slice(0, 40)}…` : text.trim();
+
+export const emptyCard = (term: string): CardContent => ({ term, meaning: '', example: '', context: '', translation: '' });
+
+// Records a warning for every expected field that came out empty.
+export const reportEmptyFields = (card: CardContent, expected: CardField[], line: NoteLine, cardIndex: number, diagnostics: ParseDiagnostic[]) => {
+  const missing = expected.filter(field => !card[field].trim());
+  if (missing.length > 0) {
+    diagnostics.push({ severity: 'warning', line: line.number, excerpt: excerpt(card.term), message: 'diagnostic.missingFields', fields: missing, cardIndex });
+  }
+};
+
+export const formatDiagnostic = (diagnostic: ParseDiagnostic, t: Translator): string => {
+  const params = { ...diagnostic.params };
+  if (diagnostic.fields) params.fields = diagnostic.fields.map(field => t(`field.${field}`)).join(t('common.listSeparator'));
+  return t(diagnostic.message, params);
+};
+
+export const nonEmpty = (lines: NoteLine[]) => lines.filter(line => line.text.trim() !== '');
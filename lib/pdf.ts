@@ -0,0 +1,52 @@
+// lib/pdf.ts
+// A minimal PDF writer: one full-page JPEG per page, nothing else. Enough for printable sheets
+// drawn on a canvas, and it keeps CJK text exact without embedding fonts or pulling in a library.
+
+// A4 in PDF points (1/72 inch).
+export const A4_POINTS = { width: 595.28, height: 841.89 };
+
+export interface JpegPage { data: Uint8Array<ArrayBuffer>; width: number; height: number; }   // width/height in pixels
+
+const encoder = new TextEncoder();
+
+export const jpegPagesToPdf = (pages: JpegPage[], pageSize = A4_POINTS): Blob => {
+  const parts: Uint8Array<ArrayBuffer>[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const push = (part: string | Uint8Array<ArrayBuffer>) => {
+    const bytes = typeof part === 'string' ? new Uint8Array(encoder.encode(part)) : part;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  const startObject = (id: number) => { offsets[id] = length; push(`${id} 0 obj\n`); };
+
+  // The binary comment line tells transfer tools the file is not plain text.
+  push('%PDF-1.4\n');
+  push(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+  // Objects: 1 catalog, 2 page tree, then page / content stream / image for each page.
+  const pageIds = pages.map((_, index) => 3 + index * 3);
+  startObject(1);
+  push('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+  startObject(2);
+  push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+  const { width, height } = pageSize;
+  pages.forEach((page, index) => {
+    const id = pageIds[index];
+    startObject(id);
+    push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /XObject << /Im0 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>\nendobj\n`);
+    const content = `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`;
+    startObject(id + 1);
+    push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+    startObject(id + 2);
+    push(`<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.data.length} >>\nstream\n`);
+    push(page.data);
+    push('\nendstream\nendobj\n');
+  });
+
+  const xrefOffset = length;
+  const objectCount = 3 + pages.length * 3;
+  push(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) push(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  push(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+  return new Blob(parts, { type: 'application/pdf' });
+};
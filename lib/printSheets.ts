@@ -0,0 +1,304 @@
+// lib/printSheets.ts
+// Printable versions of a deck, drawn on a canvas and saved as a PDF (lib/pdf.ts):
+// - cut-out cards: a front page of terms followed by a back page of answers, mirrored so each
+//   answer lands behind its term when the sheet is printed double-sided (flip on the long edge);
+// - a study list: a compact table of every card, continued over as many pages as needed.
+import type { Card, Deck } from './types';
+import { jpegPagesToPdf, type JpegPage } from './pdf';
+import type { MessageKey, Translator } from './i18n';
+
+export type PrintLayout = 'cards' | 'list';
+export type PrintField = 'meaning' | 'example' | 'context' | 'translation';
+export const PRINT_FIELDS: PrintField[] = ['meaning', 'example', 'context', 'translation'];
+
+// Columns x rows for each supported number of cards per page.
+const GRIDS: { [cardsPerPage: number]: { cols: number; rows: number } } = {
+  4: { cols: 2, rows: 2 },
+  6: { cols: 2, rows: 3 },
+  8: { cols: 2, rows: 4 },
+  10: { cols: 2, rows: 5 },
+  12: { cols: 3, rows: 4 },
+};
+export const CARDS_PER_PAGE_OPTIONS = Object.keys(GRIDS).map(Number);
+
+export interface PrintOptions { layout: PrintLayout; cardsPerPage: number; fields: PrintField[]; }
+export const DEFAULT_PRINT_OPTIONS: PrintOptions = { layout: 'cards', cardsPerPage: 8, fields: ['meaning', 'example'] };
+
+// Translated text drawn on the pages.
+export interface PrintLabels { term: string; fields: Record<PrintField, string>; page: (page: number, total: number) => string; }
+
+// null slots are the empty spaces after a deck's last card.
+export type PrintPage =
+  | { kind: 'front' | 'back'; cards: (Card | null)[] }
+  | { kind: 'list'; cards: Card[] };
+
+// --- Geometry ---
+// A4 at 150 dpi: sharp enough to print, small enough to keep a few hundred cards' PDF manageable.
+export const PAGE_WIDTH = 1240;
+export const PAGE_HEIGHT = 1754;
+const MARGIN = 70;
+const FOOTER_HEIGHT = 40;
+const CELL_PADDING = 24;
+const FONT_FAMILY = '"PingFang SC", "Hiragino Sans GB", "Microsoft YaHei", "Noto Sans CJK SC", sans-serif';
+const LIST_FONT_SIZE = 20;
+const LIST_LINE_HEIGHT = 26;
+const LIST_CELL_PADDING = 8;
+// Relative widths of the study-list columns; the term column comes first.
+const LIST_COLUMN_WEIGHTS: Record<'term' | PrintField, number> = { term: 1.2, meaning: 1.6, example: 2.2, context: 1.4, translation: 1.6 };
+
+const gridFor = (cardsPerPage: number) => GRIDS[cardsPerPage] ?? GRIDS[DEFAULT_PRINT_OPTIONS.cardsPerPage];
+const font = (size: number, weight: 'normal' | 'bold' = 'normal') => `${weight} ${size}px ${FONT_FAMILY}`;
+
+// Long-edge duplex flips the sheet left to right, so the card in column c is backed by column cols-1-c.
+export const mirrorRow = <T>(slots: T[], cols: number): T[] =>
+  slots.map((_, index) => {
+    const row = Math.floor(index / cols);
+    return slots[row * cols + (cols - 1 - index % cols)];
+  });
+
+// --- Text ---
+// Latin words stay whole; CJK text (no spaces) may break after any character.
+const TOKEN_PATTERN = /[\u2E80-\u9FFF\uF900-\uFAFF\uFF00-\uFFEF]|[^\s\u2E80-\u9FFF\uF900-\uFAFF\uFF00-\uFFEF]+|\s+/g;
+
+export const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const token of paragraph.match(TOKEN_PATTERN) ?? []) {
+      const candidate = line + token;
+      if (ctx.measureText(candidate).width <= maxWidth) { line = candidate; continue; }
+      if (line.trim()) lines.push(line.trimEnd());
+      line = /^\s+$/.test(token) ? '' : token;
+      // A single word wider than the column is split by character.
+      while (ctx.measureText(line).width > maxWidth && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && ctx.measureText(line.slice(0, cut)).width > maxWidth) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    }
+    lines.push(line.trimEnd());
+  }
+  return lines;
+};
+
+// Keeps the first maxLines lines, ending the last one with an ellipsis when something was cut.
+const clampLines = (ctx: CanvasRenderingContext2D, lines: string[], maxLines: number, maxWidth: number): string[] => {
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, Math.max(0, maxLines));
+  if (kept.length === 0) return kept;
+  let last = kept[kept.length - 1];
+  while (last && ctx.measureText(`${last}…`).width > maxWidth) last = last.slice(0, -1);
+  kept[kept.length - 1] = `${last}…`;
+  return kept;
+};
+
+const fieldBlocks = (card: Card, fields: PrintField[], labels: PrintLabels) =>
+  fields.filter(field => card[field]?.trim()).map(field => ({ label: labels.fields[field], text: card[field].trim() }));
+
+// --- Layout ---
+const listColumns = (fields: PrintField[]) => {
+  const keys: ('term' | PrintField)[] = ['term', ...fields];
+  const totalWeight = keys.reduce((sum, key) => sum + LIST_COLUMN_WEIGHTS[key], 0);
+  const tableWidth = PAGE_WIDTH - MARGIN * 2;
+  return keys.map(key => ({ key, width: tableWidth * LIST_COLUMN_WEIGHTS[key] / totalWeight }));
+};
+
+const listRowLines = (ctx: CanvasRenderingContext2D, card: Card, fields: PrintField[]) => {
+  ctx.font = font(LIST_FONT_SIZE);
+  return listColumns(fields).map(column => wrapText(ctx, (column.key === 'term' ? card.term : card[column.key] ?? '').trim(), column.width - LIST_CELL_PADDING * 2));
+};
+
+const listRowHeight = (lines: string[][]) => Math.max(1, ...lines.map(cell => cell.length)) * LIST_LINE_HEIGHT + LIST_CELL_PADDING * 2;
+const LIST_BODY_HEIGHT = PAGE_HEIGHT - MARGIN * 2 - FOOTER_HEIGHT - (LIST_LINE_HEIGHT + LIST_CELL_PADDING * 2) - 60;
+
+// Splits a deck into pages. The study list needs a canvas context to measure how tall each row is.
+export const layoutPages = (deck: Deck, options: PrintOptions, ctx: CanvasRenderingContext2D): PrintPage[] => {
+  const cards = deck.cards;
+  if (options.layout === 'list') {
+    const pages: PrintPage[] = [];
+    let current: Card[] = [];
+    let used = 0;
+    for (const card of cards) {
+      const height = Math.min(listRowHeight(listRowLines(ctx, card, options.fields)), LIST_BODY_HEIGHT);
+      if (current.length > 0 && used + height > LIST_BODY_HEIGHT) { pages.push({ kind: 'list', cards: current }); current = []; used = 0; }
+      current.push(card);
+      used += height;
+    }
+    if (current.length > 0 || pages.length === 0) pages.push({ kind: 'list', cards: current });
+    return pages;
+  }
+  const { cols, rows } = gridFor(options.cardsPerPage);
+  const perPage = cols * rows;
+  const pages: PrintPage[] = [];
+  for (let start = 0; start < Math.max(cards.length, 1); start += perPage) {
+    const slots: (Card | null)[] = Array.from({ length: perPage }, (_, index) => cards[start + index] ?? null);
+    pages.push({ kind: 'front', cards: slots }, { kind: 'back', cards: mirrorRow(slots, cols) });
+  }
+  return pages;
+};
+
+// --- Drawing ---
+const drawFooter = (ctx: CanvasRenderingContext2D, deck: Deck, pageNumber: number, total: number, labels: PrintLabels) => {
+  ctx.font = font(18);
+  ctx.fillStyle = '#94a3b8';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'alphabetic';
+  ctx.fillText(`${deck.title} · ${labels.page(pageNumber, total)}`, PAGE_WIDTH / 2, PAGE_HEIGHT - MARGIN + 10, PAGE_WIDTH - MARGIN * 2);
+};
+
+// The term, as large as fits, centred in its cell.
+const drawFront = (ctx: CanvasRenderingContext2D, card: Card, x: number, y: number, width: number, height: number) => {
+  const maxWidth = width - CELL_PADDING * 2;
+  let size = 56;
+  let lines: string[] = [];
+  for (; size >= 18; size -= 4) {
+    ctx.font = font(size, 'bold');
+    lines = wrapText(ctx, card.term, maxWidth);
+    if (lines.length * size * 1.3 <= height - CELL_PADDING * 2) break;
+  }
+  size = Math.max(size, 18);
+  const lineHeight = size * 1.3;
+  lines = clampLines(ctx, lines, Math.floor((height - CELL_PADDING * 2) / lineHeight), maxWidth);
+  ctx.fillStyle = '#0f172a';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  const top = y + height / 2 - (lines.length - 1) * lineHeight / 2;
+  lines.forEach((line, index) => ctx.fillText(line, x + width / 2, top + index * lineHeight));
+};
+
+// The selected fields, each under a small label, shrunk until the whole answer fits.
+const drawBack = (ctx: CanvasRenderingContext2D, card: Card, x: number, y: number, width: number, height: number, fields: PrintField[], labels: PrintLabels) => {
+  const blocks = fieldBlocks(card, fields, labels);
+  const maxWidth = width - CELL_PADDING * 2;
+  const maxHeight = height - CELL_PADDING * 2;
+  const measure = (size: number) => {
+    ctx.font = font(size);
+    const wrapped = blocks.map(block => wrapText(ctx, block.text, maxWidth));
+    const total = wrapped.reduce((sum, lines) => sum + (size * 0.8 + 6) + lines.length * size * 1.35 + size * 0.5, 0);
+    return { wrapped, total };
+  };
+  let size = 26;
+  let { wrapped, total } = measure(size);
+  while (total > maxHeight && size > 14) ({ wrapped, total } = measure(size -= 2));
+  const lineHeight = size * 1.35;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+  let cursor = y + CELL_PADDING;
+  const bottom = y + height - CELL_PADDING;
+  blocks.forEach((block, index) => {
+    if (cursor + size * 0.8 + lineHeight > bottom) return;
+    ctx.font = font(Math.round(size * 0.8), 'bold');
+    ctx.fillStyle = '#64748b';
+    ctx.fillText(block.label, x + CELL_PADDING, cursor, maxWidth);
+    cursor += size * 0.8 + 6;
+    ctx.font = font(size);
+    ctx.fillStyle = '#0f172a';
+    const lines = clampLines(ctx, wrapped[index], Math.floor((bottom - cursor) / lineHeight), maxWidth);
+    lines.forEach(line => { ctx.fillText(line, x + CELL_PADDING, cursor); cursor += lineHeight; });
+    cursor += size * 0.5;
+  });
+};
+
+const drawCardPage = (ctx: CanvasRenderingContext2D, page: Extract<PrintPage, { kind: 'front' | 'back' }>, options: PrintOptions, labels: PrintLabels) => {
+  const { cols, rows } = gridFor(options.cardsPerPage);
+  const cellWidth = (PAGE_WIDTH - MARGIN * 2) / cols;
+  const cellHeight = (PAGE_HEIGHT - MARGIN * 2 - FOOTER_HEIGHT) / rows;
+  // Dashed cut lines around every cell, empty ones included, so fronts and backs match exactly.
+  ctx.strokeStyle = '#cbd5e1';
+  ctx.lineWidth = 2;
+  ctx.setLineDash([12, 8]);
+  for (let col = 0; col <= cols; col++) { ctx.beginPath(); ctx.moveTo(MARGIN + col * cellWidth, MARGIN); ctx.lineTo(MARGIN + col * cellWidth, MARGIN + rows * cellHeight); ctx.stroke(); }
+  for (let row = 0; row <= rows; row++) { ctx.beginPath(); ctx.moveTo(MARGIN, MARGIN + row * cellHeight); ctx.lineTo(PAGE_WIDTH - MARGIN, MARGIN + row * cellHeight); ctx.stroke(); }
+  ctx.setLineDash([]);
+  page.cards.forEach((card, index) => {
+    if (!card) return;
+    const x = MARGIN + (index % cols) * cellWidth;
+    const y = MARGIN + Math.floor(index / cols) * cellHeight;
+    if (page.kind === 'front') drawFront(ctx, card, x, y, cellWidth, cellHeight);
+    else drawBack(ctx, card, x, y, cellWidth, cellHeight, options.fields, labels);
+  });
+};
+
+const drawListPage = (ctx: CanvasRenderingContext2D, deck: Deck, page: Extract<PrintPage, { kind: 'list' }>, options: PrintOptions, labels: PrintLabels) => {
+  const columns = listColumns(options.fields);
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+  ctx.font = font(32, 'bold');
+  ctx.fillStyle = '#0f172a';
+  ctx.fillText(deck.title, MARGIN, MARGIN, PAGE_WIDTH - MARGIN * 2);
+  let cursor = MARGIN + 60;
+  const drawRow = (cells: string[][], isHeader: boolean) => {
+    const height = Math.min(listRowHeight(cells), LIST_BODY_HEIGHT);
+    if (isHeader) { ctx.fillStyle = '#f1f5f9'; ctx.fillRect(MARGIN, cursor, PAGE_WIDTH - MARGIN * 2, height); }
+    ctx.font = font(LIST_FONT_SIZE, isHeader ? 'bold' : 'normal');
+    let x = MARGIN;
+    cells.forEach((lines, index) => {
+      const cellWidth = columns[index].width;
+      const fitted = clampLines(ctx, lines, Math.floor((height - LIST_CELL_PADDING * 2) / LIST_LINE_HEIGHT), cellWidth - LIST_CELL_PADDING * 2);
+      ctx.fillStyle = index === 0 && !isHeader ? '#1d4ed8' : '#0f172a';
+      fitted.forEach((line, lineIndex) => ctx.fillText(line, x + LIST_CELL_PADDING, cursor + LIST_CELL_PADDING + lineIndex * LIST_LINE_HEIGHT));
+      x += cellWidth;
+    });
+    ctx.strokeStyle = '#cbd5e1';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(MARGIN, cursor + height);
+    ctx.lineTo(PAGE_WIDTH - MARGIN, cursor + height);
+    ctx.stroke();
+    cursor += height;
+  };
+  drawRow(columns.map(column => [column.key === 'term' ? labels.term : labels.fields[column.key]]), true);
+  page.cards.forEach(card => drawRow(listRowLines(ctx, card, options.fields), false));
+};
+
+// Draws one page onto a PAGE_WIDTH x PAGE_HEIGHT canvas.
+export const drawPage = (ctx: CanvasRenderingContext2D, deck: Deck, pages: PrintPage[], index: number, options: PrintOptions, labels: PrintLabels) => {
+  const page = pages[index];
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, PAGE_WIDTH, PAGE_HEIGHT);
+  if (page.kind === 'list') drawListPage(ctx, deck, page, options, labels);
+  else drawCardPage(ctx, page, options, labels);
+  drawFooter(ctx, deck, index + 1, pages.length, labels);
+};
+
+export const createPageCanvas = () => {
+  const canvas = document.createElement('canvas');
+  canvas.width = PAGE_WIDTH;
+  canvas.height = PAGE_HEIGHT;
+  return canvas;
+};
+
+// PDF errors carry a code so the print view can explain them; anything else gets the generic message.
+const printError = (code: string) => Object.assign(new Error(code), { code });
+
+const PRINT_ERROR_KEYS: Record<string, MessageKey> = {
+  'print/no-canvas': 'print.noCanvas',
+  'print/encode-failed': 'print.encodeFailed',
+};
+
+export const printErrorKey = (err: unknown): MessageKey => PRINT_ERROR_KEYS[(err as { code?: string })?.code ?? ''] ?? 'print.failed';
+
+const canvasToJpeg = (canvas: HTMLCanvasElement): Promise<JpegPage> => new Promise((resolve, reject) => {
+  canvas.toBlob(blob => {
+    if (!blob) { reject(printError('print/encode-failed')); return; }
+    blob.arrayBuffer().then(buffer => resolve({ data: new Uint8Array(buffer), width: canvas.width, height: canvas.height }), reject);
+  }, 'image/jpeg', 0.9);
+});
+
+// Renders every page through a single canvas, so memory stays flat however long the deck is.
+export const exportDeckPdf = async (deck: Deck, options: PrintOptions, labels: PrintLabels, onProgress?: (done: number, total: number) => void): Promise<Blob> => {
+  const canvas = createPageCanvas();
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw printError('print/no-canvas');
+  const pages = layoutPages(deck, options, ctx);
+  const jpegs: JpegPage[] = [];
+  for (let index = 0; index < pages.length; index++) {
+    drawPage(ctx, deck, pages, index, options, labels);
+    jpegs.push(await canvasToJpeg(canvas));
+    onProgress?.(index + 1, pages.length);
+  }
+  return jpegPagesToPdf(jpegs);
+};
+
+export const printFileName = (deck: Deck, layout: PrintLayout, t: Translator) => `${deck.title.replace(/[\\/:*?"<>|]+/g, '_').slice(0, 60)}-${t(layout === 'cards' ? 'print.fileNameCards' : 'print.fileNameList')}.pdf`;
@@ -0,0 +1,54 @@
+// lib/profile.ts
+// The user's profile document, profiles/{uid}: theme, default AI provider, daily review goal and
+// whether to send due-card reminders. A copy is kept in localStorage so the theme applies before
+// Firestore answers; changes go through the sync queue like every other write.
+import { db } from '../firebase';
+import { deleteDoc, doc, getDoc, setDoc } from 'firebase/firestore';
+
+export type Theme = 'light' | 'dark';
+
+export interface UserProfile {
+  theme: Theme;
+  aiProvider: string | null;   // null = the first provider the server offers
+  dailyGoal: number;           // reviews per day; 0 hides the goal ring
+  reminders: boolean;
+}
+
+export const DEFAULT_PROFILE: UserProfile = { theme: 'light', aiProvider: null, dailyGoal: 50, reminders: false };
+
+const PROFILES_COLLECTION = 'profiles';
+const storageKey = (ownerId: string) => `smart-idiom-cards:profile:${ownerId}`;
+
+// Anything missing or malformed, from either source, falls back to the default.
+const normalizeProfile = (data: Partial<UserProfile>): UserProfile => ({
+  theme: data.theme === 'dark' ? 'dark' : 'light',
+  aiProvider: typeof data.aiProvider === 'string' ? data.aiProvider : null,
+  dailyGoal: typeof data.dailyGoal === 'number' && data.dailyGoal >= 0 ? Math.floor(data.dailyGoal) : DEFAULT_PROFILE.dailyGoal,
+  reminders: data.reminders === true,
+});
+
+export const loadCachedProfile = (ownerId: string): UserProfile => {
+  try {
+    const raw = localStorage.getItem(storageKey(ownerId));
+    return raw ? normalizeProfile(JSON.parse(raw)) : DEFAULT_PROFILE;
+  } catch (err) {
+    console.error("读取个人设置失败:", err);
+    return DEFAULT_PROFILE;
+  }
+};
+
+export const cacheProfile = (ownerId: string, profile: UserProfile) => {
+  localStorage.setItem(storageKey(ownerId), JSON.stringify(profile));
+};
+
+// null when the user has never saved a profile.
+export const fetchProfile = async (ownerId: string): Promise<UserProfile | null> => {
+  const snapshot = await getDoc(doc(db, PROFILES_COLLECTION, ownerId));
+  return snapshot.exists() ? normalizeProfile(snapshot.data() as Partial<UserProfile>) : null;
+};
+
+// Merges so two devices changing different fields don't overwrite each other.
+export const saveProfileFields = (ownerId: string, changes: Partial<UserProfile>) =>
+  setDoc(doc(db, PROFILES_COLLECTION, ownerId), { ...changes, ownerId }, { merge: true });
+
+export const deleteProfile = (ownerId: string) => deleteDoc(doc(db, PROFILES_COLLECTION, ownerId));
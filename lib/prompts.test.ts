@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { parseAiRequest } from './prompts';
+
+const card = { term: 'break the ice', meaning: '', example: '', context: '', translation: '', missing: ['meaning'] };
+
+describe('parseAiRequest', () => {
+  it('accepts payloads of the expected shape', () => {
+    expect(parseAiRequest('examples', { term: 'break the ice', meaning: '打破僵局', locale: 'en' })).not.toBeNull();
+    expect(parseAiRequest('generate-cards', { text: 'break the ice' })).not.toBeNull();
+    expect(parseAiRequest('leech-help', { term: 'break the ice', meaning: '打破僵局', example: '', kind: 'contrast' })).not.toBeNull();
+    expect(parseAiRequest('enrich-cards', { cards: [card] })).not.toBeNull();
+  });
+
+  it('rejects missing or mistyped fields', () => {
+    expect(parseAiRequest('examples', null)).toBeNull();
+    expect(parseAiRequest('examples', { meaning: '打破僵局' })).toBeNull();
+    expect(parseAiRequest('generate-cards', { text: 42 })).toBeNull();
+    expect(parseAiRequest('generate-cards', ['break the ice'])).toBeNull();
+    expect(parseAiRequest('leech-help', { term: 'break the ice', meaning: '', example: '', kind: 'story' })).toBeNull();
+    expect(parseAiRequest('enrich-cards', { cards: 'break the ice' })).toBeNull();
+  });
+
+  it('rejects enrichment batches that are empty, too large or ask for unknown fields', () => {
+    expect(parseAiRequest('enrich-cards', { cards: [] })).toBeNull();
+    expect(parseAiRequest('enrich-cards', { cards: Array(6).fill(card) })).toBeNull();
+    expect(parseAiRequest('enrich-cards', { cards: [{ ...card, missing: ['term'] }] })).toBeNull();
+    expect(parseAiRequest('enrich-cards', { cards: [{ ...card, missing: [] }] })).toBeNull();
+  });
+});
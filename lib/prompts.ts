@@ -0,0 +1,128 @@
+// lib/prompts.ts
+// Prompt templates owned by the AI gateway. Clients send a prompt type and its payload;
+// the server builds the actual prompt so browsers can't use the keys for arbitrary requests.
+import type { Locale } from './i18n';
+
+export const MAX_CARDS_PER_CHUNK = 25;
+export const MAX_CARDS_PER_ENRICHMENT = 5;
+
+// `locale` is the learner's UI language; explanations are written in it.
+export interface PromptPayloads {
+  'examples': { term: string; meaning: string; locale?: Locale };
+  'generate-cards': { text: string; locale?: Locale };
+  'leech-help': { term: string; meaning: string; example: string; kind: LeechHelpKind; locale?: Locale };
+  'enrich-cards': { cards: EnrichmentInput[]; locale?: Locale };
+}
+// mnemonic: a memory hook for the term; contrast: how it differs from look-alikes, with examples.
+export type LeechHelpKind = 'mnemonic' | 'contrast';
+// A card's current text plus the fields the model should fill in; the others are context only.
+export type EnrichField = 'meaning' | 'example' | 'context' | 'translation';
+export interface EnrichmentInput { term: string; meaning: string; example: string; context: string; translation: string; missing: EnrichField[]; }
+export type PromptType = keyof PromptPayloads;
+export type AiRequest = { [K in PromptType]: { type: K; payload: PromptPayloads[K] } }[PromptType];
+
+interface PromptDefinition<K extends PromptType> {
+  json: boolean;
+  maxInputChars: number;
+  // The payload comes from the browser; requests whose payload does not have this shape are refused.
+  isPayload: (payload: Record<string, unknown>) => boolean;
+  build: (payload: PromptPayloads[K]) => string;
+  // Responses are cached per (term, prompt type); the term key carries the locale when the answer
+  // depends on it. Prompts without a term are never cached.
+  cacheTerm: (payload: PromptPayloads[K]) => string | null;
+}
+
+interface PromptLanguage { language: string; learner: string; translation: string; }
+
+const PROMPT_LANGUAGES: Record<Locale, PromptLanguage> = {
+  'zh-CN': { language: 'Simplified Chinese', learner: 'a Chinese-speaking learner', translation: 'a Simplified Chinese translation of the example sentence' },
+  'en': { language: 'English', learner: 'a learner of English', translation: 'a plain-English paraphrase of the example sentence' },
+};
+
+// The locale arrives from the browser, so anything unrecognised falls back to Chinese.
+const promptLocale = (locale: unknown): Locale => typeof locale === 'string' && Object.prototype.hasOwnProperty.call(PROMPT_LANGUAGES, locale) ? locale as Locale : 'zh-CN';
+
+// --- Payload checks ---
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+const isTerm = (value: unknown) => typeof value === 'string' && value.trim() !== '';
+// Card fields saved before the field existed may be missing, and the locale is optional.
+const isOptionalText = (value: unknown) => value === undefined || typeof value === 'string';
+const LEECH_HELP_KINDS: unknown[] = ['mnemonic', 'contrast'] satisfies LeechHelpKind[];
+const ENRICH_FIELDS: unknown[] = ['meaning', 'example', 'context', 'translation'] satisfies EnrichField[];
+
+const isEnrichmentInput = (value: unknown) => isRecord(value) && isTerm(value.term)
+  && [value.meaning, value.example, value.context, value.translation].every(isOptionalText)
+  && Array.isArray(value.missing) && value.missing.length > 0 && value.missing.every(field => ENRICH_FIELDS.includes(field));
+
+export const PROMPTS: { [K in PromptType]: PromptDefinition<K> } = {
+  'examples': {
+    json: false,
+    maxInputChars: 500,
+    isPayload: ({ term, meaning, locale }) => isTerm(term) && isOptionalText(meaning) && isOptionalText(locale),
+    build: ({ term, meaning, locale }) => `For the English term "${term}" which means "${meaning}", provide 3 diverse and natural example sentences. After each sentence, briefly explain in ${PROMPT_LANGUAGES[promptLocale(locale)].language} how the term is used in it.`,
+    cacheTerm: ({ term, locale }) => `${promptLocale(locale)}:${term}`,
+  },
+  'generate-cards': {
+    json: true,
+    maxInputChars: 8000,
+    isPayload: ({ text, locale }) => isTerm(text) && isOptionalText(locale),
+    build: ({ text, locale }) => {
+      const { language, learner, translation } = PROMPT_LANGUAGES[promptLocale(locale)];
+      return `You are helping ${learner} study English.
+From the text below, extract up to ${MAX_CARDS_PER_CHUNK} idioms, slang expressions and phrasal verbs worth studying. Skip ordinary single words.
+Respond with JSON only, in the shape {"cards": [{"term": string, "meaning": string, "example": string, "context": string, "translation": string}]} where:
+- term: the expression in its dictionary form
+- meaning: a concise explanation in ${language}
+- example: the full sentence from the text in which it appears, copied verbatim
+- context: a short note in ${language} on usage, register or cultural background
+- translation: ${translation}
+
+Text:
+"""
+${text}
+"""`;
+    },
+    cacheTerm: () => null,
+  },
+  'leech-help': {
+    json: false,
+    maxInputChars: 800,
+    isPayload: ({ term, meaning, example, kind, locale }) => isTerm(term) && isOptionalText(meaning) && isOptionalText(example) && LEECH_HELP_KINDS.includes(kind) && isOptionalText(locale),
+    build: ({ term, meaning, example, kind, locale }) => {
+      const { language } = PROMPT_LANGUAGES[promptLocale(locale)];
+      const intro = `A learner keeps forgetting the English term "${term}", which means "${meaning}"${example ? ` (for example: "${example}")` : ''}.`;
+      if (kind === 'contrast') return `${intro} Name 2-3 expressions it is easily confused with. For each, explain in ${language} how it differs and give one example sentence that shows the contrast.`;
+      return `${intro} Write in ${language} one short, vivid mnemonic that ties the wording of the term to its meaning, then a sentence on how to use it when the term comes up.`;
+    },
+    cacheTerm: ({ term, kind, locale }) => `${kind}:${promptLocale(locale)}:${term}`,
+  },
+  'enrich-cards': {
+    json: true,
+    maxInputChars: 3000,
+    isPayload: ({ cards, locale }) => Array.isArray(cards) && cards.length > 0 && cards.length <= MAX_CARDS_PER_ENRICHMENT && cards.every(isEnrichmentInput) && isOptionalText(locale),
+    build: ({ cards, locale }) => {
+      const { language, learner, translation } = PROMPT_LANGUAGES[promptLocale(locale)];
+      const list = cards.map((card, index) => JSON.stringify({ index, term: card.term, meaning: card.meaning, example: card.example, context: card.context, translation: card.translation, missing: card.missing }));
+      return `You are helping ${learner} complete flashcards for English expressions.
+Each card below lists the fields that are empty in "missing". Fill in only those fields, consistent with the card's existing text, and leave the others out.
+Respond with JSON only, in the shape {"cards": [{"index": number, "meaning"?: string, "example"?: string, "context"?: string, "translation"?: string}]} where:
+- meaning: a concise explanation in ${language}
+- example: one natural English sentence using the term
+- context: a short note in ${language} on usage, register or cultural background
+- translation: ${translation}
+
+Cards:
+${list.join('\n')}`;
+    },
+    cacheTerm: () => null,
+  },
+};
+
+export const isPromptType = (value: unknown): value is PromptType => typeof value === 'string' && Object.prototype.hasOwnProperty.call(PROMPTS, value);
+
+// Returns the request when its payload has the shape its prompt type expects, otherwise null.
+export const parseAiRequest = (type: PromptType, payload: unknown): AiRequest | null =>
+  isRecord(payload) && PROMPTS[type].isPayload(payload) ? { type, payload } as AiRequest : null;
+
+// Counts the text in nested arrays and objects too, so batched payloads can't slip past the input limit.
+export const payloadLength = (payload: object): number => Object.values(payload).reduce((sum: number, value) => sum + (typeof value === 'string' ? value.length : value && typeof value === 'object' ? payloadLength(value) : 0), 0);
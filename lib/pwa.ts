@@ -0,0 +1,35 @@
+// lib/pwa.ts
+// Service worker registration and the local due-card reminder. Notifications are shown by the
+// service worker so they also appear while the installed app sits in the background.
+import { toDateKey } from './analytics';
+
+const SERVICE_WORKER_URL = '/sw.js';
+const REMINDER_TAG = 'due-cards';
+const reminderKey = (ownerId: string) => `smart-idiom-cards:reminded:${ownerId}`;
+
+const supportsNotifications = () => typeof window !== 'undefined' && 'Notification' in window && 'serviceWorker' in navigator;
+
+export const registerServiceWorker = async () => {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+  await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+};
+
+// Asks for permission; must be called from a click. Resolves to whether reminders can be shown.
+export const requestReminderPermission = async (): Promise<boolean> => {
+  if (!supportsNotifications()) return false;
+  if (Notification.permission === 'granted') return true;
+  if (Notification.permission === 'denied') return false;
+  return (await Notification.requestPermission()) === 'granted';
+};
+
+// Shows the reminder at most once a day per user, and only while the app is not in front of them.
+export const showDueReminder = async (ownerId: string, title: string, body: string): Promise<boolean> => {
+  if (!supportsNotifications() || Notification.permission !== 'granted' || document.visibilityState === 'visible') return false;
+  const today = toDateKey(new Date());
+  if (localStorage.getItem(reminderKey(ownerId)) === today) return false;
+  const registration = await navigator.serviceWorker.getRegistration();
+  if (!registration) return false;
+  await registration.showNotification(title, { body, tag: REMINDER_TAG, icon: '/icon/192' });
+  localStorage.setItem(reminderKey(ownerId), today);
+  return true;
+};
@@ -0,0 +1,20 @@
+// lib/reviewLog.ts
+import { db } from '../firebase';
+import { collection, getDocs, query, where, Timestamp, type WriteBatch } from 'firebase/firestore';
+import type { ReviewLogEntry } from './types';
+import { commitInBatches } from './deckStore';
+
+const REVIEW_LOG_COLLECTION = 'reviewLogs';
+
+// New entries are written through the sync queue (lib/sync.ts) so reviews work offline.
+export const fetchReviewLog = async (ownerId: string, since: Date): Promise<ReviewLogEntry[]> => {
+  const q = query(collection(db, REVIEW_LOG_COLLECTION), where('ownerId', '==', ownerId), where('reviewedAt', '>=', Timestamp.fromDate(since)));
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as ReviewLogEntry));
+};
+
+// Removes the user's entire review history; part of deleting the account.
+export const deleteReviewLog = async (ownerId: string) => {
+  const snapshot = await getDocs(query(collection(db, REVIEW_LOG_COLLECTION), where('ownerId', '==', ownerId)));
+  await commitInBatches(snapshot.docs.map(logDoc => (batch: WriteBatch) => batch.delete(logDoc.ref)));
+};
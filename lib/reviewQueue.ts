@@ -0,0 +1,115 @@
+// lib/reviewQueue.ts
+// Builds the daily review queue across decks: new-card and review limits, cards answered
+// 忘记了 coming back later in the same session, and an unbiased shuffle of what remains.
+import type { Card, CardState, Deck, ReviewLogEntry } from './types';
+import { toDateKey } from './analytics';
+import { isReviewable } from './leeches';
+
+export interface DailyLimits { newCardsPerDay: number; reviewsPerDay: number; }
+export const DEFAULT_DAILY_LIMITS: DailyLimits = { newCardsPerDay: 20, reviewsPerDay: 200 };
+
+export interface QueueItem { deckId: string; card: Card; state: CardState; }
+// Cards answered 忘记了 wait in `relearning` until their ten-minute step is due.
+export interface ReviewQueue { items: QueueItem[]; relearning: (QueueItem & { dueAt: number })[]; }
+
+export const cardState = (card: Card): CardState => card.srs.lastReviewedAt === null ? 'new' : card.srs.interval === 0 ? 'learning' : 'review';
+
+// Suspended and buried cards are never due, whatever their dueDate says.
+const isDue = (card: Card, now: Date) => isReviewable(card, now) && !!card.dueDate && card.dueDate.toMillis() <= now.getTime();
+
+export interface DueBreakdown { new: number; learning: number; review: number; }
+
+// Raw due counts for one deck, before daily limits are applied.
+export const dueBreakdown = (deck: Deck, now = new Date()): DueBreakdown => {
+  const counts: DueBreakdown = { new: 0, learning: 0, review: 0 };
+  (deck.cards || []).forEach(card => { if (isDue(card, now)) counts[cardState(card)] += 1; });
+  return counts;
+};
+
+// How much of today's limits the review log has already used. Learning steps never count.
+export const studiedToday = (reviewLog: ReviewLogEntry[], now = new Date()) => {
+  const today = toDateKey(now);
+  const counts = { new: 0, review: 0 };
+  reviewLog.forEach(entry => {
+    if (toDateKey(entry.reviewedAt.toDate()) !== today) return;
+    if (entry.cardState === 'new') counts.new += 1;
+    else if (entry.cardState === 'review') counts.review += 1;
+  });
+  return counts;
+};
+
+// Fisher–Yates; `sort(() => Math.random() - 0.5)` does not give every order the same chance.
+export const shuffle = <T,>(items: T[], random = Math.random): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// Merges two lists keeping each list's order, picking the next source with probability proportional
+// to what it has left, so every interleaving is equally likely and new cards spread through the session.
+export const interleave = <T,>(a: T[], b: T[], random = Math.random): T[] => {
+  const result: T[] = [];
+  let i = 0, j = 0;
+  while (i < a.length || j < b.length) {
+    const remainingA = a.length - i;
+    if (random() * (remainingA + b.length - j) < remainingA) result.push(a[i++]);
+    else result.push(b[j++]);
+  }
+  return result;
+};
+
+export interface QueueOptions { deckIds?: string[]; limits?: DailyLimits; reviewLog?: ReviewLogEntry[]; now?: Date; random?: () => number; }
+
+// Decks whose cards are not loaded yet are left out; summaryDueCount counts what they hold.
+export const buildDailyQueue = (decks: Deck[], options: QueueOptions = {}): ReviewQueue => {
+  const { deckIds, limits = DEFAULT_DAILY_LIMITS, reviewLog = [], now = new Date(), random = Math.random } = options;
+  const due: Record<CardState, QueueItem[]> = { new: [], learning: [], review: [] };
+  decks.filter(deck => !deck.summary && (!deckIds || deckIds.includes(deck.id))).forEach(deck => {
+    (deck.cards || []).forEach(card => {
+      if (!isDue(card, now)) return;
+      const state = cardState(card);
+      due[state].push({ deckId: deck.id, card, state });
+    });
+  });
+  const done = studiedToday(reviewLog, now);
+  // New cards are introduced in deck order; the most overdue reviews are kept when over the limit.
+  const newCards = due.new.slice(0, Math.max(0, limits.newCardsPerDay - done.new));
+  const reviews = [...due.review].sort((x, y) => x.card.dueDate.toMillis() - y.card.dueDate.toMillis()).slice(0, Math.max(0, limits.reviewsPerDay - done.review));
+  return { items: interleave(shuffle([...due.learning, ...reviews], random), shuffle(newCards, random), random), relearning: [] };
+};
+
+// Due cards in the decks still listed from their summary, before daily limits are applied.
+export const summaryDueCount = (decks: Deck[], deckIds?: string[]) =>
+  decks.reduce((sum, deck) => deck.summary && (!deckIds || deckIds.includes(deck.id)) ? sum + deck.summary.dueCount : sum, 0);
+
+// Filtered decks review every matching card, due or not, outside the daily limits; suspended and buried cards still sit out.
+export const buildQueueFromCards = (cards: { deckId: string; card: Card }[], random = Math.random, now = new Date()): ReviewQueue => ({
+  items: shuffle(cards.filter(({ card }) => isReviewable(card, now)).map(({ deckId, card }) => ({ deckId, card, state: cardState(card) })), random),
+  relearning: [],
+});
+
+export const queueSize = (queue: ReviewQueue) => queue.items.length + queue.relearning.length;
+
+// Returns the next card to show: a relearning card once its step is due, otherwise the next queued
+// card, and when nothing else is left the earliest relearning card ahead of time.
+export const takeNext = (queue: ReviewQueue, now = new Date()): { item: QueueItem | null; queue: ReviewQueue } => {
+  const relearning = [...queue.relearning].sort((x, y) => x.dueAt - y.dueAt);
+  if (relearning.length > 0 && (relearning[0].dueAt <= now.getTime() || queue.items.length === 0)) {
+    const [{ deckId, card, state }, ...rest] = relearning;
+    return { item: { deckId, card, state }, queue: { items: queue.items, relearning: rest } };
+  }
+  if (queue.items.length === 0) return { item: null, queue };
+  const [item, ...items] = queue.items;
+  return { item, queue: { items, relearning: queue.relearning } };
+};
+
+export const requeueForRelearning = (queue: ReviewQueue, item: QueueItem, dueAt: number): ReviewQueue => ({ ...queue, relearning: [...queue.relearning, { ...item, dueAt }] });
+
+export const queueCounts = (queue: ReviewQueue): DueBreakdown => {
+  const counts: DueBreakdown = { new: 0, learning: 0, review: 0 };
+  [...queue.items, ...queue.relearning].forEach(item => { counts[item.state] += 1; });
+  return counts;
+};
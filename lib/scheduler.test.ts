@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import { applyReview, createCard } from './cards';
+import { LEGACY_INTERVALS_DAYS, RELEARN_MINUTES, createSrsState, fsrs, migrateSrsState, previewSchedule, sm2, type Scheduler } from './scheduler';
+import type { ReviewAnswer, SrsState } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2025-01-01T08:00:00Z');
+const daysAfter = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+
+// Answers the same card again and again, each review on the day it falls due.
+const reviewSequence = (scheduler: Scheduler, answers: ReviewAnswer[]) => {
+  let state = createSrsState();
+  let at = now;
+  return answers.map(answer => {
+    const result = scheduler.schedule(state, answer, at);
+    state = result.state;
+    at = result.dueDate;
+    return result;
+  });
+};
+
+describe('sm2', () => {
+  it('uses the fixed first and second intervals', () => {
+    expect(reviewSequence(sm2, ['good', 'good']).map(result => result.state.interval)).toEqual([1, 6]);
+    expect(reviewSequence(sm2, ['easy', 'easy']).map(result => result.state.interval)).toEqual([4, 8]);
+  });
+
+  it('multiplies later intervals by the ease factor', () => {
+    const [, , third] = reviewSequence(sm2, ['good', 'good', 'good']);
+    expect(third.state.easeFactor).toBe(2.5);
+    expect(third.state.interval).toBe(15);
+    expect(third.dueDate).toEqual(daysAfter(daysAfter(daysAfter(now, 1), 6), 15));
+  });
+
+  it('raises the ease on easy and applies the easy bonus', () => {
+    const [, , third] = reviewSequence(sm2, ['easy', 'easy', 'easy']);
+    expect(third.state.easeFactor).toBeCloseTo(2.8);
+    expect(third.state.interval).toBe(Math.round(8 * 2.8 * 1.3));
+  });
+
+  it('never lets the ease drop below 1.3', () => {
+    const state: SrsState = { ...createSrsState(), easeFactor: 1.4, interval: 10, repetitions: 3 };
+    expect(sm2.schedule(state, 'again', now).state.easeFactor).toBe(1.3);
+  });
+});
+
+describe('fsrs', () => {
+  it('starts from the initial stability of the first grade', () => {
+    const good = fsrs.schedule(createSrsState(), 'good', now);
+    const easy = fsrs.schedule(createSrsState(), 'easy', now);
+    expect(good.state.stability).toBe(2.4);
+    expect(good.state.interval).toBe(2);
+    expect(easy.state.stability).toBe(5.8);
+    expect(easy.state.interval).toBe(6);
+  });
+
+  it('grows the interval with each successful review', () => {
+    const intervals = reviewSequence(fsrs, ['good', 'good', 'good', 'good']).map(result => result.state.interval);
+    intervals.slice(1).forEach((interval, index) => expect(interval).toBeGreaterThan(intervals[index]));
+  });
+
+  it('gives easy a longer interval than good', () => {
+    const [first] = reviewSequence(fsrs, ['good']);
+    const later = daysAfter(now, first.state.interval);
+    expect(fsrs.schedule(first.state, 'easy', later).state.interval).toBeGreaterThan(fsrs.schedule(first.state, 'good', later).state.interval);
+  });
+
+  it('never raises stability on a lapse', () => {
+    const [, second] = reviewSequence(fsrs, ['good', 'good']);
+    const lapse = fsrs.schedule(second.state, 'again', second.dueDate);
+    expect(lapse.state.stability).toBeLessThanOrEqual(second.state.stability);
+  });
+
+  it('computes the post-lapse stability from the previous difficulty', () => {
+    const state: SrsState = { ...createSrsState(), interval: 10, repetitions: 3, stability: 10, difficulty: 5, lastReviewedAt: now.getTime() };
+    const lapse = fsrs.schedule(state, 'again', daysAfter(now, 10));
+    expect(lapse.state.stability).toBeCloseTo(2.8743, 4);
+    expect(lapse.state.difficulty).toBeCloseTo(6.7021, 4);
+  });
+});
+
+describe.each([sm2, fsrs])('$name again', scheduler => {
+  it('sends a reviewed card back to relearn', () => {
+    const [, reviewed] = reviewSequence(scheduler, ['good', 'good']);
+    const { state, dueDate } = scheduler.schedule(reviewed.state, 'again', reviewed.dueDate);
+    expect(state.interval).toBe(0);
+    expect(state.repetitions).toBe(0);
+    expect(state.lapses).toBe(1);
+    expect(state.lastReviewedAt).toBe(reviewed.dueDate.getTime());
+    expect(dueDate.getTime() - reviewed.dueDate.getTime()).toBe(RELEARN_MINUTES * 60 * 1000);
+  });
+
+  it('restarts the ladder after relearning', () => {
+    const [, , , relearned] = reviewSequence(scheduler, ['good', 'good', 'again', 'good']);
+    expect(relearned.state.repetitions).toBe(1);
+    expect(relearned.state.lapses).toBe(1);
+    expect(relearned.state.interval).toBeGreaterThanOrEqual(1);
+  });
+});
+
+describe('migrateSrsState', () => {
+  it('treats level 0 as a new card', () => {
+    expect(migrateSrsState(0, now)).toEqual(createSrsState());
+  });
+
+  it('maps the level onto the legacy ladder', () => {
+    const dueDate = daysAfter(now, 14);
+    const state = migrateSrsState(3, dueDate);
+    expect(state.interval).toBe(14);
+    expect(state.stability).toBe(14);
+    expect(state.repetitions).toBe(3);
+    expect(state.lapses).toBe(0);
+    expect(state.lastReviewedAt).toBe(now.getTime());
+  });
+
+  it('caps levels past the end of the ladder', () => {
+    expect(migrateSrsState(20, now).interval).toBe(LEGACY_INTERVALS_DAYS[LEGACY_INTERVALS_DAYS.length - 1]);
+  });
+
+  it('leaves lastReviewedAt unset without a due date', () => {
+    expect(migrateSrsState(2, null).lastReviewedAt).toBeNull();
+  });
+
+  it('produces a state both schedulers can continue from', () => {
+    const state = migrateSrsState(3, now);
+    expect(sm2.schedule(state, 'good', now).state.interval).toBe(35);
+    expect(fsrs.schedule(state, 'good', now).state.interval).toBeGreaterThan(14);
+  });
+});
+
+describe.each([sm2, fsrs])('$name previewSchedule', scheduler => {
+  const card = { ...createCard({ term: '画龙点睛', meaning: '比喻关键处的点拨', example: '', context: '', translation: '' }), srs: migrateSrsState(2, now) };
+  const reviewAt = daysAfter(now, 2);
+  const preview = previewSchedule(scheduler, card.srs, reviewAt);
+
+  it.each(['again', 'good', 'easy'] as const)('matches applyReview for %s', answer => {
+    const reviewed = applyReview(card, answer, scheduler.id, reviewAt);
+    expect(reviewed.srs).toEqual(preview[answer].state);
+    expect(reviewed.dueDate.toMillis()).toBe(preview[answer].dueDate.getTime());
+    expect(reviewed.srsLevel).toBe(preview[answer].state.repetitions);
+  });
+});
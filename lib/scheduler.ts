@@ -0,0 +1,124 @@
+// lib/scheduler.ts
+// Pure spaced-repetition schedulers. Nothing here touches Firestore or React, so the
+// intervals shown on the answer buttons and the dueDate written on review come from
+// the same function.
+import type { ReviewAnswer, SchedulerId, SrsState } from './types';
+import type { Translator } from './i18n';
+
+export interface ScheduleResult { state: SrsState; dueDate: Date; }
+
+export interface Scheduler {
+  id: SchedulerId;
+  name: string;
+  schedule: (state: SrsState, answer: ReviewAnswer, now: Date) => ScheduleResult;
+}
+
+// --- Constants ---
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const RELEARN_MINUTES = 10;
+export const MAX_INTERVAL_DAYS = 36500;
+// The old fixed ladder, kept only to migrate cards that still carry a bare srsLevel.
+export const LEGACY_INTERVALS_DAYS = [1, 3, 7, 14, 30, 90, 180, 365];
+
+const addDays = (now: Date, days: number) => new Date(now.getTime() + days * DAY_MS);
+const addMinutes = (now: Date, minutes: number) => new Date(now.getTime() + minutes * 60 * 1000);
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+const elapsedDays = (state: SrsState, now: Date) => state.lastReviewedAt === null ? 0 : Math.max(0, (now.getTime() - state.lastReviewedAt) / DAY_MS);
+
+export const createSrsState = (): SrsState => ({ interval: 0, easeFactor: 2.5, repetitions: 0, lapses: 0, stability: 0, difficulty: 0, lastReviewedAt: null });
+
+// --- SM-2 ---
+const SM2_QUALITY: Record<ReviewAnswer, number> = { again: 1, good: 4, easy: 5 };
+const SM2_EASY_BONUS = 1.3;
+
+export const sm2: Scheduler = {
+  id: 'sm2',
+  name: 'SM-2',
+  schedule: (state, answer, now) => {
+    const q = SM2_QUALITY[answer];
+    const easeFactor = Math.max(1.3, state.easeFactor + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)));
+    if (answer === 'again') {
+      const next = { ...state, easeFactor, interval: 0, repetitions: 0, lapses: state.lapses + 1, lastReviewedAt: now.getTime() };
+      return { state: next, dueDate: addMinutes(now, RELEARN_MINUTES) };
+    }
+    let interval: number;
+    if (state.repetitions === 0) interval = answer === 'easy' ? 4 : 1;
+    else if (state.repetitions === 1) interval = answer === 'easy' ? 8 : 6;
+    else interval = Math.round(Math.max(state.interval, 1) * easeFactor * (answer === 'easy' ? SM2_EASY_BONUS : 1));
+    interval = clamp(interval, 1, MAX_INTERVAL_DAYS);
+    const next = { ...state, easeFactor, interval, repetitions: state.repetitions + 1, lastReviewedAt: now.getTime() };
+    return { state: next, dueDate: addDays(now, interval) };
+  },
+};
+
+// --- FSRS ---
+// Default FSRS v4 weights; grades follow FSRS numbering (1 again, 3 good, 4 easy).
+const FSRS_W = [0.4, 0.6, 2.4, 5.8, 4.93, 0.94, 0.86, 0.01, 1.49, 0.14, 0.94, 2.18, 0.05, 0.34, 1.26, 0.29, 2.61];
+const FSRS_GRADE: Record<ReviewAnswer, number> = { again: 1, good: 3, easy: 4 };
+const FSRS_REQUEST_RETENTION = 0.9;
+
+const fsrsInitialDifficulty = (grade: number) => clamp(FSRS_W[4] - (grade - 3) * FSRS_W[5], 1, 10);
+const fsrsRetrievability = (elapsed: number, stability: number) => Math.pow(1 + elapsed / (9 * stability), -1);
+const fsrsInterval = (stability: number) => clamp(Math.round(9 * stability * (1 / FSRS_REQUEST_RETENTION - 1)), 1, MAX_INTERVAL_DAYS);
+
+export const fsrs: Scheduler = {
+  id: 'fsrs',
+  name: 'FSRS',
+  schedule: (state, answer, now) => {
+    const grade = FSRS_GRADE[answer];
+    let stability: number;
+    let difficulty: number;
+    if (state.stability <= 0) {
+      stability = FSRS_W[grade - 1];
+      difficulty = fsrsInitialDifficulty(grade);
+    } else {
+      const r = fsrsRetrievability(elapsedDays(state, now), state.stability);
+      const d = state.difficulty - FSRS_W[6] * (grade - 3);
+      difficulty = clamp(FSRS_W[7] * fsrsInitialDifficulty(3) + (1 - FSRS_W[7]) * d, 1, 10);
+      if (answer === 'again') {
+        // Post-lapse stability depends on the difficulty the card had before this review.
+        stability = FSRS_W[11] * Math.pow(state.difficulty, -FSRS_W[12]) * (Math.pow(state.stability + 1, FSRS_W[13]) - 1) * Math.exp(FSRS_W[14] * (1 - r));
+        stability = Math.min(stability, state.stability);
+      } else {
+        const bonus = answer === 'easy' ? FSRS_W[16] : 1;
+        stability = state.stability * (Math.exp(FSRS_W[8]) * (11 - difficulty) * Math.pow(state.stability, -FSRS_W[9]) * (Math.exp(FSRS_W[10] * (1 - r)) - 1) * bonus + 1);
+      }
+    }
+    const base = { ...state, stability, difficulty, lastReviewedAt: now.getTime() };
+    if (answer === 'again') {
+      return { state: { ...base, interval: 0, repetitions: 0, lapses: state.lapses + 1 }, dueDate: addMinutes(now, RELEARN_MINUTES) };
+    }
+    const interval = fsrsInterval(stability);
+    return { state: { ...base, interval, repetitions: state.repetitions + 1 }, dueDate: addDays(now, interval) };
+  },
+};
+
+// --- Registry ---
+export const SCHEDULERS: Record<SchedulerId, Scheduler> = { sm2, fsrs };
+export const DEFAULT_SCHEDULER: SchedulerId = 'sm2';
+export const getScheduler = (id?: SchedulerId): Scheduler => SCHEDULERS[id ?? DEFAULT_SCHEDULER] ?? SCHEDULERS[DEFAULT_SCHEDULER];
+
+// Outcome of every answer for the current card, used to label the review buttons.
+export const previewSchedule = (scheduler: Scheduler, state: SrsState, now: Date): Record<ReviewAnswer, ScheduleResult> => ({
+  again: scheduler.schedule(state, 'again', now),
+  good: scheduler.schedule(state, 'good', now),
+  easy: scheduler.schedule(state, 'easy', now),
+});
+
+export const formatInterval = (result: ScheduleResult, now: Date, t: Translator): string => {
+  const minutes = Math.round((result.dueDate.getTime() - now.getTime()) / 60000);
+  if (minutes < 60) return t('interval.minutes', { count: minutes });
+  const days = Math.round(minutes / (60 * 24));
+  if (days < 30) return t('interval.days', { count: days });
+  if (days < 365) return t('interval.months', { count: Math.round(days / 30) });
+  return t('interval.years', { count: (days / 365).toFixed(1) });
+};
+
+// Derives scheduler state for cards saved before per-card state existed.
+export const migrateSrsState = (srsLevel: number, dueDate: Date | null): SrsState => {
+  const level = Math.max(0, srsLevel || 0);
+  if (level === 0) return createSrsState();
+  const interval = LEGACY_INTERVALS_DAYS[Math.min(level, LEGACY_INTERVALS_DAYS.length - 1)];
+  const lastReviewedAt = dueDate ? dueDate.getTime() - interval * DAY_MS : null;
+  return { interval, easeFactor: 2.5, repetitions: level, lapses: 0, stability: interval, difficulty: fsrsInitialDifficulty(3), lastReviewedAt };
+};
@@ -0,0 +1,79 @@
+// lib/search.ts
+// Card-level search across every text field and tag, plus the filters used by saved filtered decks.
+import type { Card, Deck } from './types';
+
+export interface CardFilter {
+  text: string;
+  tags: string[];          // every tag must be on the card or its deck
+  dueOnly: boolean;
+  maxSrsLevel: number | null;
+  missingExample: boolean;
+}
+
+export const EMPTY_FILTER: CardFilter = { text: '', tags: [], dueOnly: false, maxSrsLevel: null, missingExample: false };
+
+export const SEARCH_FIELDS = ['term', 'meaning', 'example', 'context', 'translation'] as const;
+export type SearchField = typeof SEARCH_FIELDS[number];
+
+export interface CardMatch { deck: Deck; card: Card; fields: SearchField[]; tags: string[]; }
+
+// Tags are entered comma-separated (, or ，) with an optional leading #; duplicates are dropped case-insensitively.
+export const parseTags = (text: string): string[] => {
+  const seen = new Set<string>();
+  return text.split(/[,，]/).map(tag => tag.trim().replace(/^#/, '').trim()).filter(tag => {
+    const key = tag.toLowerCase();
+    if (!tag || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+export const formatTags = (tags: string[] = []) => tags.join(', ');
+
+export const isFilterActive = (filter: CardFilter) => !!filter.text.trim() || filter.tags.length > 0 || filter.dueOnly || filter.maxSrsLevel !== null || filter.missingExample;
+
+const searchTokens = (text: string) => text.toLowerCase().split(/\s+/).filter(Boolean);
+
+// Every whitespace-separated token has to appear somewhere on the card; fields lists where any did.
+export const searchCards = (decks: Deck[], filter: CardFilter, now = new Date()): CardMatch[] => {
+  const tokens = searchTokens(filter.text);
+  const wantedTags = filter.tags.map(tag => tag.toLowerCase());
+  const matches: CardMatch[] = [];
+  decks.forEach(deck => {
+    (deck.cards || []).forEach(card => {
+      const tags = [...(deck.tags ?? []), ...(card.tags ?? [])];
+      const lowerTags = tags.map(tag => tag.toLowerCase());
+      if (!wantedTags.every(tag => lowerTags.includes(tag))) return;
+      if (filter.dueOnly && !(card.dueDate && card.dueDate.toMillis() <= now.getTime())) return;
+      if (filter.maxSrsLevel !== null && (card.srsLevel || 0) > filter.maxSrsLevel) return;
+      if (filter.missingExample && card.example.trim()) return;
+      const texts = SEARCH_FIELDS.map(field => ({ field, text: (card[field] || '').toLowerCase() }));
+      const tagText = lowerTags.join(' ');
+      if (!tokens.every(token => texts.some(({ text }) => text.includes(token)) || tagText.includes(token))) return;
+      const fields = texts.filter(({ text }) => tokens.some(token => text.includes(token))).map(({ field }) => field);
+      matches.push({ deck, card, fields, tags });
+    });
+  });
+  return matches;
+};
+
+export interface HighlightSegment { text: string; match: boolean; }
+
+// Splits text into plain and matching runs so the UI can wrap matches in <mark>.
+export const highlightMatches = (text: string, query: string): HighlightSegment[] => {
+  const tokens = searchTokens(query);
+  if (!text || tokens.length === 0) return [{ text, match: false }];
+  const lower = text.toLowerCase();
+  const marked = new Array<boolean>(text.length).fill(false);
+  tokens.forEach(token => {
+    for (let start = lower.indexOf(token); start !== -1; start = lower.indexOf(token, start + 1)) {
+      for (let i = start; i < start + token.length; i++) marked[i] = true;
+    }
+  });
+  const segments: HighlightSegment[] = [];
+  text.split('').forEach((char, i) => {
+    const last = segments[segments.length - 1];
+    if (last && last.match === marked[i]) last.text += char; else segments.push({ text: char, match: marked[i] });
+  });
+  return segments;
+};
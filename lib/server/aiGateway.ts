@@ -0,0 +1,73 @@
+// lib/server/aiGateway.ts
+// Per-user rate limiting, daily quotas and response caching for the AI route.
+// State is held in memory, so limits apply per server instance.
+
+const numberFromEnv = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+export const RATE_LIMIT_PER_MINUTE = numberFromEnv('AI_RATE_LIMIT_PER_MINUTE', 10);
+export const DAILY_QUOTA = numberFromEnv('AI_DAILY_QUOTA', 200);
+const CACHE_TTL_MS = numberFromEnv('AI_CACHE_TTL_HOURS', 24) * 60 * 60 * 1000;
+const CACHE_MAX_ENTRIES = 500;
+const MINUTE_MS = 60 * 1000;
+
+// --- Rate limits & quotas ---
+const recentRequests = new Map<string, number[]>();
+const dailyUsage = new Map<string, { day: string; count: number }>();
+
+export type LimitResult = { allowed: true } | { allowed: false; reason: 'rate' | 'quota'; retryAfterSeconds: number };
+
+const secondsUntilTomorrow = (now: Date) => {
+  const tomorrow = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+  return Math.ceil((tomorrow.getTime() - now.getTime()) / 1000);
+};
+
+// Checks both limits and records the request when it is allowed.
+export const consumeRequest = (uid: string, now = new Date()): LimitResult => {
+  const day = now.toISOString().slice(0, 10);
+  const usage = dailyUsage.get(uid);
+  const usedToday = usage && usage.day === day ? usage.count : 0;
+  if (usedToday >= DAILY_QUOTA) return { allowed: false, reason: 'quota', retryAfterSeconds: secondsUntilTomorrow(now) };
+
+  const windowStart = now.getTime() - MINUTE_MS;
+  const recent = (recentRequests.get(uid) || []).filter(time => time > windowStart);
+  if (recent.length >= RATE_LIMIT_PER_MINUTE) {
+    return { allowed: false, reason: 'rate', retryAfterSeconds: Math.ceil((recent[0] + MINUTE_MS - now.getTime()) / 1000) };
+  }
+
+  recent.push(now.getTime());
+  recentRequests.set(uid, recent);
+  dailyUsage.set(uid, { day, count: usedToday + 1 });
+  return { allowed: true };
+};
+
+export const remainingQuota = (uid: string, now = new Date()) => {
+  const usage = dailyUsage.get(uid);
+  return DAILY_QUOTA - (usage && usage.day === now.toISOString().slice(0, 10) ? usage.count : 0);
+};
+
+// --- Response cache ---
+const cache = new Map<string, { value: string; expiresAt: number }>();
+
+export const cacheKey = (providerId: string, promptType: string, term: string) => `${providerId}:${promptType}:${term.trim().toLowerCase()}`;
+
+export const getCached = (key: string): string | null => {
+  const entry = cache.get(key);
+  if (!entry) return null;
+  if (entry.expiresAt < Date.now()) { cache.delete(key); return null; }
+  // Re-insert so Map iteration order doubles as LRU order.
+  cache.delete(key);
+  cache.set(key, entry);
+  return entry.value;
+};
+
+export const setCached = (key: string, value: string) => {
+  cache.set(key, { value, expiresAt: Date.now() + CACHE_TTL_MS });
+  while (cache.size > CACHE_MAX_ENTRIES) {
+    const oldest = cache.keys().next().value;
+    if (oldest === undefined) break;
+    cache.delete(oldest);
+  }
+};
@@ -0,0 +1,112 @@
+// lib/server/aiProviders.ts
+// Server-only AI providers. Keys come from non-public env vars and never reach the browser.
+import { GoogleGenerativeAI } from "@google/generative-ai";
+
+export interface AiProviderInfo { id: string; label: string; }
+export interface StreamOptions { json: boolean; }
+
+export interface ServerAiProvider extends AiProviderInfo {
+  stream: (prompt: string, options: StreamOptions) => AsyncIterable<string>;
+}
+
+// --- Gemini ---
+const createGeminiProvider = (apiKey: string, model: string): ServerAiProvider => {
+  const generativeModel = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model });
+  return {
+    id: 'gemini',
+    label: 'Gemini',
+    stream: async function* (prompt, { json }) {
+      const result = await generativeModel.generateContentStream({
+        contents: [{ role: 'user', parts: [{ text: prompt }] }],
+        ...(json ? { generationConfig: { responseMimeType: 'application/json' } } : {}),
+      });
+      for await (const chunk of result.stream) yield chunk.text();
+    },
+  };
+};
+
+// --- OpenAI-compatible chat completions (DeepSeek and any self-hosted endpoint) ---
+const createOpenAiCompatibleProvider = (info: AiProviderInfo, baseUrl: string, apiKey: string, model: string): ServerAiProvider => ({
+  ...info,
+  stream: async function* (prompt, { json }) {
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${apiKey}` },
+      body: JSON.stringify({ model, messages: [{ role: "user", content: prompt }], stream: true, ...(json ? { response_format: { type: 'json_object' } } : {}) }),
+    });
+    if (!response.ok || !response.body) throw new Error(`${info.label} API error: ${response.status} ${response.statusText}`);
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split('\n');
+      buffer = events.pop() ?? '';
+      for (const event of events) {
+        const data = event.replace(/^data:\s*/, '').trim();
+        if (!data || data === '[DONE]' || !event.startsWith('data:')) continue;
+        const content = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (content) yield content;
+      }
+    }
+  },
+});
+
+// --- Offline mock for development and tests ---
+const MOCK_CHUNK_DELAY_MS = 30;
+const MOCK_FIELD_VALUES: Record<string, string> = { meaning: '（模拟释义）', example: 'This is a mock example sentence.', context: '（模拟用法说明）', translation: '（模拟翻译）' };
+
+// The enrichment prompt lists one JSON card per line after "Cards:"; each missing field gets a placeholder.
+const mockEnrichment = (prompt: string) => {
+  const cards = prompt.split('Cards:\n')[1].split('\n').flatMap(line => {
+    try {
+      const card = JSON.parse(line) as { index: number; missing?: string[] };
+      return [{ index: card.index, ...Object.fromEntries((card.missing || []).map(field => [field, MOCK_FIELD_VALUES[field] ?? ''])) }];
+    } catch {
+      return [];
+    }
+  });
+  return JSON.stringify({ cards });
+};
+
+const mockResponse = (prompt: string, json: boolean) => {
+  if (json && prompt.includes('Cards:\n')) return mockEnrichment(prompt);
+  if (!json) return `**Mock response**\n\n1. This is a mock example sentence.\n2. Another mock sentence for offline development.\n3. Prompt length: ${prompt.length} characters.`;
+  const text = prompt.split('"""')[1] || '';
+  const sentence = text.split(/(?<=[.!?])\s+/).find(s => s.trim().split(/\s+/).length >= 3)?.trim() || '';
+  const term = sentence.split(/\s+/).slice(0, 3).join(' ').replace(/[^\w\s'-]/g, '');
+  return JSON.stringify({ cards: term ? [{ term, meaning: '（模拟释义）', example: sentence, context: '（模拟用法说明）', translation: '（模拟翻译）' }] : [] });
+};
+
+export const mockProvider: ServerAiProvider = {
+  id: 'mock',
+  label: 'Mock',
+  stream: async function* (prompt, { json }) {
+    const response = mockResponse(prompt, json);
+    for (let i = 0; i < response.length; i += 16) {
+      await new Promise(resolve => setTimeout(resolve, MOCK_CHUNK_DELAY_MS));
+      yield response.slice(i, i + 16);
+    }
+  },
+};
+
+// --- Registry ---
+let providers: ServerAiProvider[] | null = null;
+
+export const getConfiguredProviders = (): ServerAiProvider[] => {
+  if (providers) return providers;
+  const env = process.env;
+  const list: ServerAiProvider[] = [];
+  if (env.GEMINI_API_KEY) list.push(createGeminiProvider(env.GEMINI_API_KEY, env.GEMINI_MODEL || 'gemini-1.5-flash'));
+  if (env.DEEPSEEK_API_KEY) list.push(createOpenAiCompatibleProvider({ id: 'deepseek', label: 'DeepSeek' }, 'https://api.deepseek.com', env.DEEPSEEK_API_KEY, env.DEEPSEEK_MODEL || 'deepseek-chat'));
+  if (env.OPENAI_COMPATIBLE_BASE_URL && env.OPENAI_COMPATIBLE_MODEL) {
+    list.push(createOpenAiCompatibleProvider({ id: 'openai-compatible', label: env.OPENAI_COMPATIBLE_LABEL || 'OpenAI 兼容' }, env.OPENAI_COMPATIBLE_BASE_URL, env.OPENAI_COMPATIBLE_API_KEY || '', env.OPENAI_COMPATIBLE_MODEL));
+  }
+  if (env.NODE_ENV === 'development' || env.AI_ENABLE_MOCK === 'true') list.push(mockProvider);
+  providers = list;
+  return providers;
+};
+
+export const getProvider = (id: string) => getConfiguredProviders().find(provider => provider.id === id) ?? null;
@@ -0,0 +1,32 @@
+// lib/server/firebaseAdmin.ts
+import { initializeApp, getApps, cert, type App } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+
+const DEFAULT_PROJECT_ID = 'smart-idiom-cards-d51dd';
+
+// Verifying ID tokens only needs the project id; a service account is used when provided.
+const getAdminApp = (): App => {
+  const existing = getApps()[0];
+  if (existing) return existing;
+  const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT;
+  return initializeApp({
+    projectId: process.env.FIREBASE_PROJECT_ID || DEFAULT_PROJECT_ID,
+    ...(serviceAccount ? { credential: cert(JSON.parse(serviceAccount)) } : {}),
+  });
+};
+
+export const adminAuth = () => getAuth(getAdminApp());
+
+// Returns the uid for a `Bearer <idToken>` header, or null when it is missing or invalid.
+export const verifyRequestUser = async (request: Request): Promise<string | null> => {
+  const header = request.headers.get('authorization') || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+  if (!token) return null;
+  try {
+    const decoded = await adminAuth().verifyIdToken(token);
+    return decoded.uid;
+  } catch (err) {
+    console.error("ID token 校验失败:", err);
+    return null;
+  }
+};
@@ -0,0 +1,42 @@
+// lib/settings.ts
+// Per-user study preferences, kept in localStorage so they work offline.
+import { DEFAULT_DAILY_LIMITS, type DailyLimits } from './reviewQueue';
+import type { StudyMode } from './studyModes';
+import { EMPTY_FILTER, type CardFilter } from './search';
+import { isLocale, type Locale } from './i18n';
+import type { ParserAliases } from './parsers';
+import { DEFAULT_LEECH_THRESHOLD } from './leeches';
+
+// A saved search that can be reviewed like a deck.
+export interface FilteredDeck { id: string; name: string; filter: CardFilter; }
+
+export interface StudySettings {
+  limits: DailyLimits;
+  reviewDeckIds: string[] | null;   // null = all decks
+  studyMode: StudyMode;
+  filteredDecks: FilteredDeck[];
+  locale: Locale | null;            // null = follow the device
+  parserAliases: ParserAliases;     // extra note labels on top of the locale's own
+  leechThreshold: number;           // lapses before a card is tagged as a leech, 0 = never
+}
+
+export const DEFAULT_STUDY_SETTINGS: StudySettings = { limits: DEFAULT_DAILY_LIMITS, reviewDeckIds: null, studyMode: 'standard', filteredDecks: [], locale: null, parserAliases: {}, leechThreshold: DEFAULT_LEECH_THRESHOLD };
+
+const storageKey = (ownerId: string) => `smart-idiom-cards:settings:${ownerId}`;
+
+export const loadStudySettings = (ownerId: string): StudySettings => {
+  try {
+    const raw = localStorage.getItem(storageKey(ownerId));
+    if (!raw) return DEFAULT_STUDY_SETTINGS;
+    const saved = JSON.parse(raw) as Partial<StudySettings>;
+    const filteredDecks = (saved.filteredDecks ?? []).map(deck => ({ ...deck, filter: { ...EMPTY_FILTER, ...deck.filter } }));
+    return { ...DEFAULT_STUDY_SETTINGS, ...saved, limits: { ...DEFAULT_DAILY_LIMITS, ...saved.limits }, filteredDecks, locale: isLocale(saved.locale) ? saved.locale : null };
+  } catch (err) {
+    console.error("读取学习设置失败:", err);
+    return DEFAULT_STUDY_SETTINGS;
+  }
+};
+
+export const saveStudySettings = (ownerId: string, settings: StudySettings) => {
+  localStorage.setItem(storageKey(ownerId), JSON.stringify(settings));
+};
@@ -0,0 +1,79 @@
+// lib/sharing.ts
+// Public deck sharing. Publishing copies the card text into sharedDecks/{shareId}, which anyone
+// may read; scheduling data never leaves the private deck. Unpublishing deletes the copy, so the
+// link stops working. Needs a connection, unlike edits that go through the sync queue.
+import { db } from '../firebase';
+import { collection, doc, getDoc, getDocs, query, where, orderBy, writeBatch, deleteField, Timestamp, type WriteBatch } from 'firebase/firestore';
+import type { CardContent, Deck } from './types';
+import { createCard, pickContent } from './cards';
+import { commitInBatches } from './deckStore';
+import { DEFAULT_SCHEDULER } from './scheduler';
+import { newDocId } from './sync';
+
+const SHARED_COLLECTION = 'sharedDecks';
+const CARDS_COLLECTION = 'cards';
+
+export interface SharedDeck { id: string; deckId: string; ownerId: string; title: string; cardCount: number; publishedAt: Timestamp; cards: CardContent[]; }
+
+const sharedRef = (shareId: string) => doc(db, SHARED_COLLECTION, shareId);
+const sharedCardsCollection = (shareId: string) => collection(db, SHARED_COLLECTION, shareId, CARDS_COLLECTION);
+
+export const shareUrl = (shareId: string) => `${window.location.origin}/share/${shareId}`;
+
+// Filtered by owner so the query is still allowed once the shared document is gone.
+const deleteSharedCards = async (shareId: string, ownerId: string) => {
+  const snapshot = await getDocs(query(sharedCardsCollection(shareId), where("ownerId", "==", ownerId)));
+  await commitInBatches(snapshot.docs.map(cardDoc => (batch: WriteBatch) => batch.delete(cardDoc.ref)));
+};
+
+// Publishes the deck, or refreshes an existing share with the deck's current cards under the same link.
+export const publishDeck = async (deck: Deck): Promise<string> => {
+  const shareId = deck.shareId ?? newDocId(SHARED_COLLECTION);
+  if (deck.shareId) await deleteSharedCards(shareId, deck.ownerId);
+  await commitInBatches([
+    ...deck.cards.map((card, position) => (batch: WriteBatch) => batch.set(doc(sharedCardsCollection(shareId), card.id), { ...pickContent(card), position, ownerId: deck.ownerId })),
+    (batch: WriteBatch) => batch.set(sharedRef(shareId), { deckId: deck.id, ownerId: deck.ownerId, title: deck.title, cardCount: deck.cards.length, publishedAt: Timestamp.now() }),
+    (batch: WriteBatch) => batch.update(doc(db, "decks", deck.id), { shareId }),
+  ]);
+  return shareId;
+};
+
+// The shared document is deleted first so the link is revoked even if cleaning up the cards fails;
+// the rules only serve shared cards while their parent document exists.
+export const unpublishDeck = async (deck: Pick<Deck, 'id' | 'ownerId' | 'shareId'>, { keepDeckField = false } = {}) => {
+  if (!deck.shareId) return;
+  const batch = writeBatch(db);
+  batch.delete(sharedRef(deck.shareId));
+  if (!keepDeckField) batch.update(doc(db, "decks", deck.id), { shareId: deleteField() });
+  await batch.commit();
+  await deleteSharedCards(deck.shareId, deck.ownerId);
+};
+
+// Unpublishes everything the user has shared, including copies whose deck no longer points at them.
+export const deleteAllSharedDecks = async (ownerId: string) => {
+  const snapshot = await getDocs(query(collection(db, SHARED_COLLECTION), where("ownerId", "==", ownerId)));
+  for (const sharedDoc of snapshot.docs) {
+    const batch = writeBatch(db);
+    batch.delete(sharedDoc.ref);
+    await batch.commit();
+    await deleteSharedCards(sharedDoc.id, ownerId);
+  }
+};
+
+// Returns null when the deck was never published or has been unpublished.
+export const fetchSharedDeck = async (shareId: string): Promise<SharedDeck | null> => {
+  const snapshot = await getDoc(sharedRef(shareId));
+  if (!snapshot.exists()) return null;
+  const cards = await getDocs(query(sharedCardsCollection(shareId), orderBy("position")));
+  return { id: snapshot.id, ...(snapshot.data() as Omit<SharedDeck, 'id' | 'cards'>), cards: cards.docs.map(cardDoc => pickContent(cardDoc.data() as CardContent)) };
+};
+
+// Copies a shared deck into the viewer's library with fresh scheduling state.
+export const cloneSharedDeck = (shared: SharedDeck, ownerId: string): Deck => ({
+  id: newDocId("decks"),
+  title: shared.title,
+  cards: shared.cards.map(createCard),
+  createdAt: Timestamp.now(),
+  ownerId,
+  scheduler: DEFAULT_SCHEDULER,
+});
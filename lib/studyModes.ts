@@ -0,0 +1,99 @@
+// lib/studyModes.ts
+// Prompt builders and answer checking for the review overlay's study modes. Every mode ends in
+// the same 忘记了 / 还行 / 太简单 answer, so scheduling is unaffected by how a card was asked.
+import type { Card, ReviewAnswer } from './types';
+import { shuffle } from './reviewQueue';
+
+export type StudyMode = 'standard' | 'reverse' | 'typed' | 'cloze' | 'choice';
+
+export const STUDY_MODES: StudyMode[] = ['standard', 'reverse', 'typed', 'cloze', 'choice'];
+
+const CHOICE_COUNT = 4;
+
+const normalizeAnswer = (text: string) => text.toLowerCase().replace(/[‘’]/g, "'").replace(/[^\p{L}\p{N}\s']/gu, '').replace(/\s+/g, ' ').trim();
+
+// --- Typed answers ---
+export type DiffSegment = { type: 'same' | 'missing' | 'extra'; text: string };
+export interface TypedResult { verdict: 'correct' | 'close' | 'wrong'; diff: DiffSegment[]; }
+
+const levenshtein = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Character diff from the typed text to the expected text via longest common subsequence.
+export const diffAnswer = (typed: string, expected: string): DiffSegment[] => {
+  const a = [...typed], b = [...expected];
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) for (let j = b.length - 1; j >= 0; j--) {
+    lcs[i][j] = a[i].toLowerCase() === b[j].toLowerCase() ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+  }
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], char: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) last.text += char; else segments.push({ type, text: char });
+  };
+  let i = 0, j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i].toLowerCase() === b[j].toLowerCase()) { push('same', b[j]); i++; j++; }
+    else if (j < b.length && (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])) push('missing', b[j++]);
+    else push('extra', a[i++]);
+  }
+  return segments;
+};
+
+// Ignores case and punctuation; about one typo per five letters still counts as close.
+export const checkTypedAnswer = (typed: string, expected: string): TypedResult => {
+  const a = normalizeAnswer(typed), b = normalizeAnswer(expected);
+  const diff = diffAnswer(typed.trim(), expected.trim());
+  if (a === b) return { verdict: 'correct', diff };
+  if (a && levenshtein(a, b) <= Math.ceil(b.length / 5)) return { verdict: 'close', diff };
+  return { verdict: 'wrong', diff };
+};
+
+// --- Cloze ---
+export interface Cloze { before: string; answer: string; after: string; }
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Blanks the term inside its example. Each word may carry an inflected ending (look → looked up),
+// and an optional leading "to"/"be" is dropped. Returns null when the term can't be found.
+export const makeCloze = (card: Card): Cloze | null => {
+  if (!card.example) return null;
+  const words = card.term.replace(/^(to|be)\s+/i, '').replace(/\(.*?\)/g, '').split(/\s+/).filter(Boolean).map(word => word.replace(/[^\p{L}\p{N}'-]/gu, ''));
+  if (words.length === 0 || words.some(word => !word)) return null;
+  const pattern = new RegExp(`\\b${words.map(word => `${escapeRegExp(word.length > 3 ? word.replace(/e$/i, '') : word)}\\p{L}*`).join("[\\s,'’-]+")}`, 'iu');
+  const match = card.example.match(pattern);
+  if (!match || match.index === undefined) return null;
+  return { before: card.example.slice(0, match.index), answer: match[0], after: card.example.slice(match.index + match[0].length) };
+};
+
+// --- Multiple choice ---
+// Draws distractor meanings from other cards; null when the user doesn't have enough distinct meanings.
+export const buildChoices = (card: Card, meaningPool: string[], random = Math.random): string[] | null => {
+  const own = normalizeAnswer(card.meaning);
+  const seen = new Set([own]);
+  const candidates = shuffle(meaningPool, random).filter(meaning => {
+    const key = normalizeAnswer(meaning);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  if (candidates.length === 0) return null;
+  return shuffle([card.meaning, ...candidates.slice(0, CHOICE_COUNT - 1)], random);
+};
+
+// Cards that can't be shown in the chosen mode fall back to the standard prompt.
+export const resolveMode = (mode: StudyMode, card: Card, meaningPool: string[]): StudyMode => {
+  if (mode === 'cloze' && !makeCloze(card)) return 'standard';
+  if (mode === 'choice' && !buildChoices(card, meaningPool)) return 'standard';
+  return mode;
+};
+
+// The answer button highlighted after an automatically checked prompt.
+export const suggestedAnswer = (verdict: TypedResult['verdict']): ReviewAnswer => verdict === 'wrong' ? 'again' : 'good';
@@ -0,0 +1,186 @@
+// lib/sync.ts
+// Replays the IndexedDB write queue against Firestore and reports sync status.
+// Every mutation is queued first, so the UI keeps working without a connection.
+import { db } from '../firebase';
+import { doc, collection, setDoc, deleteDoc } from 'firebase/firestore';
+import type { Deck } from './types';
+import { diffCards, isCardDiffEmpty, pickEdits, resolveCardConflict } from './cards';
+import { DEFAULT_SCHEDULER } from './scheduler';
+import { formatTags } from './search';
+import { saveProfileFields } from './profile';
+import { createDeck, deleteDeck, updateDeckFields, saveCardChanges, saveReviewedCard, updateCardFields, restoreReviewedCard } from './deckStore';
+import { enqueueWrites, getQueuedWrites, removeQueuedWrite, fromStoredCard, fromStoredDeck, fromStoredDeckChanges, fromStoredReviewLog, toStoredCard, type PendingWrite, type QueuedWrite } from './localStore';
+
+export type SyncState = 'synced' | 'syncing' | 'offline' | 'error';
+export interface SyncStatus { state: SyncState; pending: number; lastSyncedAt: number | null; }
+
+// --- Status ---
+let status: SyncStatus = { state: 'synced', pending: 0, lastSyncedAt: null };
+const listeners = new Set<(status: SyncStatus) => void>();
+
+const setStatus = (next: Partial<SyncStatus>) => {
+  status = { ...status, ...next };
+  listeners.forEach(listener => listener(status));
+};
+
+export const subscribeSyncStatus = (listener: (status: SyncStatus) => void) => {
+  listeners.add(listener);
+  listener(status);
+  return () => { listeners.delete(listener); };
+};
+
+export const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+export const newDocId = (collectionName: string) => doc(collection(db, collectionName)).id;
+
+// Applies a queued write to an in-memory deck list, used to overlay unsynced changes on fetched data.
+export const applyPendingWrite = (decks: Deck[], write: PendingWrite): Deck[] => {
+  switch (write.kind) {
+    case 'createDeck': return decks.some(d => d.id === write.deck.id) ? decks : [fromStoredDeck(write.deck), ...decks];
+    case 'deleteDeck': return decks.filter(d => d.id !== write.deckId);
+    case 'updateDeck': return decks.map(d => d.id !== write.deckId ? d : { ...d, ...fromStoredDeckChanges(write.changes) });
+    case 'saveCards': {
+      const deleted = new Set(write.deletedIds);
+      const edited = new Map(write.edited.map(card => [card.id, fromStoredCard(card)]));
+      const rescheduled = new Map((write.rescheduled ?? []).map(card => [card.id, fromStoredCard(card)]));
+      return decks.map(d => {
+        if (d.id !== write.deckId) return d;
+        const kept = d.cards.filter(c => !deleted.has(c.id)).map(c => {
+          const edit = edited.get(c.id), schedule = rescheduled.get(c.id);
+          return { ...c, ...(edit && pickEdits(edit)), ...(schedule && { srs: schedule.srs, srsLevel: schedule.srsLevel, dueDate: schedule.dueDate }) };
+        });
+        const cards = [...kept, ...write.added.filter(card => !kept.some(c => c.id === card.id)).map(fromStoredCard)];
+        // Until its cards are loaded a deck's count comes from the summary, which does not know about this write yet.
+        const summary = d.summary && { ...d.summary, cardCount: d.summary.cardCount + write.added.length - write.deletedIds.length };
+        if (!write.order) return { ...d, cards, summary };
+        const rank = new Map(write.order.map((cardId, i) => [cardId, i]));
+        return { ...d, cards: [...cards].sort((a, b) => (rank.get(a.id) ?? Infinity) - (rank.get(b.id) ?? Infinity)), summary };
+      });
+    }
+    case 'reviewCard': {
+      const card = fromStoredCard(write.card);
+      return decks.map(d => d.id !== write.deckId ? d : { ...d, cards: d.cards.map(c => c.id === card.id ? resolveCardConflict(card, c) : c) });
+    }
+    case 'updateCard': return decks.map(d => d.id !== write.deckId ? d : { ...d, cards: d.cards.map(c => c.id === write.cardId ? { ...c, ...write.changes } : c) });
+    case 'reviewLog':
+    case 'updateProfile': return decks;
+    case 'undoReview': {
+      const card = fromStoredCard(write.card);
+      return decks.map(d => d.id !== write.deckId ? d : { ...d, cards: d.cards.map(c => c.id === card.id ? { ...c, srs: card.srs, srsLevel: card.srsLevel, dueDate: card.dueDate } : c) });
+    }
+  }
+};
+
+// The writes that turn one saved version of a deck into another; undoing an edit swaps the arguments.
+export const deckEditWrites = (before: Deck | undefined, after: Deck): PendingWrite[] => {
+  const writes: PendingWrite[] = [];
+  if (!before || before.title !== after.title || before.scheduler !== after.scheduler || formatTags(before.tags) !== formatTags(after.tags)) {
+    writes.push({ kind: 'updateDeck', deckId: after.id, changes: { title: after.title, scheduler: after.scheduler ?? DEFAULT_SCHEDULER, tags: after.tags ?? [] } });
+  }
+  const diff = diffCards(before?.cards || [], after.cards);
+  if (!isCardDiffEmpty(diff)) {
+    writes.push({ kind: 'saveCards', deckId: after.id, added: diff.added.map(toStoredCard), edited: diff.edited.map(toStoredCard), rescheduled: diff.rescheduled.map(toStoredCard), deletedIds: diff.deletedIds, order: diff.order });
+  }
+  return writes;
+};
+
+// --- Replay ---
+const replayWrite = async (write: QueuedWrite) => {
+  switch (write.kind) {
+    case 'createDeck': return createDeck(fromStoredDeck(write.deck));
+    case 'deleteDeck': return deleteDeck(write.deckId);
+    case 'updateDeck': return updateDeckFields(write.deckId, fromStoredDeckChanges(write.changes));
+    case 'saveCards':
+      return saveCardChanges(write.deckId, write.ownerId, {
+        added: write.added.map(fromStoredCard), edited: write.edited.map(fromStoredCard), rescheduled: (write.rescheduled ?? []).map(fromStoredCard), deletedIds: write.deletedIds, order: write.order,
+      }, write.queuedAt);
+    case 'reviewCard': return saveReviewedCard(write.deckId, fromStoredCard(write.card));
+    case 'updateCard': return updateCardFields(write.deckId, write.cardId, write.changes);
+    case 'reviewLog': {
+      const { id, ...entry } = fromStoredReviewLog(write.entry);
+      await setDoc(doc(db, "reviewLogs", id), entry);
+      return;
+    }
+    case 'undoReview':
+      // The log entry goes first: restoring a card that was deleted meanwhile fails permanently.
+      await deleteDoc(doc(db, "reviewLogs", write.logId));
+      return restoreReviewedCard(write.deckId, fromStoredCard(write.card));
+    case 'updateProfile': return saveProfileFields(write.ownerId, write.changes);
+  }
+};
+
+// Errors that will never succeed on retry; the write is dropped instead of blocking the queue.
+const isPermanentError = (err: unknown) => {
+  const code = (err as { code?: string })?.code;
+  return code === 'permission-denied' || code === 'invalid-argument' || code === 'not-found';
+};
+
+// After a temporary error the queue is flushed again after 5 s, then 10 s, 20 s and so on up to
+// 5 minutes, so edits do not wait for the next write or reconnect while the app stays open.
+const RETRY_BASE_MS = 5000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let retryAttempt = 0;
+
+export const cancelRetry = () => {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  retryAttempt = 0;
+};
+
+const scheduleRetry = (ownerId: string) => {
+  const delay = Math.min(RETRY_BASE_MS * 2 ** retryAttempt, RETRY_MAX_MS);
+  retryAttempt += 1;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushQueue(ownerId).catch(err => console.error("同步失败:", err));
+  }, delay);
+};
+
+let flushing: Promise<void> | null = null;
+
+export const flushQueue = (ownerId: string): Promise<void> => {
+  if (flushing) return flushing;
+  // A flush started for any reason replaces the scheduled retry.
+  if (retryTimer) { clearTimeout(retryTimer); retryTimer = null; }
+  flushing = (async () => {
+    let writes = await getQueuedWrites(ownerId);
+    setStatus({ pending: writes.length });
+    if (!isOnline()) { setStatus({ state: 'offline' }); return; }
+    // Writes queued while flushing are picked up by the next pass.
+    while (writes.length > 0) {
+      setStatus({ state: 'syncing' });
+      for (const write of writes) {
+        try {
+          await replayWrite(write);
+        } catch (err) {
+          if (!isPermanentError(err)) {
+            console.error("同步失败，稍后重试:", err);
+            // Offline, the online event flushes the queue again instead.
+            if (isOnline()) { setStatus({ state: 'error' }); scheduleRetry(ownerId); }
+            else setStatus({ state: 'offline' });
+            return;
+          }
+          console.error("同步被拒绝，已丢弃该操作:", write, err);
+        }
+        await removeQueuedWrite(write.id);
+        setStatus({ pending: Math.max(0, status.pending - 1) });
+      }
+      writes = await getQueuedWrites(ownerId);
+      setStatus({ pending: writes.length });
+    }
+    retryAttempt = 0;
+    setStatus({ state: 'synced', lastSyncedAt: Date.now() });
+  })().finally(() => { flushing = null; });
+  return flushing;
+};
+
+export const queueWrites = async (ownerId: string, writes: PendingWrite[]) => {
+  await enqueueWrites(ownerId, writes);
+  setStatus({ pending: status.pending + writes.length });
+  flushQueue(ownerId).catch(err => console.error("同步失败:", err));
+};
+
+export const queueWrite = (ownerId: string, write: PendingWrite) => queueWrites(ownerId, [write]);
+
+export const markOffline = () => setStatus({ state: 'offline' });
@@ -0,0 +1,16 @@
+// lib/trash.ts
+// Deleted decks are kept in the trash with their cards and review progress until they expire.
+import type { Deck } from './types';
+
+export const TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isTrashed = (deck: Deck) => !!deck.deletedAt;
+
+export const trashDaysLeft = (deck: Deck, now = new Date()) => {
+  if (!deck.deletedAt) return TRASH_RETENTION_DAYS;
+  const elapsed = now.getTime() - deck.deletedAt.toMillis();
+  return Math.max(0, Math.ceil(TRASH_RETENTION_DAYS - elapsed / DAY_MS));
+};
+
+export const isTrashExpired = (deck: Deck, now = new Date()) => isTrashed(deck) && trashDaysLeft(deck, now) === 0;
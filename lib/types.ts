@@ -0,0 +1,31 @@
+// lib/types.ts
+import type { Timestamp } from 'firebase/firestore';
+
+// --- Scheduling ---
+export type ReviewAnswer = 'again' | 'good' | 'easy';
+export type SchedulerId = 'sm2' | 'fsrs';
+// new: never reviewed; learning: answered 忘记了 and waiting for its relearning step; review: everything else.
+export type CardState = 'new' | 'learning' | 'review';
+
+// Per-card scheduler state. SM-2 uses easeFactor/repetitions, FSRS uses stability/difficulty;
+// both share interval/lapses so a deck can switch algorithm without losing progress.
+export interface SrsState {
+  interval: number;          // days until the next review, 0 while relearning
+  easeFactor: number;
+  repetitions: number;       // consecutive successful reviews
+  lapses: number;
+  stability: number;
+  difficulty: number;
+  lastReviewedAt: number | null; // epoch ms
+}
+
+// --- Data Structures ---
+// suspended cards never come up for review; buriedUntil (epoch ms) keeps a card out of today's sessions.
+export interface Card { id: string; term: string; meaning: string; example: string; context: string; translation: string; srsLevel: number; dueDate: Timestamp; srs: SrsState; tags?: string[]; suspended?: boolean; buriedUntil?: number | null; }
+// Counts read with the deck list by count queries, so listing decks never reads every card.
+export interface DeckSummary { cardCount: number; dueCount: number; }
+// shareId is set while the deck is published at /share/{shareId}; deletedAt while it sits in the trash.
+// summary is set while the deck's cards have not been loaded from Firestore; cards then holds at most the cached copy.
+export interface Deck { id: string; title: string; cards: Card[]; createdAt: Timestamp; ownerId: string; scheduler?: SchedulerId; shareId?: string; tags?: string[]; deletedAt?: Timestamp | null; summary?: DeckSummary; }
+export type CardContent = Pick<Card, 'term' | 'meaning' | 'example' | 'context' | 'translation'>;
+export interface ReviewLogEntry { id: string; ownerId: string; cardId: string; deckId: string; answer: ReviewAnswer; prevInterval: number; newInterval: number; reviewedAt: Timestamp; timeSpentMs: number; cardState?: CardState; }
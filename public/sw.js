@@ -0,0 +1,57 @@
+// public/sw.js
+// Keeps the app shell available offline and opens the app when a due-card reminder is clicked.
+// Deck data is cached separately in IndexedDB by the app itself, so only pages and static
+// assets are cached here; API and Firebase requests always go to the network.
+const CACHE_NAME = 'smart-idiom-cards-v1';
+const APP_SHELL = ['/'];
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(CACHE_NAME).then(cache => cache.addAll(APP_SHELL)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+// Pages: network first, falling back to the cached copy. Static assets: cache first, since their
+// URLs change with every build.
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then(response => {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then(cache => cache.put(request, copy));
+          return response;
+        })
+        .catch(() => caches.match(request).then(cached => cached || caches.match('/'))),
+    );
+    return;
+  }
+  if (url.pathname.startsWith('/_next/static/') || url.pathname.startsWith('/icon')) {
+    event.respondWith(
+      caches.match(request).then(cached => cached || fetch(request).then(response => {
+        const copy = response.clone();
+        caches.open(CACHE_NAME).then(cache => cache.put(request, copy));
+        return response;
+      })),
+    );
+  }
+});
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(windows => {
+      const open = windows.find(client => new URL(client.url).pathname === '/');
+      return open ? open.focus() : self.clients.openWindow('/');
+    }),
+  );
+});
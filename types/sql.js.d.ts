@@ -0,0 +1,6 @@
+// types/sql.js.d.ts
+// The asm.js build ships without its own typings; it exposes the same API as the wasm entry.
+declare module 'sql.js/dist/sql-asm.js' {
+  import initSqlJs from 'sql.js';
+  export default initSqlJs;
+}